@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { tenantApi, AdminApiError } from "@/lib/admin/api";
+import { tenantApi, blocklistApi, AdminApiError } from "@/lib/admin/api";
 import type { TenantData } from "@/lib/admin/api";
 
 interface BrandingForm {
@@ -10,6 +10,88 @@ interface BrandingForm {
   accentColor: string;
   shareBaseUrl: string;
   howItWorks: string;
+  referralCodeTtlDays: string;
+  referralCodeMaxAgeDays: string;
+  claimWindowDays: string;
+  budgetAmount: string;
+  budgetCurrency: string;
+  budgetPeriod: "month" | "program";
+  fraudScoringEnabled: boolean;
+  fraudHoldThreshold: string;
+  fraudHoldSignals: string[];
+  blockDuplicateFingerprints: boolean;
+}
+
+const FRAUD_SIGNALS = [
+  { key: "same_email", label: "Same email as the referrer" },
+  { key: "same_email_domain", label: "Same email domain as the referrer" },
+  { key: "disposable_email", label: "Disposable email address" },
+  { key: "ip_reuse", label: "IP reused for the referrer" },
+  { key: "user_agent_reuse", label: "Device reused for the referrer" },
+  { key: "claim_velocity", label: "Claim velocity exceeded" },
+];
+
+interface CodeFormatForm {
+  style: "random" | "words";
+  prefix: string;
+  length: number;
+  alphabet: "mixed" | "uppercase" | "lowercase" | "numeric";
+  excludeAmbiguous: boolean;
+  checksum: boolean;
+  wordCount: number;
+  separator: "-" | "_" | "";
+}
+
+const DEFAULT_CODE_FORMAT: CodeFormatForm = {
+  style: "random",
+  prefix: "ref_",
+  length: 12,
+  alphabet: "mixed",
+  excludeAmbiguous: true,
+  checksum: false,
+  wordCount: 2,
+  separator: "-",
+};
+
+type WindowField = "referralCodeTtlDays" | "referralCodeMaxAgeDays" | "claimWindowDays";
+
+const WINDOW_FIELDS: Array<{ field: WindowField; label: string; help: string }> = [
+  {
+    field: "referralCodeTtlDays",
+    label: "Code Validity (days)",
+    help: "Newly issued referral codes expire this many days after they are issued",
+  },
+  {
+    field: "referralCodeMaxAgeDays",
+    label: "Code Max Age (days)",
+    help: "Referral codes stop working this many days after the referrer joined",
+  },
+  {
+    field: "claimWindowDays",
+    label: "Claim Window (days)",
+    help: "Referred users must claim within this many days of their first upsert",
+  },
+];
+
+function parseWindowDays(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed ? parseInt(trimmed, 10) : null;
+}
+
+function formatWindowDays(value: unknown): string {
+  return typeof value === "number" ? String(value) : "";
+}
+
+function parseRewardBudget(form: BrandingForm) {
+  const amount = parseInt(form.budgetAmount.trim(), 10);
+  if (Number.isNaN(amount)) {
+    return null;
+  }
+  return {
+    amount,
+    currency: form.budgetCurrency.trim().toUpperCase(),
+    period: form.budgetPeriod,
+  };
 }
 
 export default function BrandingPage() {
@@ -20,20 +102,44 @@ export default function BrandingPage() {
     accentColor: "#3B82F6",
     shareBaseUrl: "",
     howItWorks: "",
+    referralCodeTtlDays: "",
+    referralCodeMaxAgeDays: "",
+    claimWindowDays: "",
+    budgetAmount: "",
+    budgetCurrency: "",
+    budgetPeriod: "month",
+    fraudScoringEnabled: true,
+    fraudHoldThreshold: "70",
+    fraudHoldSignals: [],
+    blockDuplicateFingerprints: true,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [codeFormat, setCodeFormat] = useState<CodeFormatForm>(DEFAULT_CODE_FORMAT);
+  const [blocklist, setBlocklist] = useState("");
+  const [savingBlocklist, setSavingBlocklist] = useState(false);
+  const [blocklistMessage, setBlocklistMessage] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const res = await tenantApi.get();
+        const [res, blocklistRes] = await Promise.all([
+          tenantApi.get(),
+          blocklistApi.get(),
+        ]);
         setTenant(res.tenant);
+        setBlocklist(blocklistRes.terms.join("\n"));
 
         const branding = res.tenant.brandingJson || {};
         const settings = res.tenant.referralSettingsJson || {};
+        const budget = (settings.reward_budget as Record<string, unknown> | null) || {};
+        const fraudScoring = (settings.fraud_scoring as Record<string, unknown> | null) || {};
+        setCodeFormat({
+          ...DEFAULT_CODE_FORMAT,
+          ...((settings.referral_code_format as Partial<CodeFormatForm>) || {}),
+        });
 
         setForm({
           productName: (branding.productName as string) || "",
@@ -43,6 +149,19 @@ export default function BrandingPage() {
           howItWorks: Array.isArray(settings.howItWorks)
             ? (settings.howItWorks as string[]).join("\n")
             : "",
+          referralCodeTtlDays: formatWindowDays(settings.referral_code_ttl_days),
+          referralCodeMaxAgeDays: formatWindowDays(settings.referral_code_max_age_days),
+          claimWindowDays: formatWindowDays(settings.claim_window_days),
+          budgetAmount: typeof budget.amount === "number" ? String(budget.amount) : "",
+          budgetCurrency: (budget.currency as string) || "",
+          budgetPeriod: budget.period === "program" ? "program" : "month",
+          fraudScoringEnabled: fraudScoring.enabled !== false,
+          fraudHoldThreshold:
+            typeof fraudScoring.holdThreshold === "number" ? String(fraudScoring.holdThreshold) : "70",
+          fraudHoldSignals: Array.isArray(fraudScoring.holdSignals)
+            ? fraudScoring.holdSignals.filter((signal): signal is string => typeof signal === "string")
+            : [],
+          blockDuplicateFingerprints: fraudScoring.blockDuplicateFingerprints !== false,
         });
       } catch (err) {
         if (err instanceof AdminApiError) {
@@ -78,6 +197,18 @@ export default function BrandingPage() {
         referralSettingsJson: {
           shareBaseUrl: form.shareBaseUrl || undefined,
           howItWorks: howItWorksArray.length > 0 ? howItWorksArray : undefined,
+          referral_code_ttl_days: parseWindowDays(form.referralCodeTtlDays),
+          referral_code_max_age_days: parseWindowDays(form.referralCodeMaxAgeDays),
+          claim_window_days: parseWindowDays(form.claimWindowDays),
+          referral_code_format: codeFormat,
+          reward_budget: parseRewardBudget(form),
+          fraud_scoring: {
+            ...((tenant?.referralSettingsJson?.fraud_scoring as Record<string, unknown>) || {}),
+            enabled: form.fraudScoringEnabled,
+            holdThreshold: parseInt(form.fraudHoldThreshold, 10) || 70,
+            holdSignals: form.fraudHoldSignals,
+            blockDuplicateFingerprints: form.blockDuplicateFingerprints,
+          },
         },
       });
 
@@ -95,6 +226,30 @@ export default function BrandingPage() {
     }
   };
 
+  const handleSaveBlocklist = async () => {
+    setSavingBlocklist(true);
+    setError(null);
+    setBlocklistMessage(null);
+
+    try {
+      const terms = blocklist
+        .split("\n")
+        .map((s) => s.trim())
+        .filter(Boolean);
+      const res = await blocklistApi.replace(terms);
+      setBlocklist(res.terms.join("\n"));
+      setBlocklistMessage(`Saved ${res.terms.length} blocked terms`);
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to save blocklist");
+      }
+    } finally {
+      setSavingBlocklist(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="animate-pulse space-y-6">
@@ -236,6 +391,302 @@ export default function BrandingPage() {
           </div>
         </div>
 
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+          <h2 className="text-lg font-medium text-gray-900">
+            Attribution Windows
+          </h2>
+
+          {WINDOW_FIELDS.map(({ field, label, help }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {label}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={3650}
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                placeholder="No limit"
+                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+              <p className="text-sm text-gray-500 mt-1">{help}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              Reward Budget
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Caps the credit rewards granted across the program. Once it is spent, conversions
+              are recorded as completed_unrewarded and program.budget_exhausted is sent.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Amount (minor units)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={form.budgetAmount}
+                onChange={(e) => setForm({ ...form, budgetAmount: e.target.value })}
+                placeholder="No budget"
+                className="w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Currency
+              </label>
+              <input
+                type="text"
+                maxLength={3}
+                value={form.budgetCurrency}
+                onChange={(e) => setForm({ ...form, budgetCurrency: e.target.value })}
+                placeholder="USD"
+                className="w-24 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Period
+              </label>
+              <select
+                value={form.budgetPeriod}
+                onChange={(e) =>
+                  setForm({ ...form, budgetPeriod: e.target.value as BrandingForm["budgetPeriod"] })
+                }
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="month">Per calendar month</option>
+                <option value="program">Whole program</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              Fraud Scoring
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Claims are scored on shared emails and domains, disposable addresses, IP and
+              user-agent reuse and claim velocity. Claims at or above the threshold are held for
+              review and not rewarded, as are claims on which a hold signal fired.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.fraudScoringEnabled}
+              onChange={(e) => setForm({ ...form, fraudScoringEnabled: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Score claims
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.blockDuplicateFingerprints}
+              onChange={(e) => setForm({ ...form, blockDuplicateFingerprints: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Reject claims from a device already used for the same referrer
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Hold Threshold (1-100)
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={form.fraudHoldThreshold}
+              onChange={(e) => setForm({ ...form, fraudHoldThreshold: e.target.value })}
+              disabled={!form.fraudScoringEnabled}
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none disabled:opacity-50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Always Hold When
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {FRAUD_SIGNALS.map((signal) => (
+                <label key={signal.key} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.fraudHoldSignals.includes(signal.key)}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        fraudHoldSignals: e.target.checked
+                          ? [...form.fraudHoldSignals, signal.key]
+                          : form.fraudHoldSignals.filter((key) => key !== signal.key),
+                      })
+                    }
+                    disabled={!form.fraudScoringEnabled}
+                    className="rounded border-gray-300"
+                  />
+                  {signal.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              Referral Code Format
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Applies to codes generated from now on. Existing codes keep working.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Style
+              </label>
+              <select
+                value={codeFormat.style}
+                onChange={(e) =>
+                  setCodeFormat({ ...codeFormat, style: e.target.value as CodeFormatForm["style"] })
+                }
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="random">Random characters</option>
+                <option value="words">Words and number</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Prefix
+              </label>
+              <input
+                type="text"
+                value={codeFormat.prefix}
+                onChange={(e) => setCodeFormat({ ...codeFormat, prefix: e.target.value })}
+                placeholder="ref_"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none font-mono text-sm"
+              />
+            </div>
+
+            {codeFormat.style === "random" ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Length
+                  </label>
+                  <input
+                    type="number"
+                    min={4}
+                    max={32}
+                    value={codeFormat.length}
+                    onChange={(e) =>
+                      setCodeFormat({ ...codeFormat, length: parseInt(e.target.value, 10) || 4 })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Alphabet
+                  </label>
+                  <select
+                    value={codeFormat.alphabet}
+                    onChange={(e) =>
+                      setCodeFormat({
+                        ...codeFormat,
+                        alphabet: e.target.value as CodeFormatForm["alphabet"],
+                      })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  >
+                    <option value="mixed">Mixed case and digits</option>
+                    <option value="uppercase">Uppercase and digits</option>
+                    <option value="lowercase">Lowercase and digits</option>
+                    <option value="numeric">Digits only</option>
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Words
+                  </label>
+                  <select
+                    value={codeFormat.wordCount}
+                    onChange={(e) =>
+                      setCodeFormat({ ...codeFormat, wordCount: parseInt(e.target.value, 10) })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  >
+                    <option value={2}>2 words</option>
+                    <option value={3}>3 words</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Separator
+                  </label>
+                  <select
+                    value={codeFormat.separator}
+                    onChange={(e) =>
+                      setCodeFormat({
+                        ...codeFormat,
+                        separator: e.target.value as CodeFormatForm["separator"],
+                      })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  >
+                    <option value="-">Hyphen (brave-otter-42)</option>
+                    <option value="_">Underscore (brave_otter_42)</option>
+                    <option value="">None (braveotter42)</option>
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {codeFormat.style === "random" && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={codeFormat.excludeAmbiguous}
+                  onChange={(e) =>
+                    setCodeFormat({ ...codeFormat, excludeAmbiguous: e.target.checked })
+                  }
+                />
+                Exclude look-alike characters (0, O, 1, I, i, l, o)
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={codeFormat.checksum}
+                onChange={(e) => setCodeFormat({ ...codeFormat, checksum: e.target.checked })}
+              />
+              Append a check character to catch typos
+            </label>
+          </div>
+        </div>
+
         <div className="flex justify-end">
           <button
             type="submit"
@@ -246,6 +697,37 @@ export default function BrandingPage() {
           </button>
         </div>
       </form>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">
+            Referral Code Blocklist
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Custom referral codes containing any of these terms are rejected.
+            Case and separators are ignored. One term per line.
+          </p>
+        </div>
+        <textarea
+          value={blocklist}
+          onChange={(e) => setBlocklist(e.target.value)}
+          rows={6}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none font-mono text-sm"
+        />
+        <div className="flex items-center justify-end gap-4">
+          {blocklistMessage && (
+            <span className="text-sm text-green-700">{blocklistMessage}</span>
+          )}
+          <button
+            type="button"
+            onClick={handleSaveBlocklist}
+            disabled={savingBlocklist}
+            className="bg-blue-600 text-white py-2 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {savingBlocklist ? "Saving..." : "Save Blocklist"}
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
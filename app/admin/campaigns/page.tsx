@@ -0,0 +1,494 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { campaignsApi, AdminApiError } from "@/lib/admin/api";
+import type { BudgetPeriod, BudgetUsage, Campaign, CampaignInput } from "@/lib/admin/api";
+import { formatMinorUnits } from "@/lib/rewards/currency";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm";
+
+interface CampaignForm {
+  key: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  budgetAmount: string;
+  budgetCurrency: string;
+  budgetPeriod: BudgetPeriod;
+  perReferrerCap: string;
+  shareMessage: string;
+  brandingJson: string;
+}
+
+const EMPTY_FORM: CampaignForm = {
+  key: "",
+  name: "",
+  startsAt: "",
+  endsAt: "",
+  budgetAmount: "",
+  budgetCurrency: "",
+  budgetPeriod: "program",
+  perReferrerCap: "",
+  shareMessage: "",
+  brandingJson: "",
+};
+
+// <input type="datetime-local"> works in local time without a zone.
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function parseOptionalInt(value: string): number | null {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function toForm(campaign: Campaign): CampaignForm {
+  return {
+    key: campaign.key,
+    name: campaign.name,
+    startsAt: toLocalInput(campaign.startsAt),
+    endsAt: toLocalInput(campaign.endsAt),
+    budgetAmount: campaign.budgetAmount?.toString() ?? "",
+    budgetCurrency: campaign.budgetCurrency ?? "",
+    budgetPeriod: campaign.budgetPeriod,
+    perReferrerCap: campaign.perReferrerCap?.toString() ?? "",
+    shareMessage: campaign.shareMessage ?? "",
+    brandingJson: campaign.brandingJson ? JSON.stringify(campaign.brandingJson, null, 2) : "",
+  };
+}
+
+function toInput(form: CampaignForm): CampaignInput {
+  return {
+    name: form.name,
+    startsAt: fromLocalInput(form.startsAt),
+    endsAt: fromLocalInput(form.endsAt),
+    budgetAmount: parseOptionalInt(form.budgetAmount),
+    budgetCurrency: form.budgetCurrency.trim().toUpperCase() || null,
+    budgetPeriod: form.budgetPeriod,
+    perReferrerCap: parseOptionalInt(form.perReferrerCap),
+    shareMessage: form.shareMessage.trim() || null,
+    brandingJson: form.brandingJson.trim() ? JSON.parse(form.brandingJson) : null,
+  };
+}
+
+function describeWindow(campaign: Campaign): string {
+  const start = campaign.startsAt ? new Date(campaign.startsAt).toLocaleString() : "Now";
+  const end = campaign.endsAt ? new Date(campaign.endsAt).toLocaleString() : "No end date";
+  return `${start} → ${end}`;
+}
+
+function budgetUsage(budget: BudgetUsage) {
+  const percent = Math.min(100, Math.round((budget.consumed / budget.amount) * 100));
+  return (
+    <div className="mt-1">
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${budget.exhausted ? "bg-red-500" : "bg-blue-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className={`text-xs mt-1 ${budget.exhausted ? "text-red-600" : "text-gray-500"}`}>
+        {formatMinorUnits(budget.consumed, budget.currency)} used
+        {budget.period === "month" ? " this month" : ""}
+        {budget.exhausted ? " · exhausted" : ""}
+      </p>
+    </div>
+  );
+}
+
+function statusBadge(campaign: Campaign) {
+  if (campaign.archivedAt) {
+    return <span className="text-xs font-medium bg-gray-100 text-gray-600 px-2 py-0.5 rounded">Archived</span>;
+  }
+  if (campaign.active) {
+    return <span className="text-xs font-medium bg-green-50 text-green-700 px-2 py-0.5 rounded">Active</span>;
+  }
+  const upcoming = campaign.startsAt && new Date(campaign.startsAt) > new Date();
+  return (
+    <span className="text-xs font-medium bg-yellow-50 text-yellow-700 px-2 py-0.5 rounded">
+      {upcoming ? "Scheduled" : "Ended"}
+    </span>
+  );
+}
+
+export default function CampaignsPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CampaignForm | null>(null);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, []);
+
+  async function loadCampaigns() {
+    try {
+      const res = await campaignsApi.list();
+      setCampaigns(res.campaigns);
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to load campaigns");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const startCreating = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM });
+  };
+
+  const startEditing = (campaign: Campaign) => {
+    setEditingId(campaign.id);
+    setForm(toForm(campaign));
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const flashSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    let input: CampaignInput;
+    try {
+      input = toInput(form);
+    } catch {
+      setError("Invalid JSON in Branding Overrides");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (editingId) {
+        await campaignsApi.update(editingId, input);
+      } else {
+        await campaignsApi.create({ ...input, key: form.key, name: form.name });
+      }
+      await loadCampaigns();
+      cancelEditing();
+      flashSuccess("Campaign saved successfully");
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to save campaign");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleArchived = async (campaign: Campaign) => {
+    const archive = !campaign.archivedAt;
+    if (archive && !confirm(`Archive "${campaign.name}"? Its codes will stop attributing new claims.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await campaignsApi.update(campaign.id, { archived: archive });
+      await loadCampaigns();
+      flashSuccess(archive ? "Campaign archived" : "Campaign restored");
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to update campaign");
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="h-8 bg-gray-200 rounded w-48"></div>
+        <div className="h-64 bg-gray-200 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Campaigns</h1>
+          <p className="text-gray-600 mt-1">
+            Time-boxed referral programs with their own reward rules, caps and branding
+          </p>
+        </div>
+        {!form && (
+          <button
+            onClick={startCreating}
+            className="bg-blue-600 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            + New campaign
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {form && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-lg border border-gray-200 p-6 space-y-4"
+        >
+          <h2 className="text-lg font-medium text-gray-900">
+            {editingId ? "Edit Campaign" : "New Campaign"}
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Key</label>
+              <input
+                type="text"
+                value={form.key}
+                onChange={(e) => setForm({ ...form, key: e.target.value })}
+                disabled={editingId !== null}
+                placeholder="spring-launch"
+                className={`font-mono disabled:bg-gray-50 ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Spring launch"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+              <input
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+              <input
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reward budget (minor units)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={form.budgetAmount}
+                  onChange={(e) => setForm({ ...form, budgetAmount: e.target.value })}
+                  placeholder="No budget"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={form.budgetCurrency}
+                  onChange={(e) => setForm({ ...form, budgetCurrency: e.target.value })}
+                  placeholder="USD"
+                  maxLength={3}
+                  className={`w-24 font-mono ${inputClass}`}
+                />
+                <select
+                  value={form.budgetPeriod}
+                  onChange={(e) =>
+                    setForm({ ...form, budgetPeriod: e.target.value as BudgetPeriod })
+                  }
+                  className={`w-36 ${inputClass}`}
+                >
+                  <option value="program">Whole campaign</option>
+                  <option value="month">Per month</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Referrals per referrer
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={form.perReferrerCap}
+                onChange={(e) => setForm({ ...form, perReferrerCap: e.target.value })}
+                placeholder="Unlimited"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Share message</label>
+            <textarea
+              value={form.shareMessage}
+              onChange={(e) => setForm({ ...form, shareMessage: e.target.value })}
+              rows={2}
+              placeholder="Uses the tenant share message"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Branding overrides JSON
+            </label>
+            <textarea
+              value={form.brandingJson}
+              onChange={(e) => setForm({ ...form, brandingJson: e.target.value })}
+              rows={4}
+              placeholder='{"accentColor": "#16A34A", "title": "Spring referral bonus"}'
+              className={`font-mono ${inputClass}`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Supports logoUrl, productName, accentColor, backgroundColor, textColor, title and
+              description. Applied in the embed when it is opened with{" "}
+              <code className="font-mono">campaign=&lt;key&gt;</code>.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={cancelEditing}
+              className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !form.key || !form.name}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {campaigns.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+          No campaigns yet. Codes created with a campaignId are attributed to it while it runs.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {campaigns.map((campaign) => (
+            <div key={campaign.id} className="bg-white rounded-lg border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <h3 className="text-lg font-medium text-gray-900">{campaign.name}</h3>
+                  <span className="font-mono text-sm text-gray-500">{campaign.key}</span>
+                  {statusBadge(campaign)}
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => startEditing(campaign)}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => toggleArchived(campaign)}
+                    className="text-sm text-red-600 hover:text-red-700"
+                  >
+                    {campaign.archivedAt ? "Restore" : "Archive"}
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Window</p>
+                  <p className="text-gray-900">{describeWindow(campaign)}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Caps</p>
+                  <p className="text-gray-900">
+                    {campaign.budgetAmount && campaign.budgetCurrency
+                      ? `${formatMinorUnits(campaign.budgetAmount, campaign.budgetCurrency)} budget${
+                          campaign.budgetPeriod === "month" ? " / month" : ""
+                        }`
+                      : "No budget"}
+                  </p>
+                  {campaign.budget && budgetUsage(campaign.budget)}
+                  <p className="text-gray-600">
+                    {campaign.perReferrerCap
+                      ? `${campaign.perReferrerCap} referrals per referrer`
+                      : "Unlimited per referrer"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Referrals</p>
+                  <p className="text-gray-900">{campaign.stats.totalReferrals} total</p>
+                  <p className="text-gray-600">
+                    {campaign.stats.completedReferrals} completed ·{" "}
+                    {campaign.stats.pendingReferrals} pending
+                  </p>
+                  {campaign.stats.unrewardedReferrals > 0 && (
+                    <p className="text-red-600">
+                      {campaign.stats.unrewardedReferrals} unrewarded (budget)
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Rewards earned</p>
+                  {campaign.stats.rewardsEarnedByCurrency.length > 0 ? (
+                    campaign.stats.rewardsEarnedByCurrency.map((total) => (
+                      <p key={total.currency} className="text-gray-900">
+                        {formatMinorUnits(total.amount, total.currency)}
+                      </p>
+                    ))
+                  ) : (
+                    <p className="text-gray-500">None yet</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,12 +8,38 @@ const EVENT_TYPES = [
   { value: "", label: "All Events" },
   { value: "referral.created", label: "Referral Created" },
   { value: "referral.completed", label: "Referral Completed" },
+  { value: "referral.converted", label: "Referral Converted" },
+  { value: "referral.reversed", label: "Referral Reversed" },
+  { value: "referral.rejected", label: "Referral Rejected" },
+  { value: "referral.approved", label: "Referral Approved" },
+  { value: "referral_code.created", label: "Referral Code Created" },
+  { value: "referral_code.updated", label: "Referral Code Updated" },
+  { value: "referral_code.deactivated", label: "Referral Code Deactivated" },
+  { value: "referral_code.reactivated", label: "Referral Code Reactivated" },
+  { value: "referral.milestone_reached", label: "Milestone Reached" },
   { value: "reward.awarded", label: "Reward Awarded" },
+  { value: "reward.redeemed", label: "Reward Redeemed" },
+  { value: "reward.reversed", label: "Reward Reversed" },
+  { value: "reward.expired", label: "Reward Expired" },
+  { value: "program.budget_exhausted", label: "Budget Exhausted" },
   { value: "api_key.created", label: "API Key Created" },
   { value: "api_key.revoked", label: "API Key Revoked" },
   { value: "tenant.branding.updated", label: "Branding Updated" },
+  { value: "tenant.rules.created", label: "Rule Created" },
   { value: "tenant.rules.updated", label: "Rules Updated" },
-  { value: "tenant.webhook.updated", label: "Webhook Updated" },
+  { value: "tenant.rules.deleted", label: "Rule Deleted" },
+  { value: "tenant.rules.reordered", label: "Rules Reordered" },
+  { value: "tenant.plans.updated", label: "Plans Updated" },
+  { value: "tenant.campaigns.created", label: "Campaign Created" },
+  { value: "tenant.campaigns.updated", label: "Campaign Updated" },
+  { value: "tenant.campaigns.archived", label: "Campaign Archived" },
+  { value: "tenant.referral_code_blocklist.updated", label: "Code Blocklist Updated" },
+  { value: "tenant.webhook.created", label: "Webhook Endpoint Created" },
+  { value: "tenant.webhook.updated", label: "Webhook Endpoint Updated" },
+  { value: "tenant.webhook.deleted", label: "Webhook Endpoint Deleted" },
+  { value: "tenant.webhook.secret_rotated", label: "Webhook Secret Rotated" },
+  { value: "webhook.replay_started", label: "Webhook Replay Started" },
+  { value: "webhook.endpoint_disabled", label: "Webhook Endpoint Auto-Disabled" },
 ];
 
 export default function EventsPage() {
@@ -9,6 +9,9 @@ const NAV_ITEMS = [
   { href: "/admin", label: "Dashboard", icon: "📊" },
   { href: "/admin/branding", label: "Branding", icon: "🎨" },
   { href: "/admin/rewards", label: "Reward Rules", icon: "🎁" },
+  { href: "/admin/plans", label: "Plans", icon: "🏷️" },
+  { href: "/admin/campaigns", label: "Campaigns", icon: "📣" },
+  { href: "/admin/referrals", label: "Review", icon: "🛡️" },
   { href: "/admin/webhooks", label: "Webhooks", icon: "🔗" },
   { href: "/admin/api-keys", label: "API Keys", icon: "🔑" },
   { href: "/admin/events", label: "Events", icon: "📋" },
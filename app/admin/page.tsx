@@ -1,29 +1,37 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { tenantApi, AdminApiError } from "@/lib/admin/api";
-import type { TenantData, TenantStats } from "@/lib/admin/api";
+import { tenantApi, webhooksApi, AdminApiError } from "@/lib/admin/api";
+import type { BudgetUsage, TenantData, TenantStats, WebhookEndpoint } from "@/lib/admin/api";
+import { formatMinorUnits } from "@/lib/rewards/currency";
 
 interface DashboardData {
   tenant: TenantData | null;
   stats: TenantStats | null;
+  endpoints: WebhookEndpoint[];
 }
 
 export default function AdminDashboard() {
-  const [data, setData] = useState<DashboardData>({ tenant: null, stats: null });
+  const [data, setData] = useState<DashboardData>({
+    tenant: null,
+    stats: null,
+    endpoints: [],
+  });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const [tenantRes, statsRes] = await Promise.all([
+        const [tenantRes, statsRes, endpointsRes] = await Promise.all([
           tenantApi.get(),
           tenantApi.getStats(),
+          webhooksApi.listEndpoints(),
         ]);
         setData({
           tenant: tenantRes.tenant,
           stats: statsRes.stats,
+          endpoints: endpointsRes.endpoints,
         });
       } catch (err) {
         if (err instanceof AdminApiError) {
@@ -59,7 +67,12 @@ export default function AdminDashboard() {
     );
   }
 
-  const { tenant, stats } = data;
+  const { tenant, stats, endpoints } = data;
+  const enabledEndpoints = endpoints.filter((endpoint) => endpoint.enabled);
+  const campaignBudgets = (stats?.campaigns ?? []).filter(
+    (campaign): campaign is TenantStats["campaigns"][number] & { budget: BudgetUsage } =>
+      campaign.budget !== null
+  );
 
   return (
     <div className="space-y-8">
@@ -116,20 +129,103 @@ export default function AdminDashboard() {
         />
       </div>
 
+      {(stats?.heldReferrals ?? 0) > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center justify-between">
+          <p className="text-yellow-800">
+            {stats?.heldReferrals} referral claims are held for fraud review
+          </p>
+          <a href="/admin/referrals" className="text-sm text-blue-600 hover:text-blue-700">
+            Review
+          </a>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          Rewards by Currency
+        </h3>
+        {stats && stats.rewardsByCurrency.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Currency</th>
+                <th className="pb-2 font-medium text-right">Earned</th>
+                <th className="pb-2 font-medium text-right">Redeemed</th>
+                <th className="pb-2 font-medium text-right">Expired</th>
+                <th className="pb-2 font-medium text-right">Outstanding</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {stats.rewardsByCurrency.map((total) => (
+                <tr key={total.currency}>
+                  <td className="py-2 font-mono text-gray-700">{total.currency}</td>
+                  <td className="py-2 text-right text-gray-900">
+                    {formatMinorUnits(total.earned, total.currency)}
+                  </td>
+                  <td className="py-2 text-right text-gray-900">
+                    {formatMinorUnits(total.redeemed, total.currency)}
+                  </td>
+                  <td className="py-2 text-right text-gray-900">
+                    {formatMinorUnits(total.expired, total.currency)}
+                  </td>
+                  <td className="py-2 text-right font-medium text-gray-900">
+                    {formatMinorUnits(total.outstanding, total.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500">No credit rewards issued yet</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          Reward Budgets
+        </h3>
+        {stats?.rewardBudget || campaignBudgets.length > 0 ? (
+          <div className="space-y-4">
+            {stats?.rewardBudget && (
+              <BudgetRow label="Program" budget={stats.rewardBudget} />
+            )}
+            {campaignBudgets.map((campaign) => (
+              <BudgetRow key={campaign.campaignId} label={campaign.name} budget={campaign.budget} />
+            ))}
+            {(stats?.unrewardedReferrals ?? 0) > 0 && (
+              <p className="text-sm text-red-600">
+                {stats?.unrewardedReferrals} converted referrals went unrewarded because a budget
+                was exhausted
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            No budget configured. Set one in{" "}
+            <a href="/admin/branding" className="text-blue-600 hover:text-blue-700">Branding</a>{" "}
+            or on a campaign.
+          </p>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">
             Webhook Status
           </h3>
-          {tenant?.webhookUrl ? (
+          {enabledEndpoints.length > 0 ? (
             <div className="space-y-3">
               <div className="flex items-center gap-2">
                 <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                <span className="text-sm text-gray-700">Configured</span>
+                <span className="text-sm text-gray-700">
+                  {enabledEndpoints.length} of {endpoints.length} endpoints enabled
+                </span>
               </div>
-              <p className="text-sm text-gray-500 font-mono truncate">
-                {tenant.webhookUrl}
-              </p>
+              {enabledEndpoints.map((endpoint) => (
+                <p key={endpoint.id} className="text-sm text-gray-500 font-mono truncate">
+                  {endpoint.url}
+                </p>
+              ))}
             </div>
           ) : (
             <div className="flex items-center gap-2">
@@ -198,3 +294,30 @@ function StatCard({
     </div>
   );
 }
+
+function BudgetRow({ label, budget }: { label: string; budget: BudgetUsage }) {
+  const percent = Math.min(100, Math.round((budget.consumed / budget.amount) * 100));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="font-medium text-gray-900">
+          {label}
+          <span className="ml-2 text-xs text-gray-500">
+            {budget.period === "month" ? "this month" : "all time"}
+          </span>
+        </span>
+        <span className={budget.exhausted ? "text-red-600 font-medium" : "text-gray-700"}>
+          {formatMinorUnits(budget.consumed, budget.currency)} of{" "}
+          {formatMinorUnits(budget.amount, budget.currency)}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${budget.exhausted ? "bg-red-500" : "bg-blue-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { plansApi, AdminApiError } from "@/lib/admin/api";
+import type { TenantPlan } from "@/lib/admin/api";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm";
+
+export default function PlansPage() {
+  const [plans, setPlans] = useState<TenantPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  useEffect(() => {
+    async function loadPlans() {
+      try {
+        const res = await plansApi.list();
+        setPlans(res.plans);
+      } catch (err) {
+        if (err instanceof AdminApiError) {
+          setError(err.message);
+        } else {
+          setError("Failed to load plans");
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadPlans();
+  }, []);
+
+  const updatePlan = (index: number, changes: Partial<TenantPlan>) => {
+    setPlans(plans.map((plan, i) => (i === index ? { ...plan, ...changes } : plan)));
+  };
+
+  const addPlan = () => {
+    const nextRank = plans.reduce((max, plan) => Math.max(max, plan.rank + 1), 0);
+    setPlans([...plans, { key: "", displayName: "", rank: nextRank, referralRewardAmount: 0 }]);
+  };
+
+  const removePlan = (index: number) => {
+    setPlans(plans.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setErrorDetails(null);
+    setSuccess(false);
+
+    try {
+      const res = await plansApi.replace(plans);
+      setPlans(res.plans);
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+        if (err.code === "PLAN_IN_USE" && err.details) {
+          const usage = (err.details.plans as Array<{ plan: string; count: number }>) || [];
+          setErrorDetails(usage.map((u) => `${u.plan}: ${u.count} users`).join(", "));
+        }
+      } else {
+        setError("Failed to save plans");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="h-8 bg-gray-200 rounded w-48"></div>
+        <div className="h-64 bg-gray-200 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Plans</h1>
+        <p className="text-gray-600 mt-1">
+          Subscription plans your users can be on, and the default referral reward for each
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">{error}</p>
+          {errorDetails && <p className="text-red-700 text-sm mt-1">{errorDetails}</p>}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-green-800">Plans saved successfully</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">Plan Catalog</h2>
+            <button
+              type="button"
+              onClick={addPlan}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+              + Add plan
+            </button>
+          </div>
+
+          <div className="grid grid-cols-12 gap-3 text-xs font-medium text-gray-500 uppercase">
+            <div className="col-span-3">Key</div>
+            <div className="col-span-4">Display name</div>
+            <div className="col-span-2">Rank</div>
+            <div className="col-span-2">Referral reward</div>
+            <div className="col-span-1"></div>
+          </div>
+
+          {plans.map((plan, index) => (
+            <div key={index} className="grid grid-cols-12 gap-3 items-center">
+              <input
+                type="text"
+                value={plan.key}
+                onChange={(e) => updatePlan(index, { key: e.target.value })}
+                placeholder="pro"
+                className={`col-span-3 font-mono ${inputClass}`}
+              />
+              <input
+                type="text"
+                value={plan.displayName}
+                onChange={(e) => updatePlan(index, { displayName: e.target.value })}
+                placeholder="Pro"
+                className={`col-span-4 ${inputClass}`}
+              />
+              <input
+                type="number"
+                min={0}
+                value={plan.rank}
+                onChange={(e) => updatePlan(index, { rank: parseInt(e.target.value, 10) || 0 })}
+                className={`col-span-2 ${inputClass}`}
+              />
+              <input
+                type="number"
+                min={0}
+                value={plan.referralRewardAmount}
+                onChange={(e) =>
+                  updatePlan(index, { referralRewardAmount: parseInt(e.target.value, 10) || 0 })
+                }
+                className={`col-span-2 ${inputClass}`}
+              />
+              <button
+                type="button"
+                onClick={() => removePlan(index)}
+                disabled={plans.length <= 1}
+                className="col-span-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <p className="text-sm text-gray-500">
+            Referral rewards are in minor units of the tenant currency and apply when no reward
+            rule matches. New users without a plan are placed on the lowest-ranked plan.
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white py-2 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
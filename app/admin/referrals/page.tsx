@@ -0,0 +1,402 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { referralsApi, campaignsApi, AdminApiError } from "@/lib/admin/api";
+import type { Campaign, ReviewReferral } from "@/lib/admin/api";
+
+const STATUS_FILTERS = [
+  { value: "held_for_review", label: "Held for Review" },
+  { value: "rejected", label: "Rejected" },
+  { value: "pending", label: "Pending" },
+  { value: "completed", label: "Completed" },
+  { value: "all", label: "All Referrals" },
+];
+
+const SIGNAL_LABELS: Record<string, string> = {
+  same_email: "Same email",
+  same_email_domain: "Same email domain",
+  disposable_email: "Disposable email",
+  ip_reuse: "IP reuse",
+  user_agent_reuse: "Device reuse",
+  claim_velocity: "Claim velocity",
+};
+
+export default function ReferralReviewPage() {
+  const [referrals, setReferrals] = useState<ReviewReferral[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState("held_for_review");
+  const [campaignFilter, setCampaignFilter] = useState("");
+  const [minScore, setMinScore] = useState(0);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rejectReason, setRejectReason] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const limit = 20;
+
+  const loadReferrals = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await referralsApi.list({
+        status: statusFilter,
+        campaignId: campaignFilter || undefined,
+        minScore: minScore || undefined,
+        limit,
+        offset: page * limit,
+      });
+      setReferrals(res.referrals);
+      setTotal(res.total);
+      setSelected([]);
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to load referrals");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, campaignFilter, minScore, page]);
+
+  useEffect(() => {
+    loadReferrals();
+  }, [loadReferrals]);
+
+  useEffect(() => {
+    campaignsApi
+      .list()
+      .then((res) => setCampaigns(res.campaigns))
+      .catch(() => setCampaigns([]));
+  }, []);
+
+  async function review(action: "approve" | "reject", referralIds: string[]) {
+    if (referralIds.length === 0) return;
+    if (action === "reject" && !rejectReason.trim()) {
+      setError("Enter a reason before rejecting referrals");
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await referralsApi.bulkReview(
+        action,
+        referralIds,
+        action === "reject" ? rejectReason.trim() : undefined
+      );
+      const verb = action === "approve" ? "Approved" : "Rejected";
+      setSuccess(
+        res.failed > 0
+          ? `${verb} ${res.succeeded} referrals, ${res.failed} failed: ${res.results
+              .filter((result) => !result.ok)
+              .map((result) => result.error?.message)
+              .join("; ")}`
+          : `${verb} ${res.succeeded} referrals`
+      );
+      if (action === "reject") setRejectReason("");
+      await loadReferrals();
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to review referrals");
+      }
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  function toggleSelected(referralId: string) {
+    setSelected((current) =>
+      current.includes(referralId)
+        ? current.filter((id) => id !== referralId)
+        : [...current, referralId]
+    );
+  }
+
+  const heldIds = referrals
+    .filter((referral) => referral.status === "held_for_review")
+    .map((referral) => referral.id);
+  const allSelected = heldIds.length > 0 && heldIds.every((id) => selected.includes(id));
+  const totalPages = Math.ceil(total / limit);
+  const campaignNames = new Map(campaigns.map((campaign) => [campaign.id, campaign.name]));
+
+  const getScoreColor = (score: number) => {
+    if (score >= 70) return "bg-red-100 text-red-700";
+    if (score >= 40) return "bg-yellow-100 text-yellow-800";
+    return "bg-gray-100 text-gray-700";
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Referral Review</h1>
+        <p className="text-gray-600 mt-1">
+          Approve or reject referral claims held by fraud scoring
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(0);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          >
+            {STATUS_FILTERS.map((status) => (
+              <option key={status.value} value={status.value}>
+                {status.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={campaignFilter}
+            onChange={(e) => {
+              setCampaignFilter(e.target.value);
+              setPage(0);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          >
+            <option value="">All Campaigns</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            Min score
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={minScore}
+              onChange={(e) => {
+                setMinScore(Math.min(100, Math.max(0, Number(e.target.value) || 0)));
+                setPage(0);
+              }}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </label>
+        </div>
+        <p className="text-sm text-gray-500">{total} referrals</p>
+      </div>
+
+      {heldIds.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-4">
+          <span className="text-sm text-gray-600">{selected.length} selected</span>
+          <button
+            onClick={() => review("approve", selected)}
+            disabled={working || selected.length === 0}
+            className="px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Approve
+          </button>
+          <input
+            type="text"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Reason for rejecting"
+            maxLength={500}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+          <button
+            onClick={() => review("reject", selected)}
+            disabled={working || selected.length === 0 || !rejectReason.trim()}
+            className="px-4 py-2 text-sm text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reject
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading referrals...</div>
+        ) : referrals.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No referrals found</div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 w-10">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={heldIds.length === 0}
+                    onChange={() => setSelected(allSelected ? [] : heldIds)}
+                  />
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Referral
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Score
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Signals
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Claimed
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {referrals.map((referral) => (
+                <ReferralRow
+                  key={referral.id}
+                  referral={referral}
+                  campaignName={
+                    referral.campaignId ? campaignNames.get(referral.campaignId) ?? null : null
+                  }
+                  selected={selected.includes(referral.id)}
+                  expanded={expandedId === referral.id}
+                  scoreColor={getScoreColor(referral.fraudScore)}
+                  onToggleSelected={() => toggleSelected(referral.id)}
+                  onToggleExpanded={() =>
+                    setExpandedId(expandedId === referral.id ? null : referral.id)
+                  }
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPage(Math.max(0, page - 1))}
+            disabled={page === 0}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page + 1} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(Math.min(totalPages - 1, page + 1))}
+            disabled={page >= totalPages - 1}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReferralRow({
+  referral,
+  campaignName,
+  selected,
+  expanded,
+  scoreColor,
+  onToggleSelected,
+  onToggleExpanded,
+}: {
+  referral: ReviewReferral;
+  campaignName: string | null;
+  selected: boolean;
+  expanded: boolean;
+  scoreColor: string;
+  onToggleSelected: () => void;
+  onToggleExpanded: () => void;
+}) {
+  return (
+    <>
+      <tr className="hover:bg-gray-50">
+        <td className="px-4 py-3">
+          <input
+            type="checkbox"
+            checked={selected}
+            disabled={referral.status !== "held_for_review"}
+            onChange={onToggleSelected}
+          />
+        </td>
+        <td className="px-4 py-3 text-sm">
+          <button onClick={onToggleExpanded} className="text-left">
+            <span className="font-medium text-gray-900">{referral.referrerUserId}</span>
+            <span className="text-gray-400"> → </span>
+            <span className="text-gray-900">{referral.referredExternalUserId}</span>
+          </button>
+          <p className="text-xs text-gray-500 font-mono">
+            {referral.refCodeUsed}
+            {campaignName && <span className="font-sans"> · {campaignName}</span>}
+          </p>
+        </td>
+        <td className="px-4 py-3">
+          <span className={`px-2 py-1 rounded text-xs font-medium ${scoreColor}`}>
+            {referral.fraudScore}
+          </span>
+        </td>
+        <td className="px-4 py-3">
+          <div className="flex flex-wrap gap-1">
+            {referral.fraudReasons.length === 0 ? (
+              <span className="text-xs text-gray-400">None</span>
+            ) : (
+              referral.fraudReasons.map((reason) => (
+                <span
+                  key={reason.signal}
+                  className="px-2 py-0.5 rounded bg-orange-100 text-orange-700 text-xs"
+                >
+                  {SIGNAL_LABELS[reason.signal] ?? reason.signal} +{reason.weight}
+                </span>
+              ))
+            )}
+          </div>
+        </td>
+        <td className="px-4 py-3 text-sm text-gray-600">{referral.status}</td>
+        <td className="px-4 py-3 text-sm text-gray-500">
+          {new Date(referral.createdAt).toLocaleString()}
+        </td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={6} className="px-4 py-3 bg-gray-50">
+            {referral.reviewedAt && (
+              <p className="text-sm text-gray-600 mb-2">
+                Reviewed {new Date(referral.reviewedAt).toLocaleString()}
+                {referral.reviewReason && <>: {referral.reviewReason}</>}
+              </p>
+            )}
+            <p className="text-xs font-medium text-gray-500 uppercase mb-2">Fraud Signals</p>
+            <pre className="bg-white p-4 rounded-lg text-sm overflow-auto max-h-64">
+              {JSON.stringify(referral.fraudReasons, null, 2)}
+            </pre>
+            <p className="text-xs text-gray-400 mt-2">Referral ID: {referral.id}</p>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
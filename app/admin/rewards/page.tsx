@@ -1,22 +1,86 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { rulesApi, AdminApiError } from "@/lib/admin/api";
-import type { RewardRule } from "@/lib/admin/api";
+import { rulesApi, campaignsApi, AdminApiError } from "@/lib/admin/api";
+import type {
+  Campaign,
+  RewardRule,
+  RuleSimulationInput,
+  RuleSimulationResult,
+} from "@/lib/admin/api";
+import { RewardPayloadSchema, describeReward } from "@/lib/rewards/types";
+
+const REWARD_TEMPLATES: Record<string, Record<string, unknown>> = {
+  credit: { type: "credit", amount: 1000, currency: "AUD" },
+  subscription_extension: { type: "subscription_extension", duration: 1, durationUnit: "month", plan: "pro" },
+  plan_upgrade: { type: "plan_upgrade", targetTier: "pro", duration: 1, durationUnit: "month" },
+  points: { type: "points", points: 500 },
+  coupon: { type: "coupon", code: "WELCOME20", percentOff: 20 },
+  feature_unlock: { type: "feature_unlock", feature: "advanced_reports", duration: 3, durationUnit: "month" },
+};
+
+function parseRewardJson(value: string): Record<string, unknown> | null {
+  const parsed = JSON.parse(value);
+  return parsed && Object.keys(parsed).length > 0 ? parsed : null;
+}
+
+function parseValidityDays(value: string): number | null {
+  const days = parseInt(value, 10);
+  return Number.isNaN(days) ? null : days;
+}
+
+function summarizeReward(reward: Record<string, unknown> | null): string {
+  if (!reward) return "No reward";
+  const parsed = RewardPayloadSchema.safeParse(reward);
+  return parsed.success ? describeReward(parsed.data) : "Invalid reward";
+}
+
+function RewardTemplatePicker({ onSelect }: { onSelect: (json: string) => void }) {
+  return (
+    <select
+      value=""
+      onChange={(e) => {
+        const template = REWARD_TEMPLATES[e.target.value];
+        if (template) onSelect(JSON.stringify(template, null, 2));
+      }}
+      className="text-xs border border-gray-300 rounded px-2 py-1 text-gray-600"
+    >
+      <option value="">Insert template...</option>
+      {Object.keys(REWARD_TEMPLATES).map((type) => (
+        <option key={type} value={type}>
+          {type}
+        </option>
+      ))}
+    </select>
+  );
+}
 
 export default function RewardsPage() {
   const [rules, setRules] = useState<RewardRule[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingRule, setEditingRule] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<{
+    campaignId: string;
     enabled: boolean;
     conditionJson: string;
     rewardReferrerJson: string;
     rewardReferredJson: string;
+    validityDays: string;
   } | null>(null);
   const [saving, setSaving] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [simulationForm, setSimulationForm] = useState({
+    eventType: "referral.converted" as NonNullable<RuleSimulationInput["eventType"]>,
+    referrerPlan: "free",
+    referredPlan: "free",
+    referralCount: 1,
+    campaignId: "",
+  });
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<RuleSimulationResult | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
 
   useEffect(() => {
     loadRules();
@@ -24,8 +88,9 @@ export default function RewardsPage() {
 
   async function loadRules() {
     try {
-      const res = await rulesApi.list();
+      const [res, campaignsRes] = await Promise.all([rulesApi.list(), campaignsApi.list()]);
       setRules(res.rules);
+      setCampaigns(campaignsRes.campaigns);
     } catch (err) {
       if (err instanceof AdminApiError) {
         setError(err.message);
@@ -40,10 +105,12 @@ export default function RewardsPage() {
   const startEditing = (rule: RewardRule) => {
     setEditingRule(rule.id);
     setEditForm({
+      campaignId: rule.campaignId ?? "",
       enabled: rule.enabled,
       conditionJson: JSON.stringify(rule.conditionJson || {}, null, 2),
       rewardReferrerJson: JSON.stringify(rule.rewardReferrerJson || {}, null, 2),
       rewardReferredJson: JSON.stringify(rule.rewardReferredJson || {}, null, 2),
+      validityDays: rule.validityDays ? String(rule.validityDays) : "",
     });
   };
 
@@ -70,7 +137,7 @@ export default function RewardsPage() {
       }
 
       try {
-        rewardReferrerJson = JSON.parse(editForm.rewardReferrerJson);
+        rewardReferrerJson = parseRewardJson(editForm.rewardReferrerJson);
       } catch {
         setError("Invalid JSON in Referrer Reward");
         setSaving(false);
@@ -78,7 +145,7 @@ export default function RewardsPage() {
       }
 
       try {
-        rewardReferredJson = JSON.parse(editForm.rewardReferredJson);
+        rewardReferredJson = parseRewardJson(editForm.rewardReferredJson);
       } catch {
         setError("Invalid JSON in Referred Reward");
         setSaving(false);
@@ -86,10 +153,12 @@ export default function RewardsPage() {
       }
 
       await rulesApi.update(ruleId, {
+        campaignId: editForm.campaignId || null,
         enabled: editForm.enabled,
         conditionJson,
         rewardReferrerJson,
         rewardReferredJson,
+        validityDays: parseValidityDays(editForm.validityDays),
       });
 
       await loadRules();
@@ -121,6 +190,103 @@ export default function RewardsPage() {
     }
   };
 
+  const moveRule = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      const res = await rulesApi.reorder(reordered.map((rule) => rule.id));
+      setRules(res.rules);
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to reorder rules");
+      }
+    }
+  };
+
+  const deleteRule = async (rule: RewardRule) => {
+    if (!confirm(`Are you sure you want to delete the rule "${rule.ruleKey}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await rulesApi.delete(rule.id);
+      await loadRules();
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to delete rule");
+      }
+    }
+  };
+
+  const buildProposedRules = (): RuleSimulationInput["rules"] => {
+    if (!editingRule || !editForm) return undefined;
+
+    return rules.map((rule) =>
+      rule.id === editingRule
+        ? {
+            ruleKey: rule.ruleKey,
+            campaignId: editForm.campaignId || null,
+            enabled: editForm.enabled,
+            priority: rule.priority,
+            conditionJson: JSON.parse(editForm.conditionJson),
+            rewardReferrerJson: parseRewardJson(editForm.rewardReferrerJson),
+            rewardReferredJson: parseRewardJson(editForm.rewardReferredJson),
+            validityDays: parseValidityDays(editForm.validityDays),
+          }
+        : {
+            ruleKey: rule.ruleKey,
+            campaignId: rule.campaignId,
+            enabled: rule.enabled,
+            priority: rule.priority,
+            conditionJson: rule.conditionJson || {},
+            rewardReferrerJson: rule.rewardReferrerJson,
+            rewardReferredJson: rule.rewardReferredJson,
+            validityDays: rule.validityDays,
+          }
+    );
+  };
+
+  const runSimulation = async () => {
+    setSimulating(true);
+    setSimulationError(null);
+
+    try {
+      let proposedRules: RuleSimulationInput["rules"];
+
+      try {
+        proposedRules = buildProposedRules();
+      } catch {
+        setSimulationError("Invalid JSON in the rule being edited");
+        setSimulation(null);
+        return;
+      }
+
+      const res = await rulesApi.simulate({
+        ...simulationForm,
+        campaignId: simulationForm.campaignId || undefined,
+        rules: proposedRules,
+      });
+      setSimulation(res);
+    } catch (err) {
+      setSimulation(null);
+      if (err instanceof AdminApiError) {
+        setSimulationError(err.message);
+      } else {
+        setSimulationError("Failed to run simulation");
+      }
+    } finally {
+      setSimulating(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="animate-pulse space-y-6">
@@ -146,6 +312,7 @@ export default function RewardsPage() {
       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
         <p className="text-yellow-800 text-sm">
           Changes to reward rules affect future referrals only. Existing rewards are not modified.
+          When several rules match, the one highest in this list wins.
         </p>
       </div>
 
@@ -161,13 +328,153 @@ export default function RewardsPage() {
         </div>
       )}
 
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-lg font-medium text-gray-900">Test Rules</h2>
+        <p className="text-sm text-gray-600 mt-1 mb-4">
+          {editingRule
+            ? "Runs against your unsaved edits. Nothing is written to the ledger."
+            : "Runs against the saved rules. Nothing is written to the ledger."}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Event</label>
+            <select
+              value={simulationForm.eventType}
+              onChange={(e) =>
+                setSimulationForm({
+                  ...simulationForm,
+                  eventType: e.target.value as typeof simulationForm.eventType,
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              <option value="referral.converted">referral.converted</option>
+              <option value="referral.claimed">referral.claimed</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Referrer Plan</label>
+            <input
+              type="text"
+              value={simulationForm.referrerPlan}
+              onChange={(e) =>
+                setSimulationForm({ ...simulationForm, referrerPlan: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Referred Plan</label>
+            <input
+              type="text"
+              value={simulationForm.referredPlan}
+              onChange={(e) =>
+                setSimulationForm({ ...simulationForm, referredPlan: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Completed Referrals
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={simulationForm.referralCount}
+              onChange={(e) =>
+                setSimulationForm({
+                  ...simulationForm,
+                  referralCount: Math.max(0, parseInt(e.target.value, 10) || 0),
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Campaign</label>
+            <select
+              value={simulationForm.campaignId}
+              onChange={(e) =>
+                setSimulationForm({ ...simulationForm, campaignId: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              <option value="">None</option>
+              {campaigns.map((campaign) => (
+                <option key={campaign.id} value={campaign.id}>
+                  {campaign.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={runSimulation}
+            disabled={simulating || !simulationForm.referrerPlan}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {simulating ? "Running..." : "Run Test"}
+          </button>
+        </div>
+
+        {simulationError && (
+          <p className="text-sm text-red-700 mt-4">{simulationError}</p>
+        )}
+
+        {simulation && (
+          <div className="mt-4 border-t border-gray-200 pt-4">
+            <p className="text-sm text-gray-700">
+              {simulation.ruleKey ? (
+                <>
+                  Matched rule <span className="font-mono">{simulation.ruleKey}</span>
+                </>
+              ) : (
+                "No rule matched"
+              )}{" "}
+              {simulation.milestones.length > 0 && (
+                <span>
+                  {" "}and milestone
+                  {simulation.milestones.length === 1 ? "" : "s"}{" "}
+                  {simulation.milestones.map((m) => `${m.milestone} (${m.ruleKey})`).join(", ")}
+                </span>
+              )}{" "}
+              <span className="text-gray-500">
+                ({simulation.evaluatedRules} enabled rule
+                {simulation.evaluatedRules === 1 ? "" : "s"} evaluated)
+              </span>
+            </p>
+            {simulation.entries.length === 0 ? (
+              <p className="text-sm text-gray-500 mt-2">No ledger entries would be written</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                {simulation.entries.map((entry) => (
+                  <div key={`${entry.recipient}:${entry.source}:${entry.ruleKey ?? ""}`}>
+                    <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+                      {entry.recipient} &middot; {entry.source}
+                    </p>
+                    <p className="text-sm text-gray-900 mb-1">{summarizeReward(entry.reward)}</p>
+                    <pre className="text-xs bg-gray-50 p-2 rounded overflow-auto max-h-24">
+                      {JSON.stringify(entry.rewardJson, null, 2)}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {rules.length === 0 ? (
         <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
           <p className="text-gray-500">No reward rules configured</p>
         </div>
       ) : (
         <div className="space-y-4">
-          {rules.map((rule) => (
+          {rules.map((rule, index) => (
             <div
               key={rule.id}
               className="bg-white rounded-lg border border-gray-200 overflow-hidden"
@@ -178,6 +485,11 @@ export default function RewardsPage() {
                     <h3 className="text-lg font-medium text-gray-900">
                       {rule.ruleKey}
                     </h3>
+                    {rule.campaignId && (
+                      <span className="text-xs font-medium bg-purple-50 text-purple-700 px-2 py-0.5 rounded">
+                        {campaigns.find((c) => c.id === rule.campaignId)?.name ?? "Campaign"}
+                      </span>
+                    )}
                     <button
                       onClick={() => toggleEnabled(rule)}
                       className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
@@ -199,17 +511,68 @@ export default function RewardsPage() {
                     </span>
                   </div>
                   {editingRule !== rule.id && (
-                    <button
-                      onClick={() => startEditing(rule)}
-                      className="text-sm text-blue-600 hover:text-blue-700"
-                    >
-                      Edit
-                    </button>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0}
+                        className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                        aria-label="Move rule up"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === rules.length - 1}
+                        className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                        aria-label="Move rule down"
+                      >
+                        ▼
+                      </button>
+                      <button
+                        onClick={() => startEditing(rule)}
+                        className="text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => deleteRule(rule)}
+                        className="text-sm text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </button>
+                    </div>
                   )}
                 </div>
 
                 {editingRule === rule.id && editForm ? (
                   <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Campaign
+                      </label>
+                      <select
+                        value={editForm.campaignId}
+                        onChange={(e) =>
+                          setEditForm({
+                            ...editForm,
+                            campaignId: e.target.value,
+                          })
+                        }
+                        className="w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      >
+                        <option value="">All referrals (tenant-wide)</option>
+                        {campaigns.map((campaign) => (
+                          <option key={campaign.id} value={campaign.id}>
+                            {campaign.name}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Campaign rules only apply to referrals attributed to that campaign, ahead of
+                        tenant-wide rules.
+                      </p>
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Condition JSON
@@ -228,9 +591,14 @@ export default function RewardsPage() {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Referrer Reward JSON
-                      </label>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Referrer Reward JSON
+                        </label>
+                        <RewardTemplatePicker
+                          onSelect={(json) => setEditForm({ ...editForm, rewardReferrerJson: json })}
+                        />
+                      </div>
                       <textarea
                         value={editForm.rewardReferrerJson}
                         onChange={(e) =>
@@ -245,9 +613,14 @@ export default function RewardsPage() {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Referred Reward JSON
-                      </label>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Referred Reward JSON
+                        </label>
+                        <RewardTemplatePicker
+                          onSelect={(json) => setEditForm({ ...editForm, rewardReferredJson: json })}
+                        />
+                      </div>
                       <textarea
                         value={editForm.rewardReferredJson}
                         onChange={(e) =>
@@ -261,6 +634,25 @@ export default function RewardsPage() {
                       />
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Valid for (days)
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={editForm.validityDays}
+                        onChange={(e) =>
+                          setEditForm({
+                            ...editForm,
+                            validityDays: e.target.value,
+                          })
+                        }
+                        placeholder="Never expires"
+                        className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      />
+                    </div>
+
                     <div className="flex justify-end gap-3">
                       <button
                         onClick={cancelEditing}
@@ -286,11 +678,19 @@ export default function RewardsPage() {
                       <pre className="text-xs bg-gray-50 p-2 rounded overflow-auto max-h-24">
                         {JSON.stringify(rule.conditionJson || {}, null, 2)}
                       </pre>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {rule.validityDays
+                          ? `Rewards expire after ${rule.validityDays} days`
+                          : "Rewards never expire"}
+                      </p>
                     </div>
                     <div>
                       <p className="text-xs font-medium text-gray-500 uppercase mb-1">
                         Referrer Reward
                       </p>
+                      <p className="text-sm text-gray-900 mb-1">
+                        {summarizeReward(rule.rewardReferrerJson)}
+                      </p>
                       <pre className="text-xs bg-gray-50 p-2 rounded overflow-auto max-h-24">
                         {JSON.stringify(rule.rewardReferrerJson || {}, null, 2)}
                       </pre>
@@ -299,6 +699,9 @@ export default function RewardsPage() {
                       <p className="text-xs font-medium text-gray-500 uppercase mb-1">
                         Referred Reward
                       </p>
+                      <p className="text-sm text-gray-900 mb-1">
+                        {summarizeReward(rule.rewardReferredJson)}
+                      </p>
                       <pre className="text-xs bg-gray-50 p-2 rounded overflow-auto max-h-24">
                         {JSON.stringify(rule.rewardReferredJson || {}, null, 2)}
                       </pre>
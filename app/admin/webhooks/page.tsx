@@ -1,24 +1,79 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { tenantApi, webhooksApi, AdminApiError } from "@/lib/admin/api";
-import type { TenantData } from "@/lib/admin/api";
+import { useCallback, useEffect, useState } from "react";
+import { webhooksApi, AdminApiError } from "@/lib/admin/api";
+import type {
+  WebhookDelivery,
+  WebhookDeliveryDetail,
+  WebhookEndpoint,
+} from "@/lib/admin/api";
+
+interface EndpointForm {
+  url: string;
+  description: string;
+  eventTypes: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: EndpointForm = {
+  url: "",
+  description: "",
+  eventTypes: "*",
+  enabled: true,
+};
+
+function toForm(endpoint: WebhookEndpoint): EndpointForm {
+  return {
+    url: endpoint.url,
+    description: endpoint.description || "",
+    eventTypes: endpoint.eventTypes.join(", "),
+    enabled: endpoint.enabled,
+  };
+}
+
+const DELIVERY_STATUS_FILTERS = [
+  { value: "", label: "All Statuses" },
+  { value: "pending", label: "Pending" },
+  { value: "success", label: "Delivered" },
+  { value: "failed", label: "Failed" },
+];
+
+const DELIVERY_STATUS_COLORS: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  success: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+interface RevealedSecret {
+  url: string;
+  secret: string;
+  rotated: boolean;
+}
+
+function parseEventTypes(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((type) => type.trim())
+    .filter(Boolean);
+}
 
 export default function WebhooksPage() {
-  const [tenant, setTenant] = useState<TenantData | null>(null);
-  const [webhookUrl, setWebhookUrl] = useState("");
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [testing, setTesting] = useState(false);
+  const [testing, setTesting] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EndpointForm | null>(null);
+  const [rotating, setRotating] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<RevealedSecret | null>(null);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const res = await tenantApi.get();
-        setTenant(res.tenant);
-        setWebhookUrl(res.tenant.webhookUrl || "");
+        const res = await webhooksApi.listEndpoints();
+        setEndpoints(res.endpoints);
       } catch (err) {
         if (err instanceof AdminApiError) {
           setError(err.message);
@@ -32,42 +87,120 @@ export default function WebhooksPage() {
     loadData();
   }, []);
 
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const startEdit = (endpoint: WebhookEndpoint | null) => {
+    setEditingId(endpoint?.id ?? null);
+    setForm(endpoint ? toForm(endpoint) : EMPTY_FORM);
+    setError(null);
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!form) return;
+
     setSaving(true);
     setError(null);
     setSuccess(null);
 
+    const data = {
+      url: form.url.trim(),
+      description: form.description.trim() || null,
+      eventTypes: parseEventTypes(form.eventTypes),
+      enabled: form.enabled,
+    };
+
     try {
-      const res = await tenantApi.updateWebhook({
-        webhookUrl: webhookUrl.trim() || null,
-      });
-      setTenant(res.tenant);
-      setSuccess("Webhook URL saved successfully");
-      setTimeout(() => setSuccess(null), 3000);
+      if (editingId) {
+        const res = await webhooksApi.updateEndpoint(editingId, data);
+        setEndpoints(endpoints.map((endpoint) => (endpoint.id === editingId ? res.endpoint : endpoint)));
+        showSuccess("Webhook endpoint saved");
+      } else {
+        const res = await webhooksApi.createEndpoint(data);
+        setEndpoints([...endpoints, res.endpoint]);
+        setRevealedSecret({ url: res.endpoint.url, secret: res.secret, rotated: false });
+      }
+      setForm(null);
+      setEditingId(null);
     } catch (err) {
       if (err instanceof AdminApiError) {
         setError(err.message);
       } else {
-        setError("Failed to save webhook URL");
+        setError("Failed to save webhook endpoint");
       }
     } finally {
       setSaving(false);
     }
   };
 
-  const handleTest = async () => {
-    if (!tenant?.webhookUrl) {
-      setError("Please save a webhook URL first");
+  const handleToggle = async (endpoint: WebhookEndpoint) => {
+    setError(null);
+    try {
+      const res = await webhooksApi.updateEndpoint(endpoint.id, { enabled: !endpoint.enabled });
+      setEndpoints(endpoints.map((item) => (item.id === endpoint.id ? res.endpoint : item)));
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to update webhook endpoint");
+      }
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook endpoint ${endpoint.url}? Its delivery history is deleted too.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await webhooksApi.deleteEndpoint(endpoint.id);
+      setEndpoints(endpoints.filter((item) => item.id !== endpoint.id));
+      showSuccess("Webhook endpoint deleted");
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to delete webhook endpoint");
+      }
+    }
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpoint) => {
+    const message = endpoint.usesSharedSecret
+      ? `Give ${endpoint.url} its own signing secret? Deliveries stop using the shared secret immediately.`
+      : `Rotate the signing secret of ${endpoint.url}? The current secret keeps being sent alongside the new one for 24 hours.`;
+    if (!confirm(message)) {
       return;
     }
 
-    setTesting(true);
+    setRotating(endpoint.id);
+    setError(null);
+    try {
+      const res = await webhooksApi.rotateSecret(endpoint.id);
+      setEndpoints(endpoints.map((item) => (item.id === endpoint.id ? res.endpoint : item)));
+      setRevealedSecret({ url: res.endpoint.url, secret: res.secret, rotated: true });
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to rotate signing secret");
+      }
+    } finally {
+      setRotating(null);
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setTesting(endpoint.id);
     setError(null);
     setSuccess(null);
 
     try {
-      const res = await webhooksApi.test();
+      const res = await webhooksApi.test(endpoint.id);
       setSuccess(`Test webhook sent successfully (Event ID: ${res.eventId})`);
       setTimeout(() => setSuccess(null), 5000);
     } catch (err) {
@@ -77,7 +210,7 @@ export default function WebhooksPage() {
         setError("Failed to send test webhook");
       }
     } finally {
-      setTesting(false);
+      setTesting(null);
     }
   };
 
@@ -92,11 +225,21 @@ export default function WebhooksPage() {
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-2xl font-semibold text-gray-900">Webhooks</h1>
-        <p className="text-gray-600 mt-1">
-          Configure webhook delivery for referral events
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Webhooks</h1>
+          <p className="text-gray-600 mt-1">
+            Send referral events to one or more endpoints
+          </p>
+        </div>
+        {!form && (
+          <button
+            onClick={() => startEdit(null)}
+            className="bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Add Endpoint
+          </button>
+        )}
       </div>
 
       {error && (
@@ -111,27 +254,52 @@ export default function WebhooksPage() {
         </div>
       )}
 
-      <div className="bg-white rounded-lg border border-gray-200 p-6">
-        <div className="flex items-center gap-3 mb-6">
-          <span
-            className={`w-3 h-3 rounded-full ${
-              tenant?.webhookUrl ? "bg-green-500" : "bg-gray-300"
-            }`}
-          ></span>
-          <span className="text-sm font-medium text-gray-700">
-            {tenant?.webhookUrl ? "Webhook configured" : "No webhook configured"}
-          </span>
+      {revealedSecret && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+          <h3 className="text-lg font-medium text-green-900 mb-2">
+            {revealedSecret.rotated ? "Signing Secret Rotated" : "Webhook Endpoint Added"}
+          </h3>
+          <p className="text-sm text-green-700 mb-4">
+            Copy the signing secret for {revealedSecret.url} now. You will not be able to see it again.
+          </p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 bg-white border border-green-300 px-4 py-2 rounded font-mono text-sm">
+              {revealedSecret.secret}
+            </code>
+            <button
+              onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}
+              className="bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+            >
+              Copy
+            </button>
+          </div>
+          <button
+            onClick={() => setRevealedSecret(null)}
+            className="mt-4 text-sm text-green-700 hover:text-green-800"
+          >
+            Dismiss
+          </button>
         </div>
+      )}
+
+      {form && (
+        <form
+          onSubmit={handleSave}
+          className="bg-white rounded-lg border border-gray-200 p-6 space-y-6"
+        >
+          <h2 className="text-lg font-medium text-gray-900">
+            {editingId ? "Edit Endpoint" : "New Endpoint"}
+          </h2>
 
-        <form onSubmit={handleSave} className="space-y-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Webhook URL
+              Endpoint URL
             </label>
             <input
               type="url"
-              value={webhookUrl}
-              onChange={(e) => setWebhookUrl(e.target.value)}
+              required
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
               placeholder="https://your-app.com/api/webhooks/referralos"
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
             />
@@ -140,6 +308,47 @@ export default function WebhooksPage() {
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Billing service"
+              maxLength={200}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Event Types
+            </label>
+            <input
+              type="text"
+              value={form.eventTypes}
+              onChange={(e) => setForm({ ...form, eventTypes: e.target.value })}
+              placeholder="referral.*, reward.awarded"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+            <p className="text-sm text-gray-500 mt-1">
+              Comma-separated. Use <code>referral.*</code> for every event under a prefix, or{" "}
+              <code>*</code> for all events.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Enabled
+          </label>
+
           <div className="flex gap-3">
             <button
               type="submit"
@@ -150,22 +359,135 @@ export default function WebhooksPage() {
             </button>
             <button
               type="button"
-              onClick={handleTest}
-              disabled={testing || !tenant?.webhookUrl}
-              className="bg-gray-100 text-gray-700 py-2 px-6 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="bg-gray-100 text-gray-700 py-2 px-6 rounded-lg font-medium hover:bg-gray-200 transition-colors"
             >
-              {testing ? "Sending..." : "Send Test Webhook"}
+              Cancel
             </button>
           </div>
         </form>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {endpoints.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No webhook endpoints configured</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="p-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`w-2 h-2 rounded-full ${
+                          !endpoint.enabled
+                            ? "bg-gray-300"
+                            : endpoint.circuitState === "closed"
+                              ? "bg-green-500"
+                              : "bg-yellow-500"
+                        }`}
+                      ></span>
+                      <p className="text-sm font-mono text-gray-900 truncate">{endpoint.url}</p>
+                    </div>
+                    {endpoint.description && (
+                      <p className="text-sm text-gray-500 mt-1">{endpoint.description}</p>
+                    )}
+                    {endpoint.disabledReason === "circuit_open" ? (
+                      <p className="text-xs text-red-700 mt-1">
+                        Disabled automatically after failing since{" "}
+                        {endpoint.circuitOpenedAt
+                          ? new Date(endpoint.circuitOpenedAt).toLocaleString()
+                          : "its circuit opened"}
+                        . Enable it to send the deliveries held in the meantime.
+                      </p>
+                    ) : (
+                      endpoint.circuitState !== "closed" && (
+                        <p className="text-xs text-yellow-800 mt-1">
+                          Failing: {endpoint.consecutiveFailures} attempts in a row. Deliveries are
+                          held and retried with a probe until the endpoint recovers.
+                        </p>
+                      )
+                    )}
+                    {endpoint.warnings.map((warning) => (
+                      <p
+                        key={warning}
+                        className="text-xs text-red-800 bg-red-50 border border-red-200 rounded px-2 py-1 mt-2"
+                      >
+                        {warning}
+                      </p>
+                    ))}
+                    {!endpoint.usesSharedSecret && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {endpoint.secretRotatedAt
+                          ? `Secret rotated ${new Date(endpoint.secretRotatedAt).toLocaleString()}`
+                          : "Signed with its own secret"}
+                        {endpoint.previousSecretExpiresAt &&
+                          ` · previous secret also sent until ${new Date(endpoint.previousSecretExpiresAt).toLocaleString()}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleTest(endpoint)}
+                      disabled={testing === endpoint.id}
+                      className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      {testing === endpoint.id ? "Sending..." : "Test"}
+                    </button>
+                    <button
+                      onClick={() => handleToggle(endpoint)}
+                      className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+                    >
+                      {endpoint.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      onClick={() => handleRotate(endpoint)}
+                      disabled={rotating === endpoint.id}
+                      className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      {rotating === endpoint.id ? "Rotating..." : "Rotate Secret"}
+                    </button>
+                    <button
+                      onClick={() => startEdit(endpoint)}
+                      className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(endpoint)}
+                      className="px-3 py-1 text-sm text-red-600 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {endpoint.eventTypes.map((type) => (
+                    <code
+                      key={type}
+                      className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded text-xs"
+                    >
+                      {type}
+                    </code>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      <DeliveryLog endpoints={endpoints} />
+
       <div className="bg-white rounded-lg border border-gray-200 p-6">
         <h2 className="text-lg font-medium text-gray-900 mb-4">
           Webhook Events
         </h2>
         <p className="text-sm text-gray-600 mb-4">
-          The following events will be sent to your webhook endpoint:
+          Endpoints can subscribe to the following events:
         </p>
         <div className="space-y-3">
           <EventType
@@ -176,10 +498,62 @@ export default function WebhooksPage() {
             name="referral.completed"
             description="A referral has been completed and rewards issued"
           />
+          <EventType
+            name="referral.converted"
+            description="A pending referral has been converted and rewards issued"
+          />
+          <EventType
+            name="referral.milestone_reached"
+            description="A referrer has reached a completed-referral milestone"
+          />
+          <EventType
+            name="referral.reversed"
+            description="A referral has been reversed after a refund or fraud finding"
+          />
+          <EventType
+            name="referral.rejected"
+            description="A claim was rejected because the code expired, the claim window closed, or a reviewer turned it down"
+          />
+          <EventType
+            name="referral.approved"
+            description="A claim held for fraud review was approved and its rewards issued"
+          />
+          <EventType
+            name="referral_code.created"
+            description="A user was given an additional referral code"
+          />
+          <EventType
+            name="referral_code.updated"
+            description="A user's primary referral code was replaced with a custom code"
+          />
+          <EventType
+            name="referral_code.deactivated"
+            description="One of a user's referral codes was deactivated"
+          />
+          <EventType
+            name="referral_code.reactivated"
+            description="A deactivated referral code was turned back on"
+          />
           <EventType
             name="reward.awarded"
             description="A reward has been awarded to a user"
           />
+          <EventType
+            name="reward.redeemed"
+            description="A user's reward balance has been debited by a redemption"
+          />
+          <EventType
+            name="reward.reversed"
+            description="A previously issued reward has been clawed back"
+          />
+          <EventType
+            name="reward.expired"
+            description="An unused reward reached the end of its validity period"
+          />
+          <EventType
+            name="program.budget_exhausted"
+            description="A tenant or campaign reward budget ran out and rewards are being withheld"
+          />
         </div>
       </div>
 
@@ -188,18 +562,20 @@ export default function WebhooksPage() {
           Webhook Security
         </h2>
         <p className="text-sm text-gray-600 mb-4">
-          All webhooks are signed with HMAC-SHA256. Verify the signature using the{" "}
+          Each endpoint&apos;s webhooks are signed with HMAC-SHA256 using its own secret. Verify the
+          signature using the{" "}
           <code className="bg-gray-100 px-1.5 py-0.5 rounded text-sm">
             X-ReferralOS-Signature
           </code>{" "}
-          header.
+          header, which lists a <code>v1=</code> signature per active secret. After a rotation it
+          carries signatures for both the new and the previous secret until the grace period ends.
         </p>
         <div className="bg-gray-50 rounded-lg p-4">
           <p className="text-xs font-medium text-gray-500 uppercase mb-2">
             Signature Format
           </p>
           <code className="text-sm text-gray-800">
-            HMAC-SHA256(timestamp.payload, webhook_secret)
+            v1=HMAC-SHA256(timestamp.payload, endpoint_secret)
           </code>
         </div>
       </div>
@@ -207,6 +583,227 @@ export default function WebhooksPage() {
   );
 }
 
+function DeliveryLog({ endpoints }: { endpoints: WebhookEndpoint[] }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [endpointFilter, setEndpointFilter] = useState("");
+  const [page, setPage] = useState(0);
+  const [detail, setDetail] = useState<WebhookDeliveryDetail | null>(null);
+
+  const limit = 20;
+
+  const loadDeliveries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await webhooksApi.listDeliveries({
+        status: statusFilter || undefined,
+        endpointId: endpointFilter || undefined,
+        limit,
+        offset: page * limit,
+      });
+      setDeliveries(res.deliveries);
+      setTotal(res.total);
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to load webhook deliveries");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, endpointFilter, page]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const toggleDetail = async (delivery: WebhookDelivery) => {
+    if (detail?.delivery.id === delivery.id) {
+      setDetail(null);
+      return;
+    }
+
+    setError(null);
+    try {
+      setDetail(await webhooksApi.getDelivery(delivery.id));
+    } catch (err) {
+      if (err instanceof AdminApiError) {
+        setError(err.message);
+      } else {
+        setError("Failed to load webhook delivery");
+      }
+    }
+  };
+
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-medium text-gray-900">Deliveries</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(0);
+            }}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          >
+            {DELIVERY_STATUS_FILTERS.map((status) => (
+              <option key={status.value} value={status.value}>
+                {status.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={endpointFilter}
+            onChange={(e) => {
+              setEndpointFilter(e.target.value);
+              setPage(0);
+            }}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          >
+            <option value="">All Endpoints</option>
+            {endpoints.map((endpoint) => (
+              <option key={endpoint.id} value={endpoint.id}>
+                {endpoint.description || endpoint.url}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={loadDeliveries}
+            className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {loading ? (
+        <div className="p-6 text-center text-gray-500">Loading deliveries...</div>
+      ) : deliveries.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No deliveries found</div>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id}>
+              <button
+                onClick={() => toggleDetail(delivery)}
+                className="w-full px-4 py-3 flex items-center gap-4 text-left hover:bg-gray-50"
+              >
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    DELIVERY_STATUS_COLORS[delivery.status] ?? "bg-gray-100 text-gray-700"
+                  }`}
+                >
+                  {delivery.status}
+                </span>
+                <span className="flex-1 min-w-0 text-sm font-mono text-gray-900 truncate">
+                  {delivery.url}
+                </span>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {delivery.attemptCount} {delivery.attemptCount === 1 ? "attempt" : "attempts"}
+                </span>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {new Date(delivery.createdAt).toLocaleString()}
+                </span>
+              </button>
+              {detail?.delivery.id === delivery.id && <DeliveryTimeline detail={detail} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPage(Math.max(0, page - 1))}
+            disabled={page === 0}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page + 1} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(Math.min(totalPages - 1, page + 1))}
+            disabled={page >= totalPages - 1}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeliveryTimeline({ detail }: { detail: WebhookDeliveryDetail }) {
+  const { delivery, event, attempts } = detail;
+
+  return (
+    <div className="px-4 pb-4 space-y-3 bg-gray-50">
+      <div className="pt-3 text-xs text-gray-600 space-y-1">
+        <p>
+          Event: <code>{event ? event.type : "deleted"}</code> <code>{delivery.eventId}</code>
+        </p>
+        {delivery.nextAttemptAt && (
+          <p>Next attempt: {new Date(delivery.nextAttemptAt).toLocaleString()}</p>
+        )}
+      </div>
+      {attempts.length === 0 ? (
+        <p className="text-sm text-gray-500">No attempts yet</p>
+      ) : (
+        <ol className="space-y-2">
+          {attempts.map((attempt) => (
+            <li key={attempt.id} className="bg-white border border-gray-200 rounded-lg p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-medium text-gray-900">#{attempt.attemptNumber}</span>
+                <span className={attempt.success ? "text-green-700" : "text-red-700"}>
+                  {attempt.responseStatus !== null
+                    ? `HTTP ${attempt.responseStatus}`
+                    : attempt.error ?? "No response"}
+                </span>
+                <span className="text-gray-500">{attempt.durationMs} ms</span>
+                <span className="text-gray-500">
+                  {new Date(attempt.attemptedAt).toLocaleString()}
+                </span>
+              </div>
+              {attempt.error && attempt.responseStatus !== null && (
+                <p className="text-xs text-red-700 mt-1">{attempt.error}</p>
+              )}
+              {attempt.responseBody && (
+                <pre className="mt-2 text-xs bg-gray-50 p-2 rounded overflow-x-auto whitespace-pre-wrap">
+                  {attempt.responseBody}
+                </pre>
+              )}
+              <details className="mt-2 text-xs text-gray-600">
+                <summary className="cursor-pointer">Request</summary>
+                <pre className="mt-1 bg-gray-50 p-2 rounded overflow-x-auto">
+                  {Object.entries(attempt.requestHeaders)
+                    .map(([name, value]) => `${name}: ${value}`)
+                    .join("\n")}
+                </pre>
+                <p className="mt-1 font-mono truncate">payload sha256 {attempt.payloadHash}</p>
+              </details>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 function EventType({
   name,
   description,
@@ -1,14 +1,18 @@
 import { NextRequest } from "next/server";
+import { z } from "zod";
 import { eq, desc, sql, and, gte, lte } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { events } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
 
+const CampaignIdSchema = z.string().uuid("campaignId must be a valid UUID");
+
 export async function GET(request: NextRequest) {
   return withAuth(request, ["admin:read", "admin:write"], async (ctx: RequestContext) => {
     const searchParams = request.nextUrl.searchParams;
     const type = searchParams.get("type");
+    const campaignId = searchParams.get("campaignId");
     const limitParam = searchParams.get("limit");
     const offsetParam = searchParams.get("offset");
 
@@ -21,6 +25,20 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(events.type, type));
     }
 
+    if (campaignId) {
+      if (!CampaignIdSchema.safeParse(campaignId).success) {
+        return {
+          ok: false as const,
+          error: {
+            code: "INVALID_REQUEST",
+            message: "campaignId must be a valid UUID",
+          },
+          status: 400,
+        };
+      }
+      conditions.push(eq(events.campaignId, campaignId));
+    }
+
     const [countResult] = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(events)
@@ -40,6 +58,7 @@ export async function GET(request: NextRequest) {
         events: eventsList.map((event) => ({
           id: event.id,
           type: event.type,
+          campaignId: event.campaignId,
           payloadJson: event.payloadJson,
           createdAt: event.createdAt.toISOString(),
         })),
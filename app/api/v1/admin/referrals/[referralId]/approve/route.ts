@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import { approveReferral, serializeReviewReferral } from "@/lib/referrals/review";
+
+interface RouteParams {
+  params: Promise<{ referralId: string }>;
+}
+
+const ReferralIdSchema = z.string().uuid("Referral ID must be a valid UUID");
+
+/**
+ * Approves a referral held for review. It goes back to `pending` and gets the
+ * claim rewards it was held from.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { referralId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    if (!ReferralIdSchema.safeParse(referralId).success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "Referral ID must be a valid UUID",
+        },
+        status: 400,
+      };
+    }
+
+    const result = await approveReferral(ctx.tenantId, referralId, ctx.apiKeyId);
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: { code: result.code, message: result.message },
+        status: result.status,
+      };
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        referral: serializeReviewReferral(result.referral, result.referrerExternalUserId),
+        rewards: {
+          referrer: result.rewards?.referrerReward?.rewardJson || null,
+          referred: result.rewards?.referredReward?.rewardJson || null,
+        },
+      },
+      status: 200,
+    };
+  });
+}
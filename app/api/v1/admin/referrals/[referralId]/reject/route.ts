@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  ReviewReasonSchema,
+  rejectReferral,
+  serializeReviewReferral,
+} from "@/lib/referrals/review";
+
+interface RouteParams {
+  params: Promise<{ referralId: string }>;
+}
+
+const ReferralIdSchema = z.string().uuid("Referral ID must be a valid UUID");
+
+const RejectSchema = z.object({ reason: ReviewReasonSchema }).strict();
+
+/**
+ * Rejects a referral held for review. The reason is stored on the referral
+ * and sent with `referral.rejected`.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { referralId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    if (!ReferralIdSchema.safeParse(referralId).success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "Referral ID must be a valid UUID",
+        },
+        status: 400,
+      };
+    }
+
+    const body = await request.json();
+    const validation = RejectSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const result = await rejectReferral(
+      ctx.tenantId,
+      referralId,
+      ctx.apiKeyId,
+      validation.data.reason
+    );
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: { code: result.code, message: result.message },
+        status: result.status,
+      };
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        referral: serializeReviewReferral(result.referral, result.referrerExternalUserId),
+      },
+      status: 200,
+    };
+  });
+}
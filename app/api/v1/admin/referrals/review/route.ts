@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  BulkReviewSchema,
+  approveReferral,
+  rejectReferral,
+  serializeReviewReferral,
+} from "@/lib/referrals/review";
+
+/**
+ * Approves or rejects up to 100 held referrals. Each referral is reviewed in
+ * its own transaction, so one failure, even an unexpected error, does not
+ * stop the rest; the response lists the outcome per id.
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = BulkReviewSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const { action, referralIds, reason } = validation.data;
+    const results = [];
+
+    for (const referralId of Array.from(new Set(referralIds))) {
+      try {
+        const result =
+          action === "approve"
+            ? await approveReferral(ctx.tenantId, referralId, ctx.apiKeyId)
+            : await rejectReferral(ctx.tenantId, referralId, ctx.apiKeyId, reason ?? "");
+
+        results.push(
+          result.success
+            ? {
+                referralId,
+                ok: true,
+                referral: serializeReviewReferral(result.referral, result.referrerExternalUserId),
+              }
+            : {
+                referralId,
+                ok: false,
+                error: { code: result.code, message: result.message },
+              }
+        );
+      } catch {
+        results.push({
+          referralId,
+          ok: false,
+          error: { code: "INTERNAL", message: "An unexpected error occurred" },
+        });
+      }
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        action,
+        succeeded: results.filter((result) => result.ok).length,
+        failed: results.filter((result) => !result.ok).length,
+        results,
+      },
+      status: 200,
+    };
+  });
+}
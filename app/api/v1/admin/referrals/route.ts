@@ -0,0 +1,92 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq, desc, sql, and, gte } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { referrals, users } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import { HELD_FOR_REVIEW_STATUS } from "@/lib/fraud/scoring";
+import { serializeReviewReferral } from "@/lib/referrals/review";
+
+const CampaignIdSchema = z.string().uuid("campaignId must be a valid UUID");
+
+/**
+ * Lists referrals with their fraud score and stored signals. Defaults to the
+ * review queue (`status=held_for_review`); pass `status=all` for every
+ * referral.
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write"], async (ctx: RequestContext) => {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status") || HELD_FOR_REVIEW_STATUS;
+    const campaignId = searchParams.get("campaignId");
+    const minScoreParam = searchParams.get("minScore");
+    const limitParam = searchParams.get("limit");
+    const offsetParam = searchParams.get("offset");
+
+    const limit = Math.min(Math.max(parseInt(limitParam || "50", 10), 1), 100);
+    const offset = Math.max(parseInt(offsetParam || "0", 10), 0);
+
+    const conditions = [eq(referrals.tenantId, ctx.tenantId)];
+
+    if (status !== "all") {
+      conditions.push(eq(referrals.status, status));
+    }
+
+    if (campaignId) {
+      if (!CampaignIdSchema.safeParse(campaignId).success) {
+        return {
+          ok: false as const,
+          error: {
+            code: "INVALID_REQUEST",
+            message: "campaignId must be a valid UUID",
+          },
+          status: 400,
+        };
+      }
+      conditions.push(eq(referrals.campaignId, campaignId));
+    }
+
+    if (minScoreParam) {
+      const minScore = parseInt(minScoreParam, 10);
+      if (Number.isNaN(minScore) || minScore < 0 || minScore > 100) {
+        return {
+          ok: false as const,
+          error: {
+            code: "INVALID_REQUEST",
+            message: "minScore must be an integer between 0 and 100",
+          },
+          status: 400,
+        };
+      }
+      conditions.push(gte(referrals.fraudScore, minScore));
+    }
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(referrals)
+      .where(and(...conditions));
+
+    const rows = await db
+      .select({ referral: referrals, referrerExternalUserId: users.externalUserId })
+      .from(referrals)
+      .innerJoin(users, eq(users.id, referrals.referrerUserId))
+      .where(and(...conditions))
+      .orderBy(desc(referrals.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      ok: true as const,
+      data: {
+        referrals: rows.map((row) =>
+          serializeReviewReferral(row.referral, row.referrerExternalUserId)
+        ),
+        total: countResult?.count || 0,
+        limit,
+        offset,
+      },
+      status: 200,
+    };
+  });
+}
@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq, and, asc } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { events, webhookDeliveries, webhookDeliveryAttempts } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  serializeWebhookDelivery,
+  serializeWebhookDeliveryAttempt,
+} from "@/lib/webhooks/deliveries";
+
+interface RouteParams {
+  params: Promise<{ deliveryId: string }>;
+}
+
+const DeliveryIdSchema = z.string().uuid("Delivery ID must be a valid UUID");
+
+/**
+ * One delivery with the event it carries and every attempt made, oldest
+ * first.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { deliveryId } = await params;
+
+  return withAuth(request, ["admin:read", "admin:write"], async (ctx: RequestContext) => {
+    if (!DeliveryIdSchema.safeParse(deliveryId).success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "Delivery ID must be a valid UUID",
+        },
+        status: 400,
+      };
+    }
+
+    const delivery = await db.query.webhookDeliveries.findFirst({
+      where: and(
+        eq(webhookDeliveries.tenantId, ctx.tenantId),
+        eq(webhookDeliveries.id, deliveryId)
+      ),
+    });
+
+    if (!delivery) {
+      return {
+        ok: false as const,
+        error: {
+          code: "WEBHOOK_DELIVERY_NOT_FOUND",
+          message: "Webhook delivery not found",
+        },
+        status: 404,
+      };
+    }
+
+    const event = await db.query.events.findFirst({
+      where: and(eq(events.tenantId, ctx.tenantId), eq(events.id, delivery.eventId)),
+      columns: {
+        id: true,
+        type: true,
+        createdAt: true,
+      },
+    });
+
+    const attempts = await db
+      .select()
+      .from(webhookDeliveryAttempts)
+      .where(eq(webhookDeliveryAttempts.deliveryId, delivery.id))
+      .orderBy(asc(webhookDeliveryAttempts.attemptedAt));
+
+    return {
+      ok: true as const,
+      data: {
+        delivery: serializeWebhookDelivery(delivery),
+        event: event
+          ? { id: event.id, type: event.type, createdAt: event.createdAt.toISOString() }
+          : null,
+        attempts: attempts.map(serializeWebhookDeliveryAttempt),
+      },
+      status: 200,
+    };
+  });
+}
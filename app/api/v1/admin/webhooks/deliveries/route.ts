@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq, desc, sql, and, gte, lte } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { webhookDeliveries } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import { DELIVERY_STATUSES, serializeWebhookDelivery } from "@/lib/webhooks/deliveries";
+
+const EndpointIdSchema = z.string().uuid("endpointId must be a valid UUID");
+const DateParamSchema = z.string().datetime({ offset: true });
+
+function invalidRequest(message: string) {
+  return {
+    ok: false as const,
+    error: {
+      code: "INVALID_REQUEST",
+      message,
+    },
+    status: 400,
+  };
+}
+
+/**
+ * Lists webhook deliveries, newest first. Filters: `status`, `endpointId`,
+ * `eventId`, and `from`/`to` on the delivery's creation time.
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write"], async (ctx: RequestContext) => {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status");
+    const endpointId = searchParams.get("endpointId");
+    const eventId = searchParams.get("eventId");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const limitParam = searchParams.get("limit");
+    const offsetParam = searchParams.get("offset");
+
+    const limit = Math.min(Math.max(parseInt(limitParam || "50", 10), 1), 100);
+    const offset = Math.max(parseInt(offsetParam || "0", 10), 0);
+
+    const conditions = [eq(webhookDeliveries.tenantId, ctx.tenantId)];
+
+    if (status) {
+      if (!(DELIVERY_STATUSES as readonly string[]).includes(status)) {
+        return invalidRequest(`status must be one of ${DELIVERY_STATUSES.join(", ")}`);
+      }
+      conditions.push(eq(webhookDeliveries.status, status));
+    }
+
+    if (endpointId) {
+      if (!EndpointIdSchema.safeParse(endpointId).success) {
+        return invalidRequest("endpointId must be a valid UUID");
+      }
+      conditions.push(eq(webhookDeliveries.endpointId, endpointId));
+    }
+
+    if (eventId) {
+      conditions.push(eq(webhookDeliveries.eventId, eventId));
+    }
+
+    if (from) {
+      if (!DateParamSchema.safeParse(from).success) {
+        return invalidRequest("from must be an ISO 8601 date-time");
+      }
+      conditions.push(gte(webhookDeliveries.createdAt, new Date(from)));
+    }
+
+    if (to) {
+      if (!DateParamSchema.safeParse(to).success) {
+        return invalidRequest("to must be an ISO 8601 date-time");
+      }
+      conditions.push(lte(webhookDeliveries.createdAt, new Date(to)));
+    }
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(webhookDeliveries)
+      .where(and(...conditions));
+
+    const deliveries = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      ok: true as const,
+      data: {
+        deliveries: deliveries.map(serializeWebhookDelivery),
+        total: countResult?.count || 0,
+        limit,
+        offset,
+      },
+      status: 200,
+    };
+  });
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import { convertReferral } from "@/lib/referrals/convert";
+import { toRewardPayload } from "@/lib/rewards/engine";
+
+const ReferralIdSchema = z.string().uuid("Referral ID must be a valid UUID");
+
+interface RouteParams {
+  params: Promise<{ referralId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { referralId } = await params;
+
+  return withAuth(request, ["write"], async (ctx: RequestContext) => {
+    const validation = ReferralIdSchema.safeParse(referralId);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid referral ID",
+        },
+        status: 400,
+      };
+    }
+
+    const result = await convertReferral(ctx.tenantId, referralId);
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+        },
+        status: result.status,
+      };
+    }
+
+    const { referral, rewards } = result;
+
+    return {
+      ok: true as const,
+      data: {
+        referral: {
+          id: referral.id,
+          referrerUserId: result.referrerExternalUserId,
+          referredExternalUserId: referral.referredExternalUserId,
+          refCodeUsed: referral.refCodeUsed,
+          status: referral.status,
+          createdAt: referral.createdAt.toISOString(),
+          completedAt: referral.completedAt?.toISOString() || null,
+        },
+        rewards: {
+          referrerReward: rewards?.referrerReward
+            ? toRewardPayload(rewards.referrerReward.rewardJson)
+            : null,
+          referredReward: rewards?.referredReward
+            ? toRewardPayload(rewards.referredReward.rewardJson)
+            : null,
+        },
+        alreadyProcessed: result.alreadyProcessed,
+      },
+      status: result.alreadyProcessed ? 200 : 201,
+    };
+  });
+}
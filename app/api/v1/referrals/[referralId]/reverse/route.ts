@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import { reverseReferral } from "@/lib/referrals/reverse";
+
+const ReferralIdSchema = z.string().uuid("Referral ID must be a valid UUID");
+
+const ReverseSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "reason is required")
+    .max(500, "reason must be at most 500 characters"),
+});
+
+interface RouteParams {
+  params: Promise<{ referralId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { referralId } = await params;
+
+  return withAuth(request, ["write"], async (ctx: RequestContext) => {
+    const idValidation = ReferralIdSchema.safeParse(referralId);
+
+    if (!idValidation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: idValidation.error.errors[0]?.message || "Invalid referral ID",
+        },
+        status: 400,
+      };
+    }
+
+    const body = await request.json();
+    const validation = ReverseSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+        },
+        status: 400,
+      };
+    }
+
+    const result = await reverseReferral(ctx.tenantId, referralId, validation.data.reason);
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+        },
+        status: result.status,
+      };
+    }
+
+    const { referral } = result;
+
+    return {
+      ok: true as const,
+      data: {
+        referral: {
+          id: referral.id,
+          referrerUserId: result.referrerExternalUserId,
+          referredExternalUserId: referral.referredExternalUserId,
+          refCodeUsed: referral.refCodeUsed,
+          status: referral.status,
+          createdAt: referral.createdAt.toISOString(),
+          completedAt: referral.completedAt?.toISOString() || null,
+          reversedAt: referral.reversedAt?.toISOString() || null,
+          reversalReason: referral.reversalReason,
+        },
+        reversedRewards: result.reversedRewards,
+        alreadyProcessed: result.alreadyProcessed,
+      },
+      status: 200,
+    };
+  });
+}
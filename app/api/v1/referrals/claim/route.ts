@@ -2,16 +2,39 @@ import { NextRequest } from "next/server";
 import { z } from "zod";
 import { eq, and, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { users, referrals, rewardsLedger, events } from "@/db/schema";
+import { users, referrals, referralCodes, events } from "@/db/schema";
 import { withAuth, successResponse, errorResponse, parseJsonBody } from "@/lib/request";
-import { calculateRewards } from "@/lib/rewards/engine";
+import { getTenantPlanCatalog, getDefaultPlan } from "@/lib/tenant/plans";
+import { grantClaimRewards } from "@/lib/referrals/claim";
 import {
   getUserByExternalId,
-  getUserByReferralCode,
+  getReferralCodeWithUser,
   getReferralByReferredExternalUserId,
   getTenant,
 } from "@/lib/db-helpers";
 import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+import { MAX_REFERRAL_CODE_LENGTH, getTenantReferralCodeFormat } from "@/lib/referral-code";
+import { hasValidChecksum } from "@/lib/referrals/format";
+import {
+  getReferralWindowSettings,
+  computeReferralCodeExpiry,
+  checkReferralCodeActive,
+  checkReferralCodeWindow,
+  checkClaimWindow,
+  recordReferralRejection,
+} from "@/lib/referrals/windows";
+import {
+  getCampaign,
+  isCampaignActive,
+  countCampaignReferralsByReferrer,
+} from "@/lib/referrals/campaigns";
+import { ClaimClientContextSchema, checkFingerprintReuse } from "@/lib/fraud/fingerprint";
+import {
+  getFraudScoringSettings,
+  hashClaimValue,
+  scoreClaim,
+  HELD_FOR_REVIEW_STATUS,
+} from "@/lib/fraud/scoring";
 import {
   checkRateLimit,
   incrementRateLimitKey,
@@ -21,11 +44,11 @@ import {
 import type { RequestContext } from "@/lib/request";
 
 const MAX_EXTERNAL_USER_ID_LENGTH = 255;
-const MAX_REFERRAL_CODE_LENGTH = 50;
 
 const claimReferralSchema = z.object({
   referralCode: z.string().min(1, "referralCode is required"),
   referredUserId: z.string().min(1, "referredUserId is required"),
+  clientContext: ClaimClientContextSchema.optional(),
 });
 
 type ClaimReferralInput = z.infer<typeof claimReferralSchema>;
@@ -36,19 +59,11 @@ interface ClaimReferralResponse {
     referrerUserId: string;
     referredExternalUserId: string;
     refCodeUsed: string;
+    campaignId: string | null;
     status: string;
     createdAt: string;
   };
-  rewards: {
-    referrerReward: {
-      amount: number;
-      currency: string;
-    } | null;
-    referredReward: {
-      amount: number;
-      currency: string;
-    } | null;
-  };
+  rewardsWithheld?: boolean;
   alreadyProcessed: boolean;
 }
 
@@ -165,13 +180,10 @@ async function handleClaimReferral(
           referrerUserId: referrerUser?.externalUserId || existingReferral.referrerUserId,
           referredExternalUserId: existingReferral.referredExternalUserId,
           refCodeUsed: existingReferral.refCodeUsed,
+          campaignId: existingReferral.campaignId,
           status: existingReferral.status,
           createdAt: existingReferral.createdAt.toISOString(),
         },
-        rewards: {
-          referrerReward: null,
-          referredReward: null,
-        },
         alreadyProcessed: true,
       },
       requestId,
@@ -179,9 +191,10 @@ async function handleClaimReferral(
     );
   }
 
-  const referrer = await getUserByReferralCode(tenantId, input.referralCode);
+  const resolvedCode = await getReferralCodeWithUser(tenantId, input.referralCode);
+  const referrer = resolvedCode?.user;
 
-  if (!referrer) {
+  if (!resolvedCode || !referrer) {
     incrementRateLimitKey(tenantId, `invalid_ref:ip:${clientIp}`).catch(() => {});
     
     const invalidRefLimit = await checkRateLimit({
@@ -200,11 +213,17 @@ async function handleClaimReferral(
       );
     }
     
+    const codeFormat = await getTenantReferralCodeFormat(tenantId);
+    const mistyped = !hasValidChecksum(input.referralCode, codeFormat);
+
     return errorResponse(
       "REFERRAL_CODE_NOT_FOUND",
-      "The referral code does not exist or has expired",
+      mistyped
+        ? "The referral code does not exist. Check it for typos."
+        : "The referral code does not exist",
       requestId,
-      404
+      404,
+      mistyped ? { checksumValid: false } : undefined
     );
   }
 
@@ -245,8 +264,86 @@ async function handleClaimReferral(
     }
   }
 
+  // Claims are attributed to the campaign of the code used, while it runs.
+  const campaign = resolvedCode.referralCode.campaignId
+    ? await getCampaign(db, tenantId, resolvedCode.referralCode.campaignId)
+    : null;
+  const campaignId = campaign && isCampaignActive(campaign) ? campaign.id : null;
+
+  if (campaign && campaignId && campaign.perReferrerCap) {
+    const currentCount = await countCampaignReferralsByReferrer(
+      db,
+      tenantId,
+      campaignId,
+      referrer.id
+    );
+    if (currentCount >= campaign.perReferrerCap) {
+      return errorResponse(
+        "REFERRAL_CAP_REACHED",
+        "This referrer has reached their maximum number of referrals for this campaign",
+        requestId,
+        400,
+        { campaignId, limit: campaign.perReferrerCap, current: currentCount }
+      );
+    }
+  }
+
   let referredUser = await getUserByExternalId(tenantId, input.referredUserId);
 
+  const windows = getReferralWindowSettings(referralSettings);
+  const fraudSettings = getFraudScoringSettings(referralSettings);
+  const now = new Date();
+
+  // The host app forwards what it saw at signup; fall back to this request.
+  const clientContext = input.clientContext ?? {};
+  const ipHash = hashClaimValue(tenantId, clientContext.ip ?? clientIp);
+  const userAgentHash = hashClaimValue(
+    tenantId,
+    clientContext.userAgent ?? request.headers.get("user-agent")
+  );
+  const fingerprintHash = hashClaimValue(tenantId, clientContext.fingerprint);
+
+  const windowViolation =
+    checkReferralCodeActive(resolvedCode.referralCode) ??
+    checkReferralCodeWindow(resolvedCode.referralCode, referrer, windows, now) ??
+    checkClaimWindow(referredUser, windows, now) ??
+    (fraudSettings.blockDuplicateFingerprints
+      ? await checkFingerprintReuse(db, tenantId, referrer.id, fingerprintHash)
+      : null);
+
+  if (windowViolation) {
+    await recordReferralRejection(tenantId, {
+      referralCode: input.referralCode,
+      referrerUserId: referrer.externalUserId,
+      referredUserId: input.referredUserId,
+      reason: windowViolation.code,
+      message: windowViolation.message,
+      details: windowViolation.details,
+    });
+
+    return errorResponse(
+      windowViolation.code,
+      windowViolation.message,
+      requestId,
+      windowViolation.status,
+      windowViolation.details
+    );
+  }
+
+  const fraud = await scoreClaim({
+    executor: db,
+    tenantId,
+    referrerUserId: referrer.id,
+    referrerEmail: referrer.email,
+    referredEmail: referredUser?.email ?? null,
+    // Without clientContext the request comes from the host app's server,
+    // which every claim shares, so only forwarded values are compared.
+    ipHash: clientContext.ip ? ipHash : null,
+    userAgentHash: clientContext.userAgent ? userAgentHash : null,
+    settings: fraudSettings,
+    now,
+  });
+
   const result = await db.transaction(async (tx) => {
     const doubleCheck = await tx.query.referrals.findFirst({
       where: and(
@@ -259,6 +356,8 @@ async function handleClaimReferral(
       return { alreadyProcessed: true, referral: doubleCheck };
     }
 
+    const plans = await getTenantPlanCatalog(tx, tenantId);
+
     if (!referredUser) {
       const [newUser] = await tx
         .insert(users)
@@ -266,13 +365,23 @@ async function handleClaimReferral(
           tenantId,
           externalUserId: input.referredUserId,
           email: null,
-          plan: "free",
+          plan: getDefaultPlan(plans).key,
           referralCode: `ref_pending_${input.referredUserId.slice(0, 8)}`,
+          referralCodeExpiresAt: computeReferralCodeExpiry(windows),
         })
         .onConflictDoNothing()
         .returning();
 
       if (newUser) {
+        await tx
+          .insert(referralCodes)
+          .values({
+            tenantId,
+            userId: newUser.id,
+            code: newUser.referralCode,
+            expiresAt: newUser.referralCodeExpiresAt,
+          })
+          .onConflictDoNothing();
         referredUser = newUser;
       } else {
         const existingUser = await tx.query.users.findFirst({
@@ -299,67 +408,53 @@ async function handleClaimReferral(
         referredExternalUserId: input.referredUserId,
         referredUserId: referredUser.id,
         refCodeUsed: input.referralCode,
-        status: "completed",
-        completedAt: new Date(),
+        campaignId,
+        status: fraud.held ? HELD_FOR_REVIEW_STATUS : "pending",
+        fraudScore: fraud.score,
+        fraudReasonsJson: fraud.reasons,
+        claimIpHash: ipHash,
+        claimUserAgentHash: userAgentHash,
+        claimFingerprintHash: fingerprintHash,
       })
       .returning();
 
-    const rewardCalc = calculateRewards({
-      referralId: newReferral.id,
-      referrerUserId: referrer.id,
-      referrerExternalUserId: referrer.externalUserId,
-      referrerTier: referrer.plan,
-      referredUserId: referredUser.id,
-      referredExternalUserId: input.referredUserId,
+    const claimRewards = await grantClaimRewards(tx, tenantId, {
+      referral: newReferral,
+      referrer,
+      referredUser,
       tenantRewardSettings: tenant?.referralSettingsJson,
+      plans,
+      withhold: fraud.held,
     });
-
-    if (rewardCalc.referrerReward) {
-      await tx
-        .insert(rewardsLedger)
-        .values({
-          tenantId,
-          userId: rewardCalc.referrerReward.userId,
-          source: rewardCalc.referrerReward.source,
-          eventId: rewardCalc.referrerReward.eventId,
-          rewardJson: rewardCalc.referrerReward.rewardJson,
-        })
-        .onConflictDoNothing();
-    }
-
-    if (rewardCalc.referredReward) {
-      await tx
-        .insert(rewardsLedger)
-        .values({
-          tenantId,
-          userId: rewardCalc.referredReward.userId,
-          source: rewardCalc.referredReward.source,
-          eventId: rewardCalc.referredReward.eventId,
-          rewardJson: rewardCalc.referredReward.rewardJson,
-        })
-        .onConflictDoNothing();
-    }
+    const { rewards } = claimRewards;
 
     const [claimEvent] = await tx.insert(events).values({
       tenantId,
       type: "referral.claimed",
+      campaignId,
       payloadJson: {
         referralId: newReferral.id,
         referrerUserId: referrer.externalUserId,
         referredUserId: input.referredUserId,
         referralCode: input.referralCode,
+        campaignId,
+        status: newReferral.status,
+        fraudScore: fraud.score,
+        fraudReasons: fraud.reasons,
+        ruleKey: claimRewards.ruleKey,
         rewards: {
-          referrer: rewardCalc.referrerReward?.rewardJson || null,
-          referred: rewardCalc.referredReward?.rewardJson || null,
+          referrer: rewards?.referrerReward?.rewardJson || null,
+          referred: rewards?.referredReward?.rewardJson || null,
         },
+        rewardsWithheld: claimRewards.rewardsWithheld,
       },
     }).returning();
 
     return {
       alreadyProcessed: false,
       referral: newReferral,
-      rewards: rewardCalc,
-      eventId: claimEvent.id,
+      rewardsWithheld: claimRewards.rewardsWithheld,
+      eventIds: [claimEvent.id, ...claimRewards.eventIds],
     };
   }, {
     isolationLevel: "serializable",
@@ -377,13 +472,10 @@ async function handleClaimReferral(
           referrerUserId: referrerUser?.externalUserId || result.referral.referrerUserId,
           referredExternalUserId: result.referral.referredExternalUserId,
           refCodeUsed: result.referral.refCodeUsed,
+          campaignId: result.referral.campaignId,
           status: result.referral.status,
           createdAt: result.referral.createdAt.toISOString(),
         },
-        rewards: {
-          referrerReward: null,
-          referredReward: null,
-        },
         alreadyProcessed: true,
       },
       requestId,
@@ -391,8 +483,8 @@ async function handleClaimReferral(
     );
   }
 
-  if (result.eventId) {
-    enqueueWebhookForExistingEvent(tenantId, result.eventId).catch(() => {
+  for (const eventId of result.eventIds ?? []) {
+    enqueueWebhookForExistingEvent(tenantId, eventId).catch(() => {
     });
   }
 
@@ -403,23 +495,11 @@ async function handleClaimReferral(
         referrerUserId: referrer.externalUserId,
         referredExternalUserId: result.referral.referredExternalUserId,
         refCodeUsed: result.referral.refCodeUsed,
+        campaignId: result.referral.campaignId,
         status: result.referral.status,
         createdAt: result.referral.createdAt.toISOString(),
       },
-      rewards: {
-        referrerReward: result.rewards?.referrerReward
-          ? {
-              amount: result.rewards.referrerReward.rewardJson.amount,
-              currency: result.rewards.referrerReward.rewardJson.currency,
-            }
-          : null,
-        referredReward: result.rewards?.referredReward
-          ? {
-              amount: result.rewards.referredReward.rewardJson.amount,
-              currency: result.rewards.referredReward.rewardJson.currency,
-            }
-          : null,
-      },
+      rewardsWithheld: result.rewardsWithheld,
       alreadyProcessed: false,
     },
     requestId,
@@ -1,16 +1,21 @@
 import { NextRequest } from "next/server";
 import { z } from "zod";
+import { db } from "@/lib/db";
 import { withAuth, successResponse, errorResponse } from "@/lib/request";
 import {
   getUserByExternalId,
   countReferralsByReferrer,
   countCompletedReferralsByReferrer,
+  countReferralsByReferrerAndStatus,
   sumRewardsByUser,
   getTenant,
 } from "@/lib/db-helpers";
 import { buildReferralLink, getShareBaseUrl } from "@/lib/referral-code";
 import { normalizeRewardRules } from "@/lib/rewards/normalize";
+import { summarizeReferralCodes } from "@/lib/referrals/codes";
 import type { RequestContext } from "@/lib/request";
+import type { ReferralCodeSummary } from "@/lib/referrals/codes";
+import type { CurrencyAmount } from "@/lib/rewards/currency";
 
 const statsQuerySchema = z.object({
   externalUserId: z.string().min(1, "externalUserId is required"),
@@ -22,15 +27,19 @@ interface StatsResponse {
     externalUserId: string;
     plan: string;
     referralCode: string;
+    referralCodeExpiresAt: string | null;
     referralLink: string;
   };
   stats: {
     totalReferrals: number;
     completedReferrals: number;
     pendingReferrals: number;
+    reversedReferrals: number;
     totalRewardsEarned: number;
     currency: string;
+    rewardsEarnedByCurrency: CurrencyAmount[];
   };
+  referralCodes: ReferralCodeSummary[];
 }
 
 async function handleGetStats(
@@ -64,15 +73,28 @@ async function handleGetStats(
     );
   }
 
-  const [totalReferrals, completedReferrals, totalRewards, tenant] = await Promise.all([
+  const [
+    totalReferrals,
+    completedReferrals,
+    pendingReferrals,
+    reversedReferrals,
+    rewardsEarnedByCurrency,
+    tenant,
+    referralCodes,
+  ] = await Promise.all([
     countReferralsByReferrer(tenantId, user.id),
     countCompletedReferralsByReferrer(tenantId, user.id),
+    countReferralsByReferrerAndStatus(tenantId, user.id, "pending"),
+    countReferralsByReferrerAndStatus(tenantId, user.id, "reversed"),
     sumRewardsByUser(tenantId, user.id),
     getTenant(tenantId),
+    summarizeReferralCodes(db, tenantId, user),
   ]);
 
-  const pendingReferrals = totalReferrals - completedReferrals;
   const rewardRules = normalizeRewardRules(tenant?.referralSettingsJson);
+  const defaultCurrencyTotal = rewardsEarnedByCurrency.find(
+    (total) => total.currency === rewardRules.currency
+  );
   const baseUrl = getShareBaseUrl(tenant?.referralSettingsJson);
   const referralLink = buildReferralLink(baseUrl, user.referralCode);
 
@@ -83,15 +105,19 @@ async function handleGetStats(
         externalUserId: user.externalUserId,
         plan: user.plan,
         referralCode: user.referralCode,
+        referralCodeExpiresAt: user.referralCodeExpiresAt?.toISOString() ?? null,
         referralLink,
       },
       stats: {
         totalReferrals,
         completedReferrals,
         pendingReferrals,
-        totalRewardsEarned: totalRewards,
+        reversedReferrals,
+        totalRewardsEarned: defaultCurrencyTotal?.amount ?? 0,
         currency: rewardRules.currency,
+        rewardsEarnedByCurrency,
       },
+      referralCodes,
     },
     requestId,
     200
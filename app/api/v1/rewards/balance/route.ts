@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { withAuth, RequestContext } from "@/lib/request";
+import { getUserByExternalId } from "@/lib/db-helpers";
+import { getBalancesAfterDueExpiries } from "@/lib/rewards/expiry";
+
+const BalanceQuerySchema = z.object({
+  externalUserId: z.string().min(1, "externalUserId is required"),
+});
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["read"], async (ctx: RequestContext) => {
+    const url = new URL(request.url);
+    const validation = BalanceQuerySchema.safeParse({
+      externalUserId: url.searchParams.get("externalUserId") ?? "",
+    });
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "externalUserId query parameter is required",
+        },
+        status: 400,
+      };
+    }
+
+    const user = await getUserByExternalId(ctx.tenantId, validation.data.externalUserId);
+
+    if (!user) {
+      return {
+        ok: false as const,
+        error: {
+          code: "USER_NOT_FOUND",
+          message: "User not found",
+        },
+        status: 404,
+      };
+    }
+
+    const { balances, points } = await getBalancesAfterDueExpiries(db, ctx.tenantId, user.id);
+
+    return {
+      ok: true as const,
+      data: {
+        externalUserId: user.externalUserId,
+        balances,
+        points,
+      },
+      status: 200,
+    };
+  });
+}
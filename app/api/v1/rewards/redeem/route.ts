@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import { getTenant } from "@/lib/db-helpers";
+import { normalizeRewardRules } from "@/lib/rewards/normalize";
+import { redeemReward } from "@/lib/rewards/redeem";
+import { CurrencyCodeSchema } from "@/lib/rewards/types";
+
+const RedeemSchema = z.object({
+  externalUserId: z.string().min(1, "externalUserId is required").max(255),
+  redemptionId: z
+    .string()
+    .min(1, "redemptionId is required")
+    .max(255, "redemptionId must be at most 255 characters"),
+  amount: z
+    .number()
+    .int("amount must be a whole number of minor units")
+    .positive("amount must be positive"),
+  currency: CurrencyCodeSchema.optional(),
+  description: z.string().max(255).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, ["write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = RedeemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+        },
+        status: 400,
+      };
+    }
+
+    const input = validation.data;
+    const currency =
+      input.currency ?? normalizeRewardRules((await getTenant(ctx.tenantId))?.referralSettingsJson).currency;
+
+    const result = await redeemReward(ctx.tenantId, { ...input, currency });
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+          ...(result.details && { details: result.details }),
+        },
+        status: result.status,
+      };
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        redemption: {
+          id: result.entry.id,
+          redemptionId: input.redemptionId,
+          externalUserId: input.externalUserId,
+          amount: -result.entry.amount,
+          currency: result.entry.currency,
+          createdAt: result.entry.createdAt.toISOString(),
+        },
+        balance: {
+          currency: result.entry.currency,
+          available: result.balance,
+        },
+        alreadyProcessed: result.alreadyProcessed,
+      },
+      status: result.alreadyProcessed ? 200 : 201,
+    };
+  });
+}
@@ -5,6 +5,10 @@ import { eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { tenants, events } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import { CurrencyCodeSchema } from "@/lib/rewards/types";
+import { ReferralCodeFormatSchema } from "@/lib/referrals/format";
+import { TenantRewardBudgetSchema } from "@/lib/rewards/budget";
+import { FraudScoringSettingsSchema } from "@/lib/fraud/scoring";
 
 const BrandingUpdateSchema = z.object({
   brandingJson: z
@@ -24,6 +28,13 @@ const BrandingUpdateSchema = z.object({
       description: z.string().max(1000).optional(),
       howItWorks: z.array(z.string()).optional(),
       shareMessage: z.string().max(500).optional(),
+      currency: CurrencyCodeSchema.optional(),
+      referral_code_ttl_days: z.number().int().min(1).max(3650).nullable().optional(),
+      referral_code_max_age_days: z.number().int().min(1).max(3650).nullable().optional(),
+      claim_window_days: z.number().int().min(1).max(3650).nullable().optional(),
+      referral_code_format: ReferralCodeFormatSchema.nullable().optional(),
+      reward_budget: TenantRewardBudgetSchema.nullable().optional(),
+      fraud_scoring: FraudScoringSettingsSchema.nullable().optional(),
     })
     .optional(),
 });
@@ -99,7 +110,6 @@ export async function PUT(request: NextRequest) {
           slug: updatedTenant.slug,
           name: updatedTenant.name,
           status: updatedTenant.status,
-          webhookUrl: updatedTenant.webhookUrl,
           brandingJson: updatedTenant.brandingJson,
           referralSettingsJson: updatedTenant.referralSettingsJson,
           createdAt: updatedTenant.createdAt.toISOString(),
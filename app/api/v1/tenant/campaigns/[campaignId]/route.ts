@@ -0,0 +1,176 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { campaigns, events } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  CampaignUpdateSchema,
+  getCampaign,
+  getCampaignStats,
+  serializeCampaign,
+  toDateOrNull,
+  validateCampaignUpdate,
+} from "@/lib/referrals/campaigns";
+import { getCampaignBudgetUsages } from "@/lib/rewards/budget";
+
+interface RouteParams {
+  params: Promise<{ campaignId: string }>;
+}
+
+const CampaignIdSchema = z.string().uuid("Campaign ID must be a valid UUID");
+
+const INVALID_CAMPAIGN_ID = {
+  ok: false as const,
+  error: {
+    code: "INVALID_REQUEST",
+    message: "Campaign ID must be a valid UUID",
+  },
+  status: 400,
+};
+
+const CAMPAIGN_NOT_FOUND = {
+  ok: false as const,
+  error: {
+    code: "CAMPAIGN_NOT_FOUND",
+    message: "Campaign not found",
+  },
+  status: 404,
+};
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { campaignId } = await params;
+
+  return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
+    if (!CampaignIdSchema.safeParse(campaignId).success) {
+      return INVALID_CAMPAIGN_ID;
+    }
+
+    const campaign = await getCampaign(db, ctx.tenantId, campaignId);
+
+    if (!campaign) {
+      return CAMPAIGN_NOT_FOUND;
+    }
+
+    const now = new Date();
+    const [statsById, budgetsById] = await Promise.all([
+      getCampaignStats(db, ctx.tenantId),
+      getCampaignBudgetUsages(db, ctx.tenantId, [campaign], now),
+    ]);
+
+    return {
+      ok: true as const,
+      data: {
+        campaign: serializeCampaign(
+          campaign,
+          statsById.get(campaign.id),
+          now,
+          budgetsById.get(campaign.id) ?? null
+        ),
+      },
+      status: 200,
+    };
+  });
+}
+
+/**
+ * Updates a campaign. `archived: true` stops it attributing new claims while
+ * keeping its history; there is no hard delete.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { campaignId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    if (!CampaignIdSchema.safeParse(campaignId).success) {
+      return INVALID_CAMPAIGN_ID;
+    }
+
+    const body = await request.json();
+    const validation = CampaignUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const existing = await getCampaign(db, ctx.tenantId, campaignId);
+
+    if (!existing) {
+      return CAMPAIGN_NOT_FOUND;
+    }
+
+    const input = validation.data;
+    const invalid = validateCampaignUpdate(existing, input);
+
+    if (invalid) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: invalid,
+        },
+        status: 400,
+      };
+    }
+
+    const now = new Date();
+    const archivedChanged =
+      input.archived !== undefined && input.archived !== (existing.archivedAt !== null);
+
+    const [campaign] = await db
+      .update(campaigns)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.startsAt !== undefined && { startsAt: toDateOrNull(input.startsAt) }),
+        ...(input.endsAt !== undefined && { endsAt: toDateOrNull(input.endsAt) }),
+        ...(input.budgetAmount !== undefined && { budgetAmount: input.budgetAmount }),
+        ...(input.budgetCurrency !== undefined && { budgetCurrency: input.budgetCurrency }),
+        ...(input.budgetPeriod !== undefined && { budgetPeriod: input.budgetPeriod }),
+        ...(input.perReferrerCap !== undefined && { perReferrerCap: input.perReferrerCap }),
+        ...(input.shareMessage !== undefined && { shareMessage: input.shareMessage }),
+        ...(input.brandingJson !== undefined && { brandingJson: input.brandingJson }),
+        ...(archivedChanged && { archivedAt: input.archived ? now : null }),
+        updatedAt: now,
+      })
+      .where(eq(campaigns.id, existing.id))
+      .returning();
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: archivedChanged && input.archived ? "tenant.campaigns.archived" : "tenant.campaigns.updated",
+      campaignId: campaign.id,
+      payloadJson: {
+        campaignId: campaign.id,
+        key: campaign.key,
+        updatedFields: Object.keys(input),
+        updatedAt: now.toISOString(),
+      },
+    });
+
+    const [statsById, budgetsById] = await Promise.all([
+      getCampaignStats(db, ctx.tenantId),
+      getCampaignBudgetUsages(db, ctx.tenantId, [campaign], now),
+    ]);
+
+    return {
+      ok: true as const,
+      data: {
+        campaign: serializeCampaign(
+          campaign,
+          statsById.get(campaign.id),
+          now,
+          budgetsById.get(campaign.id) ?? null
+        ),
+      },
+      status: 200,
+    };
+  });
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+
+import { db } from "@/lib/db";
+import { campaigns, events } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  CampaignCreateSchema,
+  EMPTY_CAMPAIGN_STATS,
+  listCampaigns,
+  getCampaignStats,
+  serializeCampaign,
+  toDateOrNull,
+} from "@/lib/referrals/campaigns";
+import { getCampaignBudgetUsages } from "@/lib/rewards/budget";
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
+    const [records, statsById] = await Promise.all([
+      listCampaigns(db, ctx.tenantId),
+      getCampaignStats(db, ctx.tenantId),
+    ]);
+    const now = new Date();
+    const budgetsById = await getCampaignBudgetUsages(db, ctx.tenantId, records, now);
+
+    return {
+      ok: true as const,
+      data: {
+        campaigns: records.map((campaign) =>
+          serializeCampaign(
+            campaign,
+            statsById.get(campaign.id),
+            now,
+            budgetsById.get(campaign.id) ?? null
+          )
+        ),
+      },
+      status: 200,
+    };
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = CampaignCreateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const input = validation.data;
+
+    const [campaign] = await db
+      .insert(campaigns)
+      .values({
+        tenantId: ctx.tenantId,
+        key: input.key,
+        name: input.name,
+        startsAt: toDateOrNull(input.startsAt) ?? null,
+        endsAt: toDateOrNull(input.endsAt) ?? null,
+        budgetAmount: input.budgetAmount ?? null,
+        budgetCurrency: input.budgetCurrency ?? null,
+        budgetPeriod: input.budgetPeriod ?? "program",
+        perReferrerCap: input.perReferrerCap ?? null,
+        shareMessage: input.shareMessage ?? null,
+        brandingJson: input.brandingJson ?? null,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!campaign) {
+      return {
+        ok: false as const,
+        error: {
+          code: "CAMPAIGN_KEY_EXISTS",
+          message: `A campaign with key "${input.key}" already exists`,
+        },
+        status: 409,
+      };
+    }
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.campaigns.created",
+      campaignId: campaign.id,
+      payloadJson: {
+        campaignId: campaign.id,
+        key: campaign.key,
+        createdAt: campaign.createdAt.toISOString(),
+      },
+    });
+
+    const now = new Date();
+    const budgetsById = await getCampaignBudgetUsages(db, ctx.tenantId, [campaign], now);
+
+    return {
+      ok: true as const,
+      data: {
+        campaign: serializeCampaign(
+          campaign,
+          EMPTY_CAMPAIGN_STATS,
+          now,
+          budgetsById.get(campaign.id) ?? null
+        ),
+      },
+      status: 201,
+    };
+  });
+}
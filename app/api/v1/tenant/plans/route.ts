@@ -0,0 +1,103 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq, and, inArray, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { tenantPlans, users, events } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import { getTenantPlanCatalog, PlanCatalogSchema } from "@/lib/tenant/plans";
+
+const PlanCatalogUpdateSchema = z.object({
+  plans: PlanCatalogSchema,
+});
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
+    const plans = await getTenantPlanCatalog(db, ctx.tenantId);
+
+    return {
+      ok: true as const,
+      data: { plans },
+      status: 200,
+    };
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = PlanCatalogUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const { plans } = validation.data;
+    const currentPlans = await getTenantPlanCatalog(db, ctx.tenantId);
+    const nextKeys = new Set(plans.map((plan) => plan.key));
+    const removedKeys = currentPlans
+      .map((plan) => plan.key)
+      .filter((key) => !nextKeys.has(key));
+
+    if (removedKeys.length > 0) {
+      const usage = await db
+        .select({ plan: users.plan, count: sql<number>`count(*)::int` })
+        .from(users)
+        .where(and(eq(users.tenantId, ctx.tenantId), inArray(users.plan, removedKeys)))
+        .groupBy(users.plan);
+
+      if (usage.length > 0) {
+        return {
+          ok: false as const,
+          error: {
+            code: "PLAN_IN_USE",
+            message: "Plans that users are still on cannot be removed",
+            details: { plans: usage },
+          },
+          status: 409,
+        };
+      }
+    }
+
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      await tx.delete(tenantPlans).where(eq(tenantPlans.tenantId, ctx.tenantId));
+      await tx.insert(tenantPlans).values(
+        plans.map((plan) => ({
+          tenantId: ctx.tenantId,
+          key: plan.key,
+          displayName: plan.displayName,
+          rank: plan.rank,
+          referralRewardAmount: plan.referralRewardAmount,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      );
+    });
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.plans.updated",
+      payloadJson: {
+        planKeys: plans.map((plan) => plan.key),
+        removedPlanKeys: removedKeys,
+        updatedAt: now.toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: { plans: await getTenantPlanCatalog(db, ctx.tenantId) },
+      status: 200,
+    };
+  });
+}
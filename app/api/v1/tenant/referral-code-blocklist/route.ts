@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { referralCodeBlocklist, events } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import { getReferralCodeBlocklist, BlocklistSchema } from "@/lib/referrals/blocklist";
+
+const BlocklistUpdateSchema = z.object({
+  terms: BlocklistSchema,
+});
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write"], async (ctx: RequestContext) => {
+    const terms = await getReferralCodeBlocklist(db, ctx.tenantId);
+
+    return {
+      ok: true as const,
+      data: { terms },
+      status: 200,
+    };
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = BlocklistUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const { terms } = validation.data;
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(referralCodeBlocklist)
+        .where(eq(referralCodeBlocklist.tenantId, ctx.tenantId));
+
+      if (terms.length > 0) {
+        await tx.insert(referralCodeBlocklist).values(
+          terms.map((term) => ({ tenantId: ctx.tenantId, term, createdAt: now }))
+        );
+      }
+    });
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.referral_code_blocklist.updated",
+      payloadJson: {
+        termCount: terms.length,
+        updatedAt: now.toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: { terms },
+      status: 200,
+    };
+  });
+}
@@ -30,7 +30,6 @@ export async function GET(request: NextRequest) {
           slug: tenant.slug,
           name: tenant.name,
           status: tenant.status,
-          webhookUrl: tenant.webhookUrl,
           brandingJson: tenant.brandingJson,
           referralSettingsJson: tenant.referralSettingsJson,
           createdAt: tenant.createdAt.toISOString(),
@@ -5,12 +5,23 @@ import { eq, and } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { rewardRules, events } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import {
+  RuleConditionSchema,
+  RuleRewardSchema,
+  RulePrioritySchema,
+  RuleValidityDaysSchema,
+  RuleCampaignIdSchema,
+} from "@/lib/rewards/schemas";
+import { getCampaign } from "@/lib/referrals/campaigns";
 
 const RuleUpdateSchema = z.object({
+  campaignId: RuleCampaignIdSchema.nullable().optional(),
   enabled: z.boolean().optional(),
-  conditionJson: z.record(z.unknown()).optional(),
-  rewardReferrerJson: z.record(z.unknown()).optional(),
-  rewardReferredJson: z.record(z.unknown()).optional(),
+  priority: RulePrioritySchema.optional(),
+  conditionJson: RuleConditionSchema.optional(),
+  rewardReferrerJson: RuleRewardSchema.nullable().optional(),
+  rewardReferredJson: RuleRewardSchema.nullable().optional(),
+  validityDays: RuleValidityDaysSchema.nullable().optional(),
 });
 
 interface RouteParams {
@@ -30,6 +41,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         error: {
           code: "INVALID_REQUEST",
           message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
         },
         status: 400,
       };
@@ -53,15 +65,37 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       };
     }
 
-    const { enabled, conditionJson, rewardReferrerJson, rewardReferredJson } = validation.data;
+    const {
+      campaignId,
+      enabled,
+      priority,
+      conditionJson,
+      rewardReferrerJson,
+      rewardReferredJson,
+      validityDays,
+    } = validation.data;
+
+    if (campaignId && !(await getCampaign(db, ctx.tenantId, campaignId))) {
+      return {
+        ok: false as const,
+        error: {
+          code: "CAMPAIGN_NOT_FOUND",
+          message: "Campaign not found",
+        },
+        status: 404,
+      };
+    }
 
     const [updatedRule] = await db
       .update(rewardRules)
       .set({
+        ...(campaignId !== undefined && { campaignId }),
         ...(enabled !== undefined && { enabled }),
+        ...(priority !== undefined && { priority }),
         ...(conditionJson !== undefined && { conditionJson }),
         ...(rewardReferrerJson !== undefined && { rewardReferrerJson }),
         ...(rewardReferredJson !== undefined && { rewardReferredJson }),
+        ...(validityDays !== undefined && { validityDays }),
         updatedAt: new Date(),
       })
       .where(
@@ -86,10 +120,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         rule: {
           id: updatedRule.id,
           ruleKey: updatedRule.ruleKey,
+          campaignId: updatedRule.campaignId,
           enabled: updatedRule.enabled,
+          priority: updatedRule.priority,
           conditionJson: updatedRule.conditionJson,
           rewardReferrerJson: updatedRule.rewardReferrerJson,
           rewardReferredJson: updatedRule.rewardReferredJson,
+          validityDays: updatedRule.validityDays,
           createdAt: updatedRule.createdAt.toISOString(),
           updatedAt: updatedRule.updatedAt.toISOString(),
         },
@@ -98,3 +135,45 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     };
   });
 }
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { ruleId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const [deletedRule] = await db
+      .delete(rewardRules)
+      .where(
+        and(eq(rewardRules.id, ruleId), eq(rewardRules.tenantId, ctx.tenantId))
+      )
+      .returning();
+
+    if (!deletedRule) {
+      return {
+        ok: false as const,
+        error: {
+          code: "RULE_NOT_FOUND",
+          message: "Reward rule not found",
+        },
+        status: 404,
+      };
+    }
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.rules.deleted",
+      payloadJson: {
+        ruleId,
+        ruleKey: deletedRule.ruleKey,
+        deletedAt: new Date().toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: {
+        success: true,
+      },
+      status: 200,
+    };
+  });
+}
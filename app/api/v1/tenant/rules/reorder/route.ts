@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq, and } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { rewardRules, events } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+
+const RuleReorderSchema = z.object({
+  ruleIds: z
+    .array(z.string().uuid("Rule ID must be a valid UUID"))
+    .min(1, "ruleIds must contain at least one rule")
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "ruleIds must not contain duplicates",
+    }),
+});
+
+export async function PUT(request: NextRequest) {
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = RuleReorderSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+        },
+        status: 400,
+      };
+    }
+
+    const { ruleIds } = validation.data;
+
+    const existingRules = await db.query.rewardRules.findMany({
+      where: eq(rewardRules.tenantId, ctx.tenantId),
+      columns: { id: true, ruleKey: true },
+    });
+
+    const existingIds = new Set(existingRules.map((rule) => rule.id));
+    const unknownIds = ruleIds.filter((id) => !existingIds.has(id));
+
+    if (unknownIds.length > 0) {
+      return {
+        ok: false as const,
+        error: {
+          code: "RULE_NOT_FOUND",
+          message: "One or more reward rules were not found",
+          details: { ruleIds: unknownIds },
+        },
+        status: 404,
+      };
+    }
+
+    if (ruleIds.length !== existingRules.length) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "ruleIds must list every reward rule for this tenant",
+          details: { expected: existingRules.length, received: ruleIds.length },
+        },
+        status: 400,
+      };
+    }
+
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ruleIds.length; index++) {
+        await tx
+          .update(rewardRules)
+          .set({ priority: index, updatedAt: now })
+          .where(
+            and(eq(rewardRules.id, ruleIds[index]), eq(rewardRules.tenantId, ctx.tenantId))
+          );
+      }
+    });
+
+    const ruleKeysById = new Map(existingRules.map((rule) => [rule.id, rule.ruleKey]));
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.rules.reordered",
+      payloadJson: {
+        ruleKeys: ruleIds.map((id) => ruleKeysById.get(id)),
+        updatedAt: now.toISOString(),
+      },
+    });
+
+    const rules = await db.query.rewardRules.findMany({
+      where: eq(rewardRules.tenantId, ctx.tenantId),
+      orderBy: (rules, { asc }) => [asc(rules.priority), asc(rules.ruleKey)],
+    });
+
+    return {
+      ok: true as const,
+      data: {
+        rules: rules.map((rule) => ({
+          id: rule.id,
+          ruleKey: rule.ruleKey,
+          campaignId: rule.campaignId,
+          enabled: rule.enabled,
+          priority: rule.priority,
+          conditionJson: rule.conditionJson,
+          rewardReferrerJson: rule.rewardReferrerJson,
+          rewardReferredJson: rule.rewardReferredJson,
+          validityDays: rule.validityDays,
+          createdAt: rule.createdAt.toISOString(),
+          updatedAt: rule.updatedAt.toISOString(),
+        })),
+      },
+      status: 200,
+    };
+  });
+}
@@ -1,15 +1,17 @@
 import { NextRequest } from "next/server";
-import { eq } from "drizzle-orm";
+import { eq, and } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { rewardRules, events } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import { RuleDefinitionSchema } from "@/lib/rewards/schemas";
+import { getCampaign } from "@/lib/referrals/campaigns";
 
 export async function GET(request: NextRequest) {
   return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
     const rules = await db.query.rewardRules.findMany({
       where: eq(rewardRules.tenantId, ctx.tenantId),
-      orderBy: (rules, { asc }) => [asc(rules.ruleKey)],
+      orderBy: (rules, { asc }) => [asc(rules.priority), asc(rules.ruleKey)],
     });
 
     return {
@@ -18,10 +20,13 @@ export async function GET(request: NextRequest) {
         rules: rules.map((rule) => ({
           id: rule.id,
           ruleKey: rule.ruleKey,
+          campaignId: rule.campaignId,
           enabled: rule.enabled,
+          priority: rule.priority,
           conditionJson: rule.conditionJson,
           rewardReferrerJson: rule.rewardReferrerJson,
           rewardReferredJson: rule.rewardReferredJson,
+          validityDays: rule.validityDays,
           createdAt: rule.createdAt.toISOString(),
           updatedAt: rule.updatedAt.toISOString(),
         })),
@@ -30,3 +35,117 @@ export async function GET(request: NextRequest) {
     };
   });
 }
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = RuleDefinitionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const {
+      ruleKey,
+      campaignId,
+      enabled,
+      priority,
+      conditionJson,
+      rewardReferrerJson,
+      rewardReferredJson,
+      validityDays,
+    } = validation.data;
+
+    const existingRule = await db.query.rewardRules.findFirst({
+      where: and(eq(rewardRules.tenantId, ctx.tenantId), eq(rewardRules.ruleKey, ruleKey)),
+      columns: { id: true },
+    });
+
+    if (existingRule) {
+      return {
+        ok: false as const,
+        error: {
+          code: "RULE_KEY_EXISTS",
+          message: `A reward rule with key "${ruleKey}" already exists`,
+        },
+        status: 409,
+      };
+    }
+
+    if (campaignId && !(await getCampaign(db, ctx.tenantId, campaignId))) {
+      return {
+        ok: false as const,
+        error: {
+          code: "CAMPAIGN_NOT_FOUND",
+          message: "Campaign not found",
+        },
+        status: 404,
+      };
+    }
+
+    const [newRule] = await db
+      .insert(rewardRules)
+      .values({
+        tenantId: ctx.tenantId,
+        ruleKey,
+        campaignId,
+        enabled,
+        priority,
+        conditionJson,
+        rewardReferrerJson,
+        rewardReferredJson,
+        validityDays,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!newRule) {
+      return {
+        ok: false as const,
+        error: {
+          code: "RULE_KEY_EXISTS",
+          message: `A reward rule with key "${ruleKey}" already exists`,
+        },
+        status: 409,
+      };
+    }
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.rules.created",
+      payloadJson: {
+        ruleId: newRule.id,
+        ruleKey: newRule.ruleKey,
+        campaignId: newRule.campaignId,
+        createdAt: new Date().toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: {
+        rule: {
+          id: newRule.id,
+          ruleKey: newRule.ruleKey,
+          enabled: newRule.enabled,
+          priority: newRule.priority,
+          conditionJson: newRule.conditionJson,
+          rewardReferrerJson: newRule.rewardReferrerJson,
+          rewardReferredJson: newRule.rewardReferredJson,
+          validityDays: newRule.validityDays,
+          createdAt: newRule.createdAt.toISOString(),
+          updatedAt: newRule.updatedAt.toISOString(),
+        },
+      },
+      status: 201,
+    };
+  });
+}
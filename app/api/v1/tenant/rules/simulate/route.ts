@@ -0,0 +1,128 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { tenants } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  calculateRewards,
+  calculateMilestoneRewards,
+  toRewardPayload,
+} from "@/lib/rewards/engine";
+import type { CalculateRewardsInput } from "@/lib/rewards/engine";
+import { loadEnabledRewardRules, orderRewardRules } from "@/lib/rewards/rules";
+import { RuleDefinitionSchema, RULE_EVENT_TYPES } from "@/lib/rewards/schemas";
+import { getTenantPlanCatalog } from "@/lib/tenant/plans";
+
+const SIMULATED_REFERRAL_ID = "sim_referral";
+const SIMULATED_REFERRER_ID = "sim_referrer";
+const SIMULATED_REFERRED_ID = "sim_referred";
+
+const SimulateSchema = z.object({
+  eventType: z.enum(RULE_EVENT_TYPES).optional().default("referral.converted"),
+  referrerPlan: z.string().min(1, "referrerPlan is required"),
+  referredPlan: z.string().min(1).optional().default("free"),
+  referralCount: z.number().int().min(0).optional().default(1),
+  occurredAt: z.string().datetime({ offset: true }).optional(),
+  campaignId: z.string().uuid("campaignId must be a UUID").optional(),
+  rules: z
+    .array(RuleDefinitionSchema)
+    .max(100, "At most 100 proposed rules can be simulated")
+    .refine((rules) => new Set(rules.map((rule) => rule.ruleKey)).size === rules.length, {
+      message: "Proposed rules must have unique ruleKeys",
+    })
+    .optional(),
+});
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = SimulateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const input = validation.data;
+
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, ctx.tenantId),
+      columns: { referralSettingsJson: true },
+    });
+
+    const rules = input.rules
+      ? orderRewardRules(
+          input.rules.filter(
+            (rule) => rule.enabled && (!rule.campaignId || rule.campaignId === input.campaignId)
+          )
+        )
+      : await loadEnabledRewardRules(db, ctx.tenantId, input.campaignId ?? null);
+    const plans = await getTenantPlanCatalog(db, ctx.tenantId);
+
+    const rewardInput: CalculateRewardsInput = {
+      referralId: SIMULATED_REFERRAL_ID,
+      referrerUserId: SIMULATED_REFERRER_ID,
+      referrerExternalUserId: SIMULATED_REFERRER_ID,
+      referrerTier: input.referrerPlan,
+      referredUserId: SIMULATED_REFERRED_ID,
+      referredExternalUserId: SIMULATED_REFERRED_ID,
+      tenantRewardSettings: tenant?.referralSettingsJson,
+      eventType: input.eventType,
+      referredTier: input.referredPlan,
+      referralCount: input.referralCount,
+      occurredAt: input.occurredAt ? new Date(input.occurredAt) : new Date(),
+      rules,
+      plans,
+      campaignId: input.campaignId ?? null,
+    };
+
+    const result = calculateRewards(rewardInput);
+    const milestones = calculateMilestoneRewards(rewardInput);
+
+    const entries = [
+      { recipient: "referrer" as const, reward: result.referrerReward },
+      { recipient: "referred" as const, reward: result.referredReward },
+    ]
+      .filter((entry) => entry.reward !== null)
+      .map(({ recipient, reward }) => ({
+        recipient,
+        source: reward!.source,
+        ruleKey: reward!.ruleKey ?? null,
+        reward: toRewardPayload(reward!.rewardJson),
+        rewardJson: reward!.rewardJson,
+        expiresAt: reward!.expiresAt?.toISOString() ?? null,
+      }));
+
+    for (const { entry } of milestones) {
+      entries.push({
+        recipient: "referrer" as const,
+        source: entry.source,
+        ruleKey: entry.ruleKey ?? null,
+        reward: toRewardPayload(entry.rewardJson),
+        rewardJson: entry.rewardJson,
+        expiresAt: entry.expiresAt?.toISOString() ?? null,
+      });
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        ruleKey: result.ruleKey,
+        milestones: milestones.map(({ milestone, ruleKey }) => ({ milestone, ruleKey })),
+        usedProposedRules: input.rules !== undefined,
+        evaluatedRules: rules.length,
+        entries,
+      },
+      status: 200,
+    };
+  });
+}
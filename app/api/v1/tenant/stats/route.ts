@@ -2,8 +2,17 @@ import { NextRequest } from "next/server";
 import { eq, sql, and } from "drizzle-orm";
 
 import { db } from "@/lib/db";
-import { users, referrals } from "@/db/schema";
+import { users, referrals, tenants } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import { getTenantCurrencyTotals } from "@/lib/rewards/ledger";
+import { listCampaigns, getCampaignStats, EMPTY_CAMPAIGN_STATS } from "@/lib/referrals/campaigns";
+import { COMPLETED_UNREWARDED_STATUS } from "@/lib/referrals/convert";
+import { HELD_FOR_REVIEW_STATUS } from "@/lib/fraud/scoring";
+import {
+  getTenantRewardBudget,
+  getBudgetUsage,
+  getCampaignBudgetUsages,
+} from "@/lib/rewards/budget";
 
 export async function GET(request: NextRequest) {
   return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
@@ -26,6 +35,8 @@ export async function GET(request: NextRequest) {
     let totalReferrals = 0;
     let completedReferrals = 0;
     let pendingReferrals = 0;
+    let unrewardedReferrals = 0;
+    let heldReferrals = 0;
 
     for (const stat of referralStats) {
       const count = Number(stat.count);
@@ -34,9 +45,27 @@ export async function GET(request: NextRequest) {
         completedReferrals = count;
       } else if (stat.status === "pending") {
         pendingReferrals = count;
+      } else if (stat.status === COMPLETED_UNREWARDED_STATUS) {
+        unrewardedReferrals = count;
+      } else if (stat.status === HELD_FOR_REVIEW_STATUS) {
+        heldReferrals = count;
       }
     }
 
+    const [tenant, rewardsByCurrency, campaignRecords, campaignStats] = await Promise.all([
+      db.query.tenants.findFirst({ where: eq(tenants.id, ctx.tenantId) }),
+      getTenantCurrencyTotals(db, ctx.tenantId),
+      listCampaigns(db, ctx.tenantId),
+      getCampaignStats(db, ctx.tenantId),
+    ]);
+
+    const now = new Date();
+    const tenantBudget = getTenantRewardBudget(tenant?.referralSettingsJson);
+    const [rewardBudget, campaignBudgets] = await Promise.all([
+      tenantBudget ? getBudgetUsage(db, ctx.tenantId, tenantBudget, now) : null,
+      getCampaignBudgetUsages(db, ctx.tenantId, campaignRecords, now),
+    ]);
+
     return {
       ok: true as const,
       data: {
@@ -45,6 +74,17 @@ export async function GET(request: NextRequest) {
           totalReferrals,
           completedReferrals,
           pendingReferrals,
+          unrewardedReferrals,
+          heldReferrals,
+          rewardsByCurrency,
+          rewardBudget,
+          campaigns: campaignRecords.map((campaign) => ({
+            campaignId: campaign.id,
+            key: campaign.key,
+            name: campaign.name,
+            ...(campaignStats.get(campaign.id) ?? EMPTY_CAMPAIGN_STATS),
+            budget: campaignBudgets.get(campaign.id) ?? null,
+          })),
         },
       },
       status: 200,
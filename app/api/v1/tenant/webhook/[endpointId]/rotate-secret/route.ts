@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { events, webhookEndpoints } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import { getWebhookEndpoint, serializeWebhookEndpoint } from "@/lib/webhooks/endpoints";
+import {
+  DEFAULT_SECRET_GRACE_PERIOD_HOURS,
+  WebhookSecretRotateSchema,
+  rotateWebhookSecret,
+} from "@/lib/webhooks/secrets";
+
+interface RouteParams {
+  params: Promise<{ endpointId: string }>;
+}
+
+const EndpointIdSchema = z.string().uuid("Endpoint ID must be a valid UUID");
+
+/**
+ * Issues a new signing secret for an endpoint. Until `gracePeriodHours`
+ * (default 24) have passed, deliveries carry a signature for the old secret
+ * as well. The new secret is only returned in this response.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { endpointId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    if (!EndpointIdSchema.safeParse(endpointId).success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "Endpoint ID must be a valid UUID",
+        },
+        status: 400,
+      };
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = WebhookSecretRotateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const existing = await getWebhookEndpoint(db, ctx.tenantId, endpointId);
+
+    if (!existing) {
+      return {
+        ok: false as const,
+        error: {
+          code: "WEBHOOK_ENDPOINT_NOT_FOUND",
+          message: "Webhook endpoint not found",
+        },
+        status: 404,
+      };
+    }
+
+    const gracePeriodHours =
+      validation.data.gracePeriodHours ?? DEFAULT_SECRET_GRACE_PERIOD_HOURS;
+    const rotatedAt = new Date();
+    const rotated = rotateWebhookSecret(existing, gracePeriodHours, rotatedAt);
+
+    const [endpoint] = await db
+      .update(webhookEndpoints)
+      .set({
+        secretEncrypted: rotated.encrypted,
+        previousSecretEncrypted: rotated.previousSecretEncrypted,
+        previousSecretExpiresAt: rotated.previousSecretExpiresAt,
+        secretRotatedAt: rotatedAt,
+        updatedAt: rotatedAt,
+      })
+      .where(eq(webhookEndpoints.id, existing.id))
+      .returning();
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.webhook.secret_rotated",
+      payloadJson: {
+        endpointId: endpoint.id,
+        gracePeriodHours,
+        previousSecretExpiresAt: rotated.previousSecretExpiresAt?.toISOString() ?? null,
+        rotatedAt: rotatedAt.toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: {
+        endpoint: serializeWebhookEndpoint(endpoint, rotatedAt),
+        secret: rotated.secret,
+      },
+      status: 200,
+    };
+  });
+}
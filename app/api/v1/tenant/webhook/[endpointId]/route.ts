@@ -0,0 +1,199 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { events, webhookEndpoints } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import {
+  WebhookEndpointUpdateSchema,
+  getWebhookEndpoint,
+  serializeWebhookEndpoint,
+  validateWebhookUrl,
+} from "@/lib/webhooks/endpoints";
+import { CLOSED_CIRCUIT, releaseHeldDeliveries } from "@/lib/webhooks/circuit";
+
+interface RouteParams {
+  params: Promise<{ endpointId: string }>;
+}
+
+const EndpointIdSchema = z.string().uuid("Endpoint ID must be a valid UUID");
+
+const INVALID_ENDPOINT_ID = {
+  ok: false as const,
+  error: {
+    code: "INVALID_REQUEST",
+    message: "Endpoint ID must be a valid UUID",
+  },
+  status: 400,
+};
+
+const ENDPOINT_NOT_FOUND = {
+  ok: false as const,
+  error: {
+    code: "WEBHOOK_ENDPOINT_NOT_FOUND",
+    message: "Webhook endpoint not found",
+  },
+  status: 404,
+};
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { endpointId } = await params;
+
+  return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
+    if (!EndpointIdSchema.safeParse(endpointId).success) {
+      return INVALID_ENDPOINT_ID;
+    }
+
+    const endpoint = await getWebhookEndpoint(db, ctx.tenantId, endpointId);
+
+    if (!endpoint) {
+      return ENDPOINT_NOT_FOUND;
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        endpoint: serializeWebhookEndpoint(endpoint),
+      },
+      status: 200,
+    };
+  });
+}
+
+/**
+ * Updates an endpoint. Disabling it stops new deliveries from being queued;
+ * deliveries already queued are still attempted. Enabling it closes its
+ * circuit, so deliveries held while it was failing are sent again.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { endpointId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    if (!EndpointIdSchema.safeParse(endpointId).success) {
+      return INVALID_ENDPOINT_ID;
+    }
+
+    const body = await request.json();
+    const validation = WebhookEndpointUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const input = validation.data;
+
+    if (input.url !== undefined) {
+      const urlValidation = validateWebhookUrl(input.url);
+      if (!urlValidation.valid) {
+        return {
+          ok: false as const,
+          error: {
+            code: "INVALID_WEBHOOK_URL",
+            message: urlValidation.error || "Invalid webhook URL",
+          },
+          status: 400,
+        };
+      }
+    }
+
+    const existing = await getWebhookEndpoint(db, ctx.tenantId, endpointId);
+
+    if (!existing) {
+      return ENDPOINT_NOT_FOUND;
+    }
+
+    // Re-enabling closes the circuit and sends the deliveries held while
+    // the endpoint was down, oldest event first.
+    const reopens =
+      input.enabled === true && (!existing.enabled || existing.circuitState !== "closed");
+
+    const endpoint = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(webhookEndpoints)
+        .set({
+          ...(input.url !== undefined && { url: input.url }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.enabled !== undefined && { enabled: input.enabled }),
+          ...(input.enabled === true && CLOSED_CIRCUIT),
+          ...(input.eventTypes !== undefined && {
+            eventTypes: Array.from(new Set(input.eventTypes)),
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(webhookEndpoints.id, existing.id))
+        .returning();
+
+      if (reopens) {
+        await releaseHeldDeliveries(tx, updated.id, updated.updatedAt);
+      }
+
+      return updated;
+    });
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.webhook.updated",
+      payloadJson: {
+        endpointId: endpoint.id,
+        updatedFields: Object.keys(input),
+        updatedAt: endpoint.updatedAt.toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: {
+        endpoint: serializeWebhookEndpoint(endpoint),
+      },
+      status: 200,
+    };
+  });
+}
+
+/**
+ * Removes an endpoint together with its queued and past deliveries.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { endpointId } = await params;
+
+  return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    if (!EndpointIdSchema.safeParse(endpointId).success) {
+      return INVALID_ENDPOINT_ID;
+    }
+
+    const existing = await getWebhookEndpoint(db, ctx.tenantId, endpointId);
+
+    if (!existing) {
+      return ENDPOINT_NOT_FOUND;
+    }
+
+    await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, existing.id));
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.webhook.deleted",
+      payloadJson: {
+        endpointId: existing.id,
+        url: existing.url,
+        deletedAt: new Date().toISOString(),
+      },
+    });
+
+    return {
+      ok: true as const,
+      data: {
+        success: true,
+      },
+      status: 200,
+    };
+  });
+}
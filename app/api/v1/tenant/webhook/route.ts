@@ -1,62 +1,41 @@
 import { NextRequest } from "next/server";
-import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { sql, eq } from "drizzle-orm";
 
 import { db } from "@/lib/db";
-import { tenants } from "@/db/schema";
+import { events, webhookEndpoints } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  WebhookEndpointCreateSchema,
+  listWebhookEndpoints,
+  serializeWebhookEndpoint,
+  validateWebhookUrl,
+} from "@/lib/webhooks/endpoints";
+import { createWebhookSecret } from "@/lib/webhooks/secrets";
 
-function isLocalhostUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    const hostname = parsed.hostname.toLowerCase();
-    return (
-      hostname === "localhost" ||
-      hostname === "127.0.0.1" ||
-      hostname === "0.0.0.0" ||
-      hostname.endsWith(".localhost")
-    );
-  } catch {
-    return false;
-  }
-}
-
-function validateWebhookUrl(url: string | null): { valid: boolean; error?: string } {
-  if (url === null) {
-    return { valid: true };
-  }
-
-  try {
-    const parsed = new URL(url);
-    
-    if (parsed.protocol !== "https:") {
-      return { valid: false, error: "Webhook URL must use HTTPS" };
-    }
-
-    const isProduction = process.env.NODE_ENV === "production";
-    const allowLocalWebhooks = process.env.ALLOW_LOCAL_WEBHOOKS === "true";
-
-    if (isProduction && isLocalhostUrl(url) && !allowLocalWebhooks) {
-      return { valid: false, error: "Localhost URLs are not allowed in production" };
-    }
+export async function GET(request: NextRequest) {
+  return withAuth(request, ["admin:read", "admin:write", "read"], async (ctx: RequestContext) => {
+    const endpoints = await listWebhookEndpoints(db, ctx.tenantId);
 
-    return { valid: true };
-  } catch {
-    return { valid: false, error: "Invalid URL format" };
-  }
+    return {
+      ok: true as const,
+      data: {
+        endpoints: endpoints.map((endpoint) => serializeWebhookEndpoint(endpoint)),
+      },
+      status: 200,
+    };
+  });
 }
 
-const WebhookConfigSchema = z.object({
-  webhookUrl: z
-    .string()
-    .url("Webhook URL must be a valid URL")
-    .nullable(),
-});
-
-export async function PUT(request: NextRequest) {
+/**
+ * Adds a webhook endpoint. Each endpoint receives the events it subscribes
+ * to in `eventTypes`, which accepts wildcards such as `referral.*`, signed
+ * with its own secret. The secret is only returned in this response.
+ */
+export async function POST(request: NextRequest) {
   return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
     const body = await request.json();
-    const validation = WebhookConfigSchema.safeParse(body);
+    const validation = WebhookEndpointCreateSchema.safeParse(body);
 
     if (!validation.success) {
       return {
@@ -64,14 +43,15 @@ export async function PUT(request: NextRequest) {
         error: {
           code: "INVALID_REQUEST",
           message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
         },
         status: 400,
       };
     }
 
-    const { webhookUrl } = validation.data;
+    const input = validation.data;
 
-    const urlValidation = validateWebhookUrl(webhookUrl);
+    const urlValidation = validateWebhookUrl(input.url);
     if (!urlValidation.valid) {
       return {
         ok: false as const,
@@ -83,80 +63,54 @@ export async function PUT(request: NextRequest) {
       };
     }
 
-    const [updatedTenant] = await db
-      .update(tenants)
-      .set({
-        webhookUrl,
-        updatedAt: new Date(),
-      })
-      .where(eq(tenants.id, ctx.tenantId))
-      .returning({
-        id: tenants.id,
-        slug: tenants.slug,
-        webhookUrl: tenants.webhookUrl,
-        updatedAt: tenants.updatedAt,
-      });
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.tenantId, ctx.tenantId));
 
-    if (!updatedTenant) {
+    if ((countResult?.count ?? 0) >= MAX_WEBHOOK_ENDPOINTS) {
       return {
         ok: false as const,
         error: {
-          code: "TENANT_NOT_FOUND",
-          message: "Tenant not found",
+          code: "WEBHOOK_ENDPOINT_LIMIT",
+          message: `A tenant can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`,
         },
-        status: 404,
+        status: 409,
       };
     }
 
-    return {
-      ok: true as const,
-      data: {
-        tenant: {
-          id: updatedTenant.id,
-          slug: updatedTenant.slug,
-          webhookUrl: updatedTenant.webhookUrl,
-          updatedAt: updatedTenant.updatedAt?.toISOString(),
-        },
-      },
-      status: 200,
-    };
-  });
-}
-
-export async function GET(request: NextRequest) {
-  return withAuth(request, ["admin:write", "read"], async (ctx: RequestContext) => {
-    const tenant = await db.query.tenants.findFirst({
-      where: eq(tenants.id, ctx.tenantId),
-      columns: {
-        id: true,
-        slug: true,
-        webhookUrl: true,
-        updatedAt: true,
+    const { secret, encrypted } = createWebhookSecret();
+
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values({
+        tenantId: ctx.tenantId,
+        url: input.url,
+        description: input.description ?? null,
+        enabled: input.enabled ?? true,
+        eventTypes: Array.from(new Set(input.eventTypes)),
+        secretEncrypted: encrypted,
+      })
+      .returning();
+
+    await db.insert(events).values({
+      tenantId: ctx.tenantId,
+      type: "tenant.webhook.created",
+      payloadJson: {
+        endpointId: endpoint.id,
+        url: endpoint.url,
+        eventTypes: endpoint.eventTypes,
+        createdAt: endpoint.createdAt.toISOString(),
       },
     });
 
-    if (!tenant) {
-      return {
-        ok: false as const,
-        error: {
-          code: "TENANT_NOT_FOUND",
-          message: "Tenant not found",
-        },
-        status: 404,
-      };
-    }
-
     return {
       ok: true as const,
       data: {
-        tenant: {
-          id: tenant.id,
-          slug: tenant.slug,
-          webhookUrl: tenant.webhookUrl,
-          updatedAt: tenant.updatedAt?.toISOString(),
-        },
+        endpoint: serializeWebhookEndpoint(endpoint),
+        secret,
       },
-      status: 200,
+      status: 201,
     };
   });
 }
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import { getTenant } from "@/lib/db-helpers";
+import { buildReferralLink, getShareBaseUrl } from "@/lib/referral-code";
+import { setVanityReferralCode, VanityReferralCodeSchema } from "@/lib/referrals/vanity";
+
+const ReferralCodeUpdateSchema = z.object({
+  referralCode: VanityReferralCodeSchema,
+});
+
+interface RouteParams {
+  params: Promise<{ externalUserId: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { externalUserId } = await params;
+
+  return withAuth(request, ["write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = ReferralCodeUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const result = await setVanityReferralCode(
+      ctx.tenantId,
+      externalUserId,
+      validation.data.referralCode
+    );
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+          details: result.details,
+        },
+        status: result.status,
+      };
+    }
+
+    const { user } = result;
+    const tenant = await getTenant(ctx.tenantId);
+    const baseUrl = getShareBaseUrl(tenant?.referralSettingsJson);
+
+    return {
+      ok: true as const,
+      data: {
+        user: {
+          id: user.id,
+          externalUserId: user.externalUserId,
+          referralCode: user.referralCode,
+          referralCodeExpiresAt: user.referralCodeExpiresAt?.toISOString() ?? null,
+          referralLink: buildReferralLink(baseUrl, user.referralCode),
+        },
+        previousReferralCode: result.previousCode,
+        changed: result.changed,
+      },
+      status: 200,
+    };
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { withAuth, RequestContext } from "@/lib/request";
+import { getTenant } from "@/lib/db-helpers";
+import { buildReferralLink, getShareBaseUrl } from "@/lib/referral-code";
+import {
+  updateReferralCode,
+  ReferralCodeChannelSchema,
+  ReferralCodeCampaignIdSchema,
+} from "@/lib/referrals/codes";
+
+const ReferralCodeUpdateSchema = z.object({
+  active: z.boolean().optional(),
+  channel: ReferralCodeChannelSchema.nullable().optional(),
+  campaignId: ReferralCodeCampaignIdSchema.nullable().optional(),
+});
+
+interface RouteParams {
+  params: Promise<{ externalUserId: string; code: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { externalUserId, code } = await params;
+
+  return withAuth(request, ["write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = ReferralCodeUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const result = await updateReferralCode(ctx.tenantId, externalUserId, code, validation.data);
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+          details: result.details,
+        },
+        status: result.status,
+      };
+    }
+
+    const tenant = await getTenant(ctx.tenantId);
+    const baseUrl = getShareBaseUrl(tenant?.referralSettingsJson);
+    const { referralCode: record } = result;
+
+    return {
+      ok: true as const,
+      data: {
+        referralCode: {
+          code: record.code,
+          channel: record.channel,
+          campaignId: record.campaignId,
+          active: record.active,
+          primary: result.primary,
+          deactivatedAt: record.deactivatedAt?.toISOString() ?? null,
+          expiresAt: record.expiresAt?.toISOString() ?? null,
+          createdAt: record.createdAt.toISOString(),
+          referralLink: buildReferralLink(baseUrl, record.code),
+        },
+      },
+      status: 200,
+    };
+  });
+}
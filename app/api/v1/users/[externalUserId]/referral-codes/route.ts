@@ -0,0 +1,120 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { withAuth, RequestContext } from "@/lib/request";
+import { getTenant, getUserByExternalId } from "@/lib/db-helpers";
+import { buildReferralLink, getShareBaseUrl } from "@/lib/referral-code";
+import {
+  createReferralCode,
+  summarizeReferralCodes,
+  ReferralCodeChannelSchema,
+  ReferralCodeCampaignIdSchema,
+} from "@/lib/referrals/codes";
+import { VanityReferralCodeSchema } from "@/lib/referrals/vanity";
+
+const ReferralCodeCreateSchema = z.object({
+  referralCode: VanityReferralCodeSchema.optional(),
+  channel: ReferralCodeChannelSchema.nullable().optional(),
+  campaignId: ReferralCodeCampaignIdSchema.nullable().optional(),
+});
+
+interface RouteParams {
+  params: Promise<{ externalUserId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { externalUserId } = await params;
+
+  return withAuth(request, ["read"], async (ctx: RequestContext) => {
+    const user = await getUserByExternalId(ctx.tenantId, externalUserId);
+
+    if (!user) {
+      return {
+        ok: false as const,
+        error: {
+          code: "USER_NOT_FOUND",
+          message: "User not found",
+        },
+        status: 404,
+      };
+    }
+
+    const tenant = await getTenant(ctx.tenantId);
+    const baseUrl = getShareBaseUrl(tenant?.referralSettingsJson);
+    const codes = await summarizeReferralCodes(db, ctx.tenantId, user);
+
+    return {
+      ok: true as const,
+      data: {
+        externalUserId: user.externalUserId,
+        referralCodes: codes.map((code) => ({
+          ...code,
+          referralLink: buildReferralLink(baseUrl, code.code),
+        })),
+      },
+      status: 200,
+    };
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { externalUserId } = await params;
+
+  return withAuth(request, ["write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = ReferralCodeCreateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const { referralCode, channel, campaignId } = validation.data;
+    const result = await createReferralCode(ctx.tenantId, externalUserId, {
+      code: referralCode,
+      channel,
+      campaignId,
+    });
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+          details: result.details,
+        },
+        status: result.status,
+      };
+    }
+
+    const tenant = await getTenant(ctx.tenantId);
+    const baseUrl = getShareBaseUrl(tenant?.referralSettingsJson);
+    const { referralCode: record } = result;
+
+    return {
+      ok: true as const,
+      data: {
+        referralCode: {
+          code: record.code,
+          channel: record.channel,
+          campaignId: record.campaignId,
+          active: record.active,
+          primary: result.primary,
+          expiresAt: record.expiresAt?.toISOString() ?? null,
+          createdAt: record.createdAt.toISOString(),
+          referralLink: buildReferralLink(baseUrl, record.code),
+        },
+      },
+      status: 201,
+    };
+  });
+}
@@ -5,7 +5,9 @@ import { db } from "@/lib/db";
 import { users, tenants } from "@/db/schema";
 import { withAuth, successResponse, errorResponse, parseJsonBody } from "@/lib/request";
 import { generateUniqueReferralCode, buildReferralLink, getShareBaseUrl } from "@/lib/referral-code";
-import { normalizeSubscriptionTier } from "@/lib/rewards/normalize";
+import { getTenantPlanCatalog, findPlan, getDefaultPlan } from "@/lib/tenant/plans";
+import { getReferralWindowSettings, computeReferralCodeExpiry } from "@/lib/referrals/windows";
+import { insertReferralCode } from "@/lib/referrals/codes";
 import { getUserByExternalId, getTenant } from "@/lib/db-helpers";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import type { RequestContext } from "@/lib/request";
@@ -14,7 +16,7 @@ const upsertUserSchema = z.object({
   externalUserId: z.string().min(1, "externalUserId is required"),
   email: z.string().email("Invalid email format").optional().nullable(),
   name: z.string().optional().nullable(),
-  subscriptionTier: z.enum(["free", "pro", "power_pro"]).optional().default("free"),
+  subscriptionTier: z.string().min(1).max(50).optional(),
 });
 
 type UpsertUserInput = z.infer<typeof upsertUserSchema>;
@@ -26,6 +28,7 @@ interface UpsertUserResponse {
     email: string | null;
     plan: string;
     referralCode: string;
+    referralCodeExpiresAt: string | null;
     referralLink: string;
     createdAt: string;
     updatedAt: string;
@@ -77,7 +80,22 @@ async function handleUpsertUser(
   }
 
   const input = parseResult.data;
-  const normalizedTier = normalizeSubscriptionTier(input.subscriptionTier);
+  const plans = await getTenantPlanCatalog(db, tenantId);
+  const plan = input.subscriptionTier
+    ? findPlan(plans, input.subscriptionTier)
+    : getDefaultPlan(plans);
+
+  if (!plan) {
+    return errorResponse(
+      "UNKNOWN_PLAN",
+      `Unknown subscriptionTier "${input.subscriptionTier}"`,
+      requestId,
+      400,
+      { allowedPlans: plans.map((p) => p.key) }
+    );
+  }
+
+  const normalizedTier = plan.key;
 
   const existingUser = await getUserByExternalId(tenantId, input.externalUserId);
 
@@ -86,7 +104,7 @@ async function handleUpsertUser(
       .update(users)
       .set({
         email: input.email ?? existingUser.email,
-        plan: normalizedTier,
+        ...(input.subscriptionTier && { plan: normalizedTier }),
         updatedAt: new Date(),
       })
       .where(
@@ -106,6 +124,7 @@ async function handleUpsertUser(
           email: updatedUser.email,
           plan: updatedUser.plan,
           referralCode: updatedUser.referralCode,
+          referralCodeExpiresAt: updatedUser.referralCodeExpiresAt?.toISOString() ?? null,
           referralLink,
           createdAt: updatedUser.createdAt.toISOString(),
           updatedAt: updatedUser.updatedAt.toISOString(),
@@ -118,19 +137,36 @@ async function handleUpsertUser(
   }
 
   const referralCode = await generateUniqueReferralCode(tenantId);
+  const tenant = await getTenant(tenantId);
+  const windows = getReferralWindowSettings(
+    tenant?.referralSettingsJson as Record<string, unknown> | null | undefined
+  );
+
+  const referralCodeExpiresAt = computeReferralCodeExpiry(windows);
 
-  const [newUser] = await db
-    .insert(users)
-    .values({
+  const newUser = await db.transaction(async (tx) => {
+    const [user] = await tx
+      .insert(users)
+      .values({
+        tenantId,
+        externalUserId: input.externalUserId,
+        email: input.email ?? null,
+        plan: normalizedTier,
+        referralCode,
+        referralCodeExpiresAt,
+      })
+      .returning();
+
+    await insertReferralCode(tx, {
       tenantId,
-      externalUserId: input.externalUserId,
-      email: input.email ?? null,
-      plan: normalizedTier,
-      referralCode,
-    })
-    .returning();
+      userId: user.id,
+      code: referralCode,
+      expiresAt: referralCodeExpiresAt,
+    });
+
+    return user;
+  });
 
-  const tenant = await getTenant(tenantId);
   const baseUrl = getShareBaseUrl(tenant?.referralSettingsJson);
   const referralLink = buildReferralLink(baseUrl, newUser.referralCode);
 
@@ -142,6 +178,7 @@ async function handleUpsertUser(
         email: newUser.email,
         plan: newUser.plan,
         referralCode: newUser.referralCode,
+        referralCodeExpiresAt: newUser.referralCodeExpiresAt?.toISOString() ?? null,
         referralLink,
         createdAt: newUser.createdAt.toISOString(),
         updatedAt: newUser.updatedAt.toISOString(),
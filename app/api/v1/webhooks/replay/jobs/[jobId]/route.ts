@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { withAuth, RequestContext } from "@/lib/request";
+import { getReplayJob, serializeReplayJob } from "@/lib/webhooks/replay";
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+const JobIdSchema = z.string().uuid("Job ID must be a valid UUID");
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { jobId } = await params;
+
+  return withAuth(
+    request,
+    ["webhooks:replay", "admin:read", "admin:write"],
+    async (ctx: RequestContext) => {
+      if (!JobIdSchema.safeParse(jobId).success) {
+        return {
+          ok: false as const,
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Job ID must be a valid UUID",
+          },
+          status: 400,
+        };
+      }
+
+      const job = await getReplayJob(db, ctx.tenantId, jobId);
+
+      if (!job) {
+        return {
+          ok: false as const,
+          error: {
+            code: "REPLAY_JOB_NOT_FOUND",
+            message: "Replay job not found",
+          },
+          status: 404,
+        };
+      }
+
+      return {
+        ok: true as const,
+        data: {
+          job: serializeReplayJob(job),
+        },
+        status: 200,
+      };
+    }
+  );
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { eq, desc, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { webhookReplayJobs } from "@/db/schema";
+import { withAuth, RequestContext } from "@/lib/request";
+import { BulkReplaySchema, createReplayJob, serializeReplayJob } from "@/lib/webhooks/replay";
+
+export async function GET(request: NextRequest) {
+  return withAuth(
+    request,
+    ["webhooks:replay", "admin:read", "admin:write"],
+    async (ctx: RequestContext) => {
+      const searchParams = request.nextUrl.searchParams;
+      const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20", 10), 1), 100);
+      const offset = Math.max(parseInt(searchParams.get("offset") || "0", 10), 0);
+
+      const [countResult] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(webhookReplayJobs)
+        .where(eq(webhookReplayJobs.tenantId, ctx.tenantId));
+
+      const jobs = await db
+        .select()
+        .from(webhookReplayJobs)
+        .where(eq(webhookReplayJobs.tenantId, ctx.tenantId))
+        .orderBy(desc(webhookReplayJobs.createdAt))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        ok: true as const,
+        data: {
+          jobs: jobs.map(serializeReplayJob),
+          total: countResult?.count || 0,
+          limit,
+          offset,
+        },
+        status: 200,
+      };
+    }
+  );
+}
+
+/**
+ * Starts a bulk replay. The webhook worker queues the matching deliveries in
+ * chunks; poll `GET /api/v1/webhooks/replay/jobs/:jobId` for progress.
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, ["webhooks:replay", "admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json();
+    const validation = BulkReplaySchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+          details: { validation_errors: validation.error.errors },
+        },
+        status: 400,
+      };
+    }
+
+    const result = await createReplayJob(ctx.tenantId, ctx.apiKeyId, validation.data);
+
+    if (!result.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: result.code,
+          message: result.message,
+        },
+        status: result.status,
+      };
+    }
+
+    return {
+      ok: true as const,
+      data: {
+        job: serializeReplayJob(result.job),
+      },
+      status: 202,
+    };
+  });
+}
@@ -3,13 +3,20 @@ import { z } from "zod";
 import { eq, and } from "drizzle-orm";
 
 import { db } from "@/lib/db";
-import { tenants, events, webhookDeliveries } from "@/db/schema";
+import { events } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import { getSubscribedWebhookEndpoints, getWebhookEndpoint } from "@/lib/webhooks/endpoints";
+import { enqueueWebhookDelivery } from "@/lib/webhooks/enqueue";
 
 const ReplaySchema = z.object({
   eventId: z.string().uuid("Event ID must be a valid UUID"),
+  endpointId: z.string().uuid("Endpoint ID must be a valid UUID").optional(),
 });
 
+/**
+ * Queues an event for delivery again, to one endpoint or to every enabled
+ * endpoint subscribed to its type.
+ */
 export async function POST(request: NextRequest) {
   return withAuth(request, ["webhooks:replay", "admin:write"], async (ctx: RequestContext) => {
     const body = await request.json();
@@ -26,7 +33,7 @@ export async function POST(request: NextRequest) {
       };
     }
 
-    const { eventId } = validation.data;
+    const { eventId, endpointId } = validation.data;
 
     const event = await db.query.events.findFirst({
       where: and(eq(events.tenantId, ctx.tenantId), eq(events.id, eventId)),
@@ -43,41 +50,49 @@ export async function POST(request: NextRequest) {
       };
     }
 
-    const tenant = await db.query.tenants.findFirst({
-      where: eq(tenants.id, ctx.tenantId),
-      columns: {
-        webhookUrl: true,
-      },
-    });
+    let endpoints;
+
+    if (endpointId) {
+      const endpoint = await getWebhookEndpoint(db, ctx.tenantId, endpointId);
+      if (!endpoint) {
+        return {
+          ok: false as const,
+          error: {
+            code: "WEBHOOK_ENDPOINT_NOT_FOUND",
+            message: "Webhook endpoint not found",
+          },
+          status: 404,
+        };
+      }
+      endpoints = [endpoint];
+    } else {
+      endpoints = await getSubscribedWebhookEndpoints(db, ctx.tenantId, event.type);
+    }
 
-    if (!tenant?.webhookUrl) {
+    if (endpoints.length === 0) {
       return {
         ok: false as const,
         error: {
           code: "WEBHOOK_NOT_CONFIGURED",
-          message: "Webhook URL is not configured for this tenant",
+          message: "No enabled webhook endpoint subscribes to this event type",
         },
         status: 400,
       };
     }
 
-    const [delivery] = await db
-      .insert(webhookDeliveries)
-      .values({
-        tenantId: ctx.tenantId,
-        eventId: event.id,
-        url: tenant.webhookUrl,
-        status: "pending",
-        attemptCount: 0,
-        nextAttemptAt: new Date(),
-      })
-      .returning();
+    const deliveries = [];
+    for (const endpoint of endpoints) {
+      deliveries.push(
+        await enqueueWebhookDelivery({ tenantId: ctx.tenantId, eventId: event.id, endpoint })
+      );
+    }
 
     return {
       ok: true as const,
       data: {
         eventId: event.id,
-        deliveryId: delivery.id,
+        deliveryId: deliveries[0].deliveryId,
+        deliveries,
         eventType: event.type,
         message: "Event queued for redelivery",
       },
@@ -1,18 +1,42 @@
 import { NextRequest } from "next/server";
+import { z } from "zod";
 import { eq } from "drizzle-orm";
 
 import { db } from "@/lib/db";
-import { tenants, events, webhookDeliveries } from "@/db/schema";
+import { tenants, events } from "@/db/schema";
 import { withAuth, RequestContext } from "@/lib/request";
+import { getWebhookEndpoint, listWebhookEndpoints } from "@/lib/webhooks/endpoints";
+import { enqueueWebhookDelivery } from "@/lib/webhooks/enqueue";
 
+const TestSchema = z.object({
+  endpointId: z.string().uuid("Endpoint ID must be a valid UUID").optional(),
+});
+
+/**
+ * Sends a `webhook.test` event to one endpoint, or to every enabled endpoint
+ * whatever it subscribes to.
+ */
 export async function POST(request: NextRequest) {
   return withAuth(request, ["admin:write"], async (ctx: RequestContext) => {
+    const body = await request.json().catch(() => ({}));
+    const validation = TestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false as const,
+        error: {
+          code: "INVALID_REQUEST",
+          message: validation.error.errors[0]?.message || "Invalid request body",
+        },
+        status: 400,
+      };
+    }
+
     const tenant = await db.query.tenants.findFirst({
       where: eq(tenants.id, ctx.tenantId),
       columns: {
         id: true,
         slug: true,
-        webhookUrl: true,
       },
     });
 
@@ -27,12 +51,34 @@ export async function POST(request: NextRequest) {
       };
     }
 
-    if (!tenant.webhookUrl) {
+    const { endpointId } = validation.data;
+    let endpoints;
+
+    if (endpointId) {
+      const endpoint = await getWebhookEndpoint(db, ctx.tenantId, endpointId);
+      if (!endpoint) {
+        return {
+          ok: false as const,
+          error: {
+            code: "WEBHOOK_ENDPOINT_NOT_FOUND",
+            message: "Webhook endpoint not found",
+          },
+          status: 404,
+        };
+      }
+      endpoints = [endpoint];
+    } else {
+      endpoints = (await listWebhookEndpoints(db, ctx.tenantId)).filter(
+        (endpoint) => endpoint.enabled
+      );
+    }
+
+    if (endpoints.length === 0) {
       return {
         ok: false as const,
         error: {
           code: "WEBHOOK_NOT_CONFIGURED",
-          message: "Webhook URL is not configured for this tenant",
+          message: "No enabled webhook endpoint is configured for this tenant",
         },
         status: 400,
       };
@@ -54,23 +100,19 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
-    const [delivery] = await db
-      .insert(webhookDeliveries)
-      .values({
-        tenantId: ctx.tenantId,
-        eventId: event.id,
-        url: tenant.webhookUrl,
-        status: "pending",
-        attemptCount: 0,
-        nextAttemptAt: new Date(),
-      })
-      .returning();
+    const deliveries = [];
+    for (const endpoint of endpoints) {
+      deliveries.push(
+        await enqueueWebhookDelivery({ tenantId: ctx.tenantId, eventId: event.id, endpoint })
+      );
+    }
 
     return {
       ok: true as const,
       data: {
         eventId: event.id,
-        deliveryId: delivery.id,
+        deliveryId: deliveries[0].deliveryId,
+        deliveries,
         message: "Test webhook queued for delivery",
       },
       status: 201,
@@ -1,19 +1,25 @@
 import { verifyEmbed, EmbedVerificationError } from "@/lib/embed/verify";
-import { getTenantConfigBySlug } from "@/lib/tenant/config";
+import { db } from "@/lib/db";
+import { getTenantConfigBySlug, applyCampaignOverrides } from "@/lib/tenant/config";
 import { getEmbedData, logEmbedView } from "@/lib/embed/data";
+import { getCampaignByKey, isCampaignActive } from "@/lib/referrals/campaigns";
+import { formatMinorUnits } from "@/lib/rewards/currency";
+import type { RewardSummaryItem } from "@/lib/embed/data";
 import CopyLink from "./CopyLink";
 
 interface EmbedPageProps {
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }
 
-function formatCurrency(amount: number, currency: string): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  }).format(amount / 100);
+function formatRewardSummary(reward: RewardSummaryItem): string {
+  if (reward.type === "credit" && reward.currency) {
+    return `${formatMinorUnits(reward.totalAmount, reward.currency)} (${reward.count}x)`;
+  }
+  if (reward.unit) {
+    const unit = reward.totalAmount === 1 ? reward.unit : `${reward.unit}s`;
+    return `${reward.totalAmount} ${unit} (${reward.count}x)`;
+  }
+  return `${reward.count}x`;
 }
 
 function ErrorDisplay({
@@ -117,14 +123,23 @@ export default async function EmbedReferralPage({ searchParams }: EmbedPageProps
     );
   }
 
-  const { branding, referralSettings } = tenantConfig;
+  const campaignKey = urlSearchParams.get("campaign");
+  const campaign = campaignKey
+    ? await getCampaignByKey(db, tenantConfig.id, campaignKey)
+    : null;
+  const activeCampaign = campaign && isCampaignActive(campaign) ? campaign : null;
+
+  const { branding, referralSettings } = activeCampaign
+    ? applyCampaignOverrides(tenantConfig, activeCampaign)
+    : tenantConfig;
 
   logEmbedView(tenantConfig.id, verifiedContext.externalUserId);
 
   const embedData = await getEmbedData(
     tenantConfig.id,
     verifiedContext.externalUserId,
-    referralSettings.shareBaseUrl
+    referralSettings.shareBaseUrl,
+    activeCampaign?.id ?? null
   );
 
   if (!embedData.found) {
@@ -189,8 +204,33 @@ export default async function EmbedReferralPage({ searchParams }: EmbedPageProps
               link={embedData.referralLink}
               accentColor={branding.accentColor}
             />
+            {activeCampaign?.shareMessage && (
+              <p className="text-sm text-gray-600 mt-3">{referralSettings.shareMessage}</p>
+            )}
           </div>
 
+          {/* Channel Links Section */}
+          {embedData.channelLinks.length > 1 && (
+            <div className="px-6 pb-6 space-y-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Your links by channel
+              </label>
+              {embedData.channelLinks
+                .filter((channelLink) => !channelLink.primary)
+                .map((channelLink) => (
+                  <div key={channelLink.code}>
+                    <div className="text-xs font-medium text-gray-500 uppercase mb-1">
+                      {channelLink.channel ?? channelLink.campaignName ?? channelLink.code}
+                    </div>
+                    <CopyLink
+                      link={channelLink.link}
+                      accentColor={branding.accentColor}
+                    />
+                  </div>
+                ))}
+            </div>
+          )}
+
           {/* Stats Section */}
           <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 px-6 pb-6">
             <div className="bg-gray-50 rounded-xl p-4 text-center">
@@ -216,12 +256,52 @@ export default async function EmbedReferralPage({ searchParams }: EmbedPageProps
                 className="text-3xl font-bold mb-1"
                 style={{ color: branding.accentColor }}
               >
-                {formatCurrency(embedData.totalRewardsValue, embedData.rewardsCurrency)}
+                {embedData.rewardTotals.length > 0
+                  ? embedData.rewardTotals.map((total) => (
+                      <div key={total.currency}>
+                        {formatMinorUnits(total.amount, total.currency)}
+                      </div>
+                    ))
+                  : formatMinorUnits(0, embedData.defaultCurrency)}
               </div>
               <div className="text-sm text-gray-600">Rewards Earned</div>
             </div>
           </div>
 
+          {/* Milestone Progress */}
+          {embedData.nextMilestone && (
+            <div className="px-6 pb-6">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="font-medium text-gray-700">Next milestone</span>
+                <span className="text-gray-600">
+                  {embedData.nextMilestone.completedReferrals} / {embedData.nextMilestone.milestone}{" "}
+                  referrals
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full"
+                  style={{
+                    width: `${Math.min(
+                      100,
+                      (embedData.nextMilestone.completedReferrals /
+                        embedData.nextMilestone.milestone) *
+                        100
+                    )}%`,
+                    backgroundColor: branding.accentColor,
+                  }}
+                />
+              </div>
+              <p className="text-sm text-gray-600 mt-2">
+                {embedData.nextMilestone.remaining} more completed referral
+                {embedData.nextMilestone.remaining === 1 ? "" : "s"}
+                {embedData.nextMilestone.rewardDescription
+                  ? ` to earn ${embedData.nextMilestone.rewardDescription}`
+                  : " to reach your next milestone"}
+              </p>
+            </div>
+          )}
+
           {/* Rewards Breakdown */}
           {embedData.rewardsSummary.length > 0 && (
             <div className="px-6 pb-6">
@@ -231,12 +311,38 @@ export default async function EmbedReferralPage({ searchParams }: EmbedPageProps
               <div className="space-y-2">
                 {embedData.rewardsSummary.map((reward) => (
                   <div
-                    key={reward.type}
+                    key={`${reward.type}:${reward.currency ?? ""}:${reward.unit ?? ""}`}
                     className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-3"
                   >
-                    <span className="text-gray-700 capitalize">{reward.type}</span>
+                    <span className="text-gray-700 capitalize">
+                      {reward.type.replace(/_/g, " ")}
+                    </span>
                     <span className="font-medium" style={{ color: branding.accentColor }}>
-                      {formatCurrency(reward.totalAmount, reward.currency)} ({reward.count}x)
+                      {formatRewardSummary(reward)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Expired Rewards */}
+          {embedData.expiredRewards.length > 0 && (
+            <div className="px-6 pb-6">
+              <h3 className="text-sm font-medium text-gray-500 mb-3">
+                Expired Rewards
+              </h3>
+              <div className="space-y-2">
+                {embedData.expiredRewards.map((reward) => (
+                  <div
+                    key={`${reward.type}:${reward.currency ?? ""}:${reward.unit ?? ""}`}
+                    className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-3 text-gray-400"
+                  >
+                    <span className="capitalize">
+                      {reward.type.replace(/_/g, " ")}
+                    </span>
+                    <span className="font-medium line-through">
+                      {formatRewardSummary(reward)}
                     </span>
                   </div>
                 ))}
@@ -0,0 +1 @@
+ALTER TABLE "rewards_ledger" ADD COLUMN "rule_key" text;
\ No newline at end of file
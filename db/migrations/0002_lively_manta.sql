@@ -0,0 +1 @@
+ALTER TABLE "reward_rules" ADD COLUMN "priority" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "rewards_ledger" ADD COLUMN "entry_type" text DEFAULT 'credit' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "amount" integer;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "currency" text;--> statement-breakpoint
+UPDATE "rewards_ledger" SET "amount" = COALESCE(ROUND(("reward_json"->>'amount')::numeric), 0)::int, "currency" = COALESCE(NULLIF("reward_json"->>'currency', ''), 'AUD');--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ALTER COLUMN "amount" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ALTER COLUMN "currency" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "rewards_ledger_user_currency_idx" ON "rewards_ledger" USING btree ("user_id","currency");
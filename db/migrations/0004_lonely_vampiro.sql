@@ -0,0 +1,7 @@
+ALTER TABLE "referrals" ADD COLUMN "reversed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "reversal_reason" text;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "referral_id" uuid;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "reverses_event_id" text;--> statement-breakpoint
+UPDATE "rewards_ledger" SET "referral_id" = "referrals"."id" FROM "referrals" WHERE "referrals"."id"::text = "rewards_ledger"."reward_json"->>'referralId' AND "referrals"."tenant_id" = "rewards_ledger"."tenant_id";--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD CONSTRAINT "rewards_ledger_referral_id_referrals_id_fk" FOREIGN KEY ("referral_id") REFERENCES "public"."referrals"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rewards_ledger_referral_id_idx" ON "rewards_ledger" USING btree ("referral_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "rewards_ledger" ALTER COLUMN "currency" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "reward_type" text DEFAULT 'credit' NOT NULL;--> statement-breakpoint
+UPDATE "rewards_ledger" SET "reward_type" = "reward_json"->>'type' WHERE "reward_json"->>'type' IN ('subscription_extension', 'plan_upgrade', 'points', 'coupon', 'feature_unlock');
+--> statement-breakpoint
+UPDATE "rewards_ledger" SET "reward_type" = 'points', "currency" = NULL WHERE "reward_json"->>'type' = 'bonus_scans';--> statement-breakpoint
+UPDATE "rewards_ledger" SET "reward_type" = 'subscription_extension', "currency" = NULL, "amount" = 0 WHERE "reward_json"->>'type' = 'free_months';--> statement-breakpoint
+UPDATE "reward_rules" SET "reward_referrer_json" = jsonb_build_object('type', 'points', 'points', ("reward_referrer_json"->>'amount')::int, 'description', 'Bonus scans') WHERE "reward_referrer_json"->>'type' = 'bonus_scans';--> statement-breakpoint
+UPDATE "reward_rules" SET "reward_referred_json" = jsonb_build_object('type', 'points', 'points', ("reward_referred_json"->>'amount')::int, 'description', 'Bonus scans') WHERE "reward_referred_json"->>'type' = 'bonus_scans';--> statement-breakpoint
+UPDATE "reward_rules" SET "reward_referrer_json" = jsonb_build_object('type', 'subscription_extension', 'duration', ("reward_referrer_json"->>'amount')::int, 'durationUnit', 'month') WHERE "reward_referrer_json"->>'type' = 'free_months';--> statement-breakpoint
+UPDATE "reward_rules" SET "reward_referred_json" = jsonb_build_object('type', 'subscription_extension', 'duration', ("reward_referred_json"->>'amount')::int, 'durationUnit', 'month') WHERE "reward_referred_json"->>'type' = 'free_months';
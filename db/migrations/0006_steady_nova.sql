@@ -0,0 +1,21 @@
+CREATE TABLE "tenant_plans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"key" text NOT NULL,
+	"display_name" text NOT NULL,
+	"rank" integer DEFAULT 0 NOT NULL,
+	"referral_reward_amount" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tenant_plans" ADD CONSTRAINT "tenant_plans_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tenant_plans_tenant_key_idx" ON "tenant_plans" USING btree ("tenant_id","key");--> statement-breakpoint
+CREATE INDEX "tenant_plans_tenant_id_idx" ON "tenant_plans" USING btree ("tenant_id");--> statement-breakpoint
+INSERT INTO "tenant_plans" ("tenant_id", "key", "display_name", "rank", "referral_reward_amount")
+SELECT "id", 'free', 'Free', 0, CASE WHEN jsonb_typeof("referral_settings_json"->'referral_reward_free') = 'number' THEN ROUND(("referral_settings_json"->>'referral_reward_free')::numeric)::int ELSE 100 END FROM "tenants"
+UNION ALL
+SELECT "id", 'pro', 'Pro', 1, CASE WHEN jsonb_typeof("referral_settings_json"->'referral_reward_pro') = 'number' THEN ROUND(("referral_settings_json"->>'referral_reward_pro')::numeric)::int ELSE 200 END FROM "tenants"
+UNION ALL
+SELECT "id", 'power_pro', 'Power Pro', 2, CASE WHEN jsonb_typeof("referral_settings_json"->'referral_reward_power_pro') = 'number' THEN ROUND(("referral_settings_json"->>'referral_reward_power_pro')::numeric)::int ELSE 300 END FROM "tenants"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,3 @@
+ALTER TABLE "reward_rules" ADD COLUMN "validity_days" integer;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "rewards_ledger_expires_at_idx" ON "rewards_ledger" USING btree ("expires_at");
\ No newline at end of file
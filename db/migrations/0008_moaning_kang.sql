@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "referral_code_expires_at" timestamp with time zone;
\ No newline at end of file
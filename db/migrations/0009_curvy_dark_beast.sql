@@ -0,0 +1,21 @@
+CREATE TABLE "referral_code_aliases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"code" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "referral_code_blocklist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"term" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "referral_code_aliases" ADD CONSTRAINT "referral_code_aliases_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referral_code_aliases" ADD CONSTRAINT "referral_code_aliases_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referral_code_blocklist" ADD CONSTRAINT "referral_code_blocklist_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "referral_code_aliases_tenant_code_idx" ON "referral_code_aliases" USING btree ("tenant_id","code");--> statement-breakpoint
+CREATE INDEX "referral_code_aliases_user_id_idx" ON "referral_code_aliases" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "referral_code_blocklist_tenant_term_idx" ON "referral_code_blocklist" USING btree ("tenant_id","term");
\ No newline at end of file
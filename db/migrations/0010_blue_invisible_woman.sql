@@ -0,0 +1,23 @@
+CREATE TABLE "referral_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"code" text NOT NULL,
+	"channel" text,
+	"campaign" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"deactivated_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD CONSTRAINT "referral_codes_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD CONSTRAINT "referral_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "referral_codes_tenant_code_idx" ON "referral_codes" USING btree ("tenant_id","code");--> statement-breakpoint
+CREATE INDEX "referral_codes_user_id_idx" ON "referral_codes" USING btree ("user_id");--> statement-breakpoint
+INSERT INTO "referral_codes" ("tenant_id", "user_id", "code", "created_at", "updated_at")
+SELECT "tenant_id", "id", "referral_code", "created_at", "created_at" FROM "users";--> statement-breakpoint
+INSERT INTO "referral_codes" ("tenant_id", "user_id", "code", "created_at", "updated_at")
+SELECT "tenant_id", "user_id", "code", "created_at", "created_at" FROM "referral_code_aliases"
+ON CONFLICT ("tenant_id", "code") DO NOTHING;--> statement-breakpoint
+DROP TABLE "referral_code_aliases" CASCADE;
\ No newline at end of file
@@ -0,0 +1,49 @@
+CREATE TABLE "campaigns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"key" text NOT NULL,
+	"name" text NOT NULL,
+	"starts_at" timestamp with time zone,
+	"ends_at" timestamp with time zone,
+	"budget_amount" integer,
+	"budget_currency" text,
+	"per_referrer_cap" integer,
+	"share_message" text,
+	"branding_json" jsonb,
+	"archived_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "campaign_id" uuid;--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD COLUMN "campaign_id" uuid;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "campaign_id" uuid;--> statement-breakpoint
+ALTER TABLE "reward_rules" ADD COLUMN "campaign_id" uuid;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD COLUMN "campaign_id" uuid;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "campaigns_tenant_key_idx" ON "campaigns" USING btree ("tenant_id","key");--> statement-breakpoint
+CREATE INDEX "campaigns_tenant_id_idx" ON "campaigns" USING btree ("tenant_id");--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD CONSTRAINT "referral_codes_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reward_rules" ADD CONSTRAINT "reward_rules_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rewards_ledger" ADD CONSTRAINT "rewards_ledger_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "events_campaign_id_idx" ON "events" USING btree ("campaign_id");--> statement-breakpoint
+CREATE INDEX "referrals_campaign_id_idx" ON "referrals" USING btree ("campaign_id");--> statement-breakpoint
+CREATE INDEX "rewards_ledger_campaign_id_idx" ON "rewards_ledger" USING btree ("campaign_id");--> statement-breakpoint
+INSERT INTO "campaigns" ("tenant_id", "key", "name")
+SELECT DISTINCT ON ("tenant_id", "slug") "tenant_id", "slug", "campaign"
+FROM (
+  SELECT "tenant_id", "campaign",
+    left(trim(both '_' from regexp_replace(lower("campaign"), '[^a-z0-9]+', '_', 'g')), 50) AS "slug"
+  FROM "referral_codes"
+  WHERE "campaign" IS NOT NULL
+) AS "labels"
+WHERE "slug" <> ''
+ORDER BY "tenant_id", "slug", "campaign"
+ON CONFLICT ("tenant_id", "key") DO NOTHING;--> statement-breakpoint
+UPDATE "referral_codes" SET "campaign_id" = "campaigns"."id"
+FROM "campaigns"
+WHERE "campaigns"."tenant_id" = "referral_codes"."tenant_id"
+  AND "campaigns"."key" = left(trim(both '_' from regexp_replace(lower("referral_codes"."campaign"), '[^a-z0-9]+', '_', 'g')), 50);--> statement-breakpoint
+ALTER TABLE "referral_codes" DROP COLUMN "campaign";
\ No newline at end of file
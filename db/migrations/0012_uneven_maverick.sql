@@ -0,0 +1 @@
+ALTER TABLE "campaigns" ADD COLUMN "budget_period" text DEFAULT 'program' NOT NULL;
\ No newline at end of file
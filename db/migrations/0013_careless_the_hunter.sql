@@ -0,0 +1,5 @@
+ALTER TABLE "referrals" ADD COLUMN "fraud_score" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "fraud_reasons_json" jsonb;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "claim_ip_hash" text;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "claim_user_agent_hash" text;--> statement-breakpoint
+CREATE INDEX "referrals_referrer_ip_hash_idx" ON "referrals" USING btree ("referrer_user_id","claim_ip_hash");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "referrals" ADD COLUMN "reviewed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "reviewed_by_api_key_id" uuid;--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN "review_reason" text;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_reviewed_by_api_key_id_api_keys_id_fk" FOREIGN KEY ("reviewed_by_api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "referrals" ADD COLUMN "claim_fingerprint_hash" text;--> statement-breakpoint
+CREATE INDEX "referrals_referrer_fingerprint_hash_idx" ON "referrals" USING btree ("referrer_user_id","claim_fingerprint_hash");
\ No newline at end of file
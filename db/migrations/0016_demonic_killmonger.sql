@@ -0,0 +1,20 @@
+CREATE TABLE "webhook_endpoints" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"description" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"event_types" jsonb DEFAULT '["*"]'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD COLUMN "endpoint_id" uuid;--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" ADD CONSTRAINT "webhook_endpoints_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_endpoints_tenant_id_idx" ON "webhook_endpoints" USING btree ("tenant_id");--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_endpoint_id_webhook_endpoints_id_fk" FOREIGN KEY ("endpoint_id") REFERENCES "public"."webhook_endpoints"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_deliveries_endpoint_id_idx" ON "webhook_deliveries" USING btree ("endpoint_id");--> statement-breakpoint
+INSERT INTO "webhook_endpoints" ("tenant_id", "url", "event_types")
+SELECT "id", "webhook_url", '["*"]'::jsonb FROM "tenants" WHERE "webhook_url" IS NOT NULL;--> statement-breakpoint
+UPDATE "webhook_deliveries" SET "endpoint_id" = "webhook_endpoints"."id" FROM "webhook_endpoints" WHERE "webhook_endpoints"."tenant_id" = "webhook_deliveries"."tenant_id" AND "webhook_endpoints"."url" = "webhook_deliveries"."url";--> statement-breakpoint
+ALTER TABLE "tenants" DROP COLUMN "webhook_url";
\ No newline at end of file
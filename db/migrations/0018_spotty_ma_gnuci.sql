@@ -0,0 +1,20 @@
+CREATE TABLE "webhook_delivery_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"delivery_id" uuid NOT NULL,
+	"attempt_number" integer NOT NULL,
+	"url" text NOT NULL,
+	"request_headers" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"payload_hash" text NOT NULL,
+	"success" boolean NOT NULL,
+	"response_status" integer,
+	"response_body" text,
+	"error" text,
+	"duration_ms" integer NOT NULL,
+	"attempted_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_delivery_attempts" ADD CONSTRAINT "webhook_delivery_attempts_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_delivery_attempts" ADD CONSTRAINT "webhook_delivery_attempts_delivery_id_webhook_deliveries_id_fk" FOREIGN KEY ("delivery_id") REFERENCES "public"."webhook_deliveries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_delivery_attempts_delivery_id_idx" ON "webhook_delivery_attempts" USING btree ("delivery_id");--> statement-breakpoint
+CREATE INDEX "webhook_delivery_attempts_tenant_id_idx" ON "webhook_delivery_attempts" USING btree ("tenant_id");
\ No newline at end of file
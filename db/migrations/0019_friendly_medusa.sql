@@ -0,0 +1,22 @@
+CREATE TABLE "webhook_replay_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"filters_json" jsonb NOT NULL,
+	"total_deliveries" integer DEFAULT 0 NOT NULL,
+	"processed_deliveries" integer DEFAULT 0 NOT NULL,
+	"enqueued_deliveries" integer DEFAULT 0 NOT NULL,
+	"skipped_deliveries" integer DEFAULT 0 NOT NULL,
+	"cursor_delivery_id" uuid,
+	"last_error" text,
+	"requested_by_api_key_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_replay_jobs" ADD CONSTRAINT "webhook_replay_jobs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_replay_jobs" ADD CONSTRAINT "webhook_replay_jobs_requested_by_api_key_id_api_keys_id_fk" FOREIGN KEY ("requested_by_api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_replay_jobs_tenant_id_idx" ON "webhook_replay_jobs" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX "webhook_replay_jobs_status_idx" ON "webhook_replay_jobs" USING btree ("status");
\ No newline at end of file
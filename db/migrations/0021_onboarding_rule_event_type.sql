@@ -0,0 +1 @@
+UPDATE "reward_rules" SET "condition_json" = ("condition_json" - 'trigger') || '{"eventType": "referral.claimed"}'::jsonb WHERE "condition_json"->>'trigger' = 'user_signup';
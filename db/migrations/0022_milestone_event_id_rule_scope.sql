@@ -0,0 +1 @@
+WITH "renamed" AS (SELECT "tenant_id", "event_id" AS "old_event_id", 'milestone_' || "rule_key" || coalesce('_' || "campaign_id"::text, '') || '_' || substring("event_id" from 11) AS "new_event_id" FROM "rewards_ledger" WHERE "source" = 'milestone_bonus' AND "entry_type" = 'credit' AND "rule_key" IS NOT NULL AND "event_id" ~ '^milestone_[0-9]+_') UPDATE "rewards_ledger" SET "event_id" = replace("rewards_ledger"."event_id", "renamed"."old_event_id", "renamed"."new_event_id"), "reverses_event_id" = CASE WHEN "rewards_ledger"."reverses_event_id" = "renamed"."old_event_id" THEN "renamed"."new_event_id" ELSE "rewards_ledger"."reverses_event_id" END FROM "renamed" WHERE "rewards_ledger"."tenant_id" = "renamed"."tenant_id" AND ("rewards_ledger"."event_id" = "renamed"."old_event_id" OR "rewards_ledger"."reverses_event_id" = "renamed"."old_event_id");
@@ -0,0 +1,2 @@
+ALTER TABLE "referral_codes" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "referral_codes" SET "expires_at" = "users"."referral_code_expires_at" FROM "users" WHERE "users"."id" = "referral_codes"."user_id" AND "users"."referral_code_expires_at" IS NOT NULL;
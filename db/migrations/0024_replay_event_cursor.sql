@@ -0,0 +1,3 @@
+ALTER TABLE "webhook_replay_jobs" DROP COLUMN "cursor_delivery_id";--> statement-breakpoint
+ALTER TABLE "webhook_replay_jobs" ADD COLUMN "cursor_event_id" uuid;--> statement-breakpoint
+ALTER TABLE "webhook_replay_jobs" ADD COLUMN "cursor_endpoint_id" uuid;
@@ -17,7 +17,6 @@ export const tenants = pgTable("tenants", {
   status: text("status").notNull().default("active"),
   brandingJson: jsonb("branding_json").$type<Record<string, unknown>>(),
   referralSettingsJson: jsonb("referral_settings_json").$type<Record<string, unknown>>(),
-  webhookUrl: text("webhook_url"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
@@ -38,6 +37,53 @@ export const apiKeys = pgTable(
   (table) => [index("api_keys_tenant_id_idx").on(table.tenantId)]
 );
 
+export const tenantPlans = pgTable(
+  "tenant_plans",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    displayName: text("display_name").notNull(),
+    rank: integer("rank").notNull().default(0),
+    referralRewardAmount: integer("referral_reward_amount").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("tenant_plans_tenant_key_idx").on(table.tenantId, table.key),
+    index("tenant_plans_tenant_id_idx").on(table.tenantId),
+  ]
+);
+
+export const campaigns = pgTable(
+  "campaigns",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    name: text("name").notNull(),
+    startsAt: timestamp("starts_at", { withTimezone: true }),
+    endsAt: timestamp("ends_at", { withTimezone: true }),
+    budgetAmount: integer("budget_amount"),
+    budgetCurrency: text("budget_currency"),
+    budgetPeriod: text("budget_period").notNull().default("program"),
+    perReferrerCap: integer("per_referrer_cap"),
+    shareMessage: text("share_message"),
+    brandingJson: jsonb("branding_json").$type<Record<string, unknown>>(),
+    archivedAt: timestamp("archived_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("campaigns_tenant_key_idx").on(table.tenantId, table.key),
+    index("campaigns_tenant_id_idx").on(table.tenantId),
+  ]
+);
+
 export const users = pgTable(
   "users",
   {
@@ -49,6 +95,7 @@ export const users = pgTable(
     email: text("email"),
     plan: text("plan").notNull().default("free"),
     referralCode: text("referral_code").notNull(),
+    referralCodeExpiresAt: timestamp("referral_code_expires_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -59,6 +106,46 @@ export const users = pgTable(
   ]
 );
 
+export const referralCodes = pgTable(
+  "referral_codes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    code: text("code").notNull(),
+    channel: text("channel"),
+    campaignId: uuid("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+    active: boolean("active").notNull().default(true),
+    deactivatedAt: timestamp("deactivated_at", { withTimezone: true }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("referral_codes_tenant_code_idx").on(table.tenantId, table.code),
+    index("referral_codes_user_id_idx").on(table.userId),
+  ]
+);
+
+export const referralCodeBlocklist = pgTable(
+  "referral_code_blocklist",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    term: text("term").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("referral_code_blocklist_tenant_term_idx").on(table.tenantId, table.term),
+  ]
+);
+
 export const referrals = pgTable(
   "referrals",
   {
@@ -74,9 +161,22 @@ export const referrals = pgTable(
       onDelete: "set null",
     }),
     refCodeUsed: text("ref_code_used").notNull(),
+    campaignId: uuid("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
     status: text("status").notNull().default("pending"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     completedAt: timestamp("completed_at", { withTimezone: true }),
+    reversedAt: timestamp("reversed_at", { withTimezone: true }),
+    reversalReason: text("reversal_reason"),
+    fraudScore: integer("fraud_score").notNull().default(0),
+    fraudReasonsJson: jsonb("fraud_reasons_json").$type<Array<Record<string, unknown>>>(),
+    claimIpHash: text("claim_ip_hash"),
+    claimUserAgentHash: text("claim_user_agent_hash"),
+    claimFingerprintHash: text("claim_fingerprint_hash"),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    reviewedByApiKeyId: uuid("reviewed_by_api_key_id").references(() => apiKeys.id, {
+      onDelete: "set null",
+    }),
+    reviewReason: text("review_reason"),
   },
   (table) => [
     uniqueIndex("referrals_tenant_referred_external_idx").on(
@@ -86,6 +186,12 @@ export const referrals = pgTable(
     index("referrals_tenant_id_idx").on(table.tenantId),
     index("referrals_referrer_user_id_idx").on(table.referrerUserId),
     index("referrals_status_idx").on(table.status),
+    index("referrals_campaign_id_idx").on(table.campaignId),
+    index("referrals_referrer_ip_hash_idx").on(table.referrerUserId, table.claimIpHash),
+    index("referrals_referrer_fingerprint_hash_idx").on(
+      table.referrerUserId,
+      table.claimFingerprintHash
+    ),
   ]
 );
 
@@ -97,10 +203,13 @@ export const rewardRules = pgTable(
       .notNull()
       .references(() => tenants.id, { onDelete: "cascade" }),
     ruleKey: text("rule_key").notNull(),
+    campaignId: uuid("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }),
     enabled: boolean("enabled").notNull().default(true),
+    priority: integer("priority").notNull().default(0),
     conditionJson: jsonb("condition_json").$type<Record<string, unknown>>(),
     rewardReferrerJson: jsonb("reward_referrer_json").$type<Record<string, unknown>>(),
     rewardReferredJson: jsonb("reward_referred_json").$type<Record<string, unknown>>(),
+    validityDays: integer("validity_days"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -122,7 +231,16 @@ export const rewardsLedger = pgTable(
       .references(() => users.id, { onDelete: "cascade" }),
     source: text("source").notNull(),
     eventId: text("event_id").notNull(),
+    referralId: uuid("referral_id").references(() => referrals.id, { onDelete: "set null" }),
+    campaignId: uuid("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+    ruleKey: text("rule_key"),
+    reversesEventId: text("reverses_event_id"),
+    entryType: text("entry_type").notNull().default("credit"),
+    rewardType: text("reward_type").notNull().default("credit"),
+    amount: integer("amount").notNull(),
+    currency: text("currency"),
     rewardJson: jsonb("reward_json").$type<Record<string, unknown>>().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [
@@ -133,6 +251,10 @@ export const rewardsLedger = pgTable(
     ),
     index("rewards_ledger_tenant_id_idx").on(table.tenantId),
     index("rewards_ledger_user_id_idx").on(table.userId),
+    index("rewards_ledger_user_currency_idx").on(table.userId, table.currency),
+    index("rewards_ledger_referral_id_idx").on(table.referralId),
+    index("rewards_ledger_campaign_id_idx").on(table.campaignId),
+    index("rewards_ledger_expires_at_idx").on(table.expiresAt),
   ]
 );
 
@@ -144,11 +266,13 @@ export const events = pgTable(
       .notNull()
       .references(() => tenants.id, { onDelete: "cascade" }),
     type: text("type").notNull(),
+    campaignId: uuid("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
     payloadJson: jsonb("payload_json").$type<Record<string, unknown>>().notNull(),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [
     index("events_tenant_id_idx").on(table.tenantId),
+    index("events_campaign_id_idx").on(table.campaignId),
     index("events_type_idx").on(table.type),
     index("events_created_at_idx").on(table.createdAt),
   ]
@@ -177,6 +301,32 @@ export const rateLimits = pgTable(
   ]
 );
 
+export const webhookEndpoints = pgTable(
+  "webhook_endpoints",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    description: text("description"),
+    enabled: boolean("enabled").notNull().default(true),
+    eventTypes: jsonb("event_types").$type<string[]>().notNull().default(["*"]),
+    secretEncrypted: text("secret_encrypted"),
+    previousSecretEncrypted: text("previous_secret_encrypted"),
+    previousSecretExpiresAt: timestamp("previous_secret_expires_at", { withTimezone: true }),
+    secretRotatedAt: timestamp("secret_rotated_at", { withTimezone: true }),
+    circuitState: text("circuit_state").notNull().default("closed"),
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+    circuitOpenedAt: timestamp("circuit_opened_at", { withTimezone: true }),
+    circuitNextProbeAt: timestamp("circuit_next_probe_at", { withTimezone: true }),
+    disabledReason: text("disabled_reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("webhook_endpoints_tenant_id_idx").on(table.tenantId)]
+);
+
 export const webhookDeliveries = pgTable(
   "webhook_deliveries",
   {
@@ -185,6 +335,9 @@ export const webhookDeliveries = pgTable(
       .notNull()
       .references(() => tenants.id, { onDelete: "cascade" }),
     eventId: text("event_id").notNull(),
+    endpointId: uuid("endpoint_id").references(() => webhookEndpoints.id, {
+      onDelete: "cascade",
+    }),
     url: text("url").notNull(),
     status: text("status").notNull().default("pending"),
     attemptCount: integer("attempt_count").notNull().default(0),
@@ -199,5 +352,63 @@ export const webhookDeliveries = pgTable(
     index("webhook_deliveries_status_idx").on(table.status),
     index("webhook_deliveries_next_attempt_at_idx").on(table.nextAttemptAt),
     index("webhook_deliveries_event_id_idx").on(table.eventId),
+    index("webhook_deliveries_endpoint_id_idx").on(table.endpointId),
+  ]
+);
+
+export const webhookDeliveryAttempts = pgTable(
+  "webhook_delivery_attempts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    deliveryId: uuid("delivery_id")
+      .notNull()
+      .references(() => webhookDeliveries.id, { onDelete: "cascade" }),
+    attemptNumber: integer("attempt_number").notNull(),
+    url: text("url").notNull(),
+    requestHeaders: jsonb("request_headers").$type<Record<string, string>>().notNull().default({}),
+    payloadHash: text("payload_hash").notNull(),
+    success: boolean("success").notNull(),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"),
+    error: text("error"),
+    durationMs: integer("duration_ms").notNull(),
+    attemptedAt: timestamp("attempted_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index("webhook_delivery_attempts_delivery_id_idx").on(table.deliveryId),
+    index("webhook_delivery_attempts_tenant_id_idx").on(table.tenantId),
+  ]
+);
+
+export const webhookReplayJobs = pgTable(
+  "webhook_replay_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    status: text("status").notNull().default("pending"),
+    filtersJson: jsonb("filters_json").$type<Record<string, unknown>>().notNull(),
+    totalDeliveries: integer("total_deliveries").notNull().default(0),
+    processedDeliveries: integer("processed_deliveries").notNull().default(0),
+    enqueuedDeliveries: integer("enqueued_deliveries").notNull().default(0),
+    skippedDeliveries: integer("skipped_deliveries").notNull().default(0),
+    cursorEventId: uuid("cursor_event_id"),
+    cursorEndpointId: uuid("cursor_endpoint_id"),
+    lastError: text("last_error"),
+    requestedByApiKeyId: uuid("requested_by_api_key_id").references(() => apiKeys.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index("webhook_replay_jobs_tenant_id_idx").on(table.tenantId),
+    index("webhook_replay_jobs_status_idx").on(table.status),
   ]
 );
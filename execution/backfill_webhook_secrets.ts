@@ -0,0 +1,113 @@
+import "dotenv/config";
+import { eq, and, isNull } from "drizzle-orm";
+import { db, pool } from "../lib/db";
+import { events, webhookEndpoints } from "../db/schema";
+import { MAX_SECRET_GRACE_PERIOD_HOURS, rotateWebhookSecret } from "../lib/webhooks/secrets";
+
+const GRACE_PERIOD_HOURS = parseInt(
+  process.env.GRACE_PERIOD_HOURS || process.argv[2] || String(MAX_SECRET_GRACE_PERIOD_HOURS),
+  10
+);
+
+/**
+ * Gives every endpoint still signed with the shared `WEBHOOK_SIGNING_SECRET`
+ * its own secret. The shared secret keeps being sent alongside the new one
+ * for the grace period, so each tenant has that long to deploy the secret
+ * printed for its endpoint.
+ */
+async function main() {
+  console.log("============================================================");
+  console.log("ReferralOS Webhook Secret Backfill");
+  console.log("============================================================\n");
+
+  if (
+    !Number.isInteger(GRACE_PERIOD_HOURS) ||
+    GRACE_PERIOD_HOURS < 0 ||
+    GRACE_PERIOD_HOURS > MAX_SECRET_GRACE_PERIOD_HOURS
+  ) {
+    console.error(
+      `Error: GRACE_PERIOD_HOURS must be a whole number from 0 to ${MAX_SECRET_GRACE_PERIOD_HOURS}`
+    );
+    console.error("Usage: GRACE_PERIOD_HOURS=<hours> tsx execution/backfill_webhook_secrets.ts");
+    console.error("   or: tsx execution/backfill_webhook_secrets.ts <hours>");
+    process.exit(1);
+  }
+
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(isNull(webhookEndpoints.secretEncrypted));
+
+  if (endpoints.length === 0) {
+    console.log("Every endpoint already has its own signing secret.");
+    return;
+  }
+
+  console.log(`Endpoints on the shared secret: ${endpoints.length}`);
+  console.log(`Grace period:                   ${GRACE_PERIOD_HOURS} hours\n`);
+
+  let backfilled = 0;
+
+  for (const existing of endpoints) {
+    const rotatedAt = new Date();
+    const rotated = rotateWebhookSecret(existing, GRACE_PERIOD_HOURS, rotatedAt);
+
+    const endpoint = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(webhookEndpoints)
+        .set({
+          secretEncrypted: rotated.encrypted,
+          previousSecretEncrypted: rotated.previousSecretEncrypted,
+          previousSecretExpiresAt: rotated.previousSecretExpiresAt,
+          secretRotatedAt: rotatedAt,
+          updatedAt: rotatedAt,
+        })
+        .where(
+          and(eq(webhookEndpoints.id, existing.id), isNull(webhookEndpoints.secretEncrypted))
+        )
+        .returning();
+
+      if (!updated) {
+        return null;
+      }
+
+      await tx.insert(events).values({
+        tenantId: updated.tenantId,
+        type: "tenant.webhook.secret_rotated",
+        payloadJson: {
+          endpointId: updated.id,
+          gracePeriodHours: GRACE_PERIOD_HOURS,
+          previousSecretExpiresAt: rotated.previousSecretExpiresAt?.toISOString() ?? null,
+          rotatedAt: rotatedAt.toISOString(),
+        },
+      });
+
+      return updated;
+    });
+
+    if (!endpoint) {
+      console.log(`Skipped ${existing.id}: rotated while the backfill ran`);
+      continue;
+    }
+
+    backfilled++;
+    console.log(`Tenant:   ${endpoint.tenantId}`);
+    console.log(`Endpoint: ${endpoint.id} (${endpoint.url})`);
+    console.log(`Secret:   ${rotated.secret}`);
+    console.log(
+      `Shared secret also sent until: ${rotated.previousSecretExpiresAt?.toISOString() ?? "no longer sent"}`
+    );
+    console.log("");
+  }
+
+  console.log(`Backfilled ${backfilled} of ${endpoints.length} endpoints.`);
+  console.log("Hand each secret to its tenant; it is not shown again.");
+  console.log("============================================================");
+}
+
+main()
+  .catch((error) => {
+    console.error("Backfill failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,168 @@
+import "dotenv/config";
+import { db } from "../lib/db";
+import { findDueRewards, expireReward } from "../lib/rewards/expiry";
+import { enqueueWebhookForExistingEvent } from "../lib/webhooks/enqueue";
+import type { LedgerEntryRecord } from "../lib/rewards/expiry";
+
+const POLL_INTERVAL_MS = parseInt(
+  process.env.REWARD_EXPIRY_POLL_MS || "60000",
+  10
+);
+const SINGLE_RUN = process.env.SINGLE_RUN === "true" || process.env.SINGLE_RUN === "1";
+const BATCH_SIZE = parseInt(process.env.REWARD_EXPIRY_BATCH_SIZE || "100", 10);
+
+let isShuttingDown = false;
+
+function log(
+  level: "info" | "warn" | "error",
+  message: string,
+  data?: Record<string, unknown>
+): void {
+  const timestamp = new Date().toISOString();
+  const logData = {
+    timestamp,
+    level,
+    worker: "reward_expiry",
+    message,
+    ...data,
+  };
+  console.log(JSON.stringify(logData));
+}
+
+async function processCredit(credit: LedgerEntryRecord, now: Date): Promise<boolean> {
+  const result = await db.transaction((tx) => expireReward(tx, credit, now));
+
+  if (!result) {
+    log("info", "Credit already expired or reversed", { ledgerEntryId: credit.id });
+    return false;
+  }
+
+  log("info", "Reward expired", {
+    ledgerEntryId: credit.id,
+    tenantId: credit.tenantId,
+    eventId: credit.eventId,
+    amount: result.expired.amount,
+    originalAmount: result.expired.originalAmount,
+  });
+
+  try {
+    await enqueueWebhookForExistingEvent(credit.tenantId, result.webhookEventId);
+  } catch (error) {
+    log("warn", "Failed to enqueue reward.expired webhook", {
+      eventId: result.webhookEventId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Expires every credit that is due as of now, one batch at a time. Returns
+ * the number of credits expired.
+ */
+async function processDueRewards(): Promise<number> {
+  const now = new Date();
+  let expiredCount = 0;
+
+  while (!isShuttingDown) {
+    const due = await findDueRewards(db, { now, limit: BATCH_SIZE });
+
+    if (due.length === 0) {
+      break;
+    }
+
+    log("info", "Found due rewards", { count: due.length });
+
+    let progressed = false;
+    for (const credit of due) {
+      if (isShuttingDown) {
+        log("info", "Shutdown requested, stopping processing");
+        break;
+      }
+
+      try {
+        if (await processCredit(credit, now)) {
+          expiredCount++;
+          progressed = true;
+        }
+      } catch (error) {
+        log("error", "Failed to expire reward", {
+          ledgerEntryId: credit.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    if (!progressed || due.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return expiredCount;
+}
+
+function setupGracefulShutdown(): void {
+  const shutdown = (signal: string) => {
+    log("info", "Received shutdown signal", { signal });
+    isShuttingDown = true;
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+async function runWorkerLoop(): Promise<void> {
+  setupGracefulShutdown();
+
+  log("info", "Reward expiry worker started", {
+    pollInterval: POLL_INTERVAL_MS,
+    singleRun: SINGLE_RUN,
+    batchSize: BATCH_SIZE,
+  });
+
+  while (!isShuttingDown) {
+    try {
+      const expiredCount = await processDueRewards();
+
+      if (expiredCount > 0) {
+        log("info", "Expired rewards", { count: expiredCount });
+      }
+
+      if (SINGLE_RUN) {
+        log("info", "Single run mode, exiting");
+        break;
+      }
+
+      if (!isShuttingDown) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    } catch (error) {
+      log("error", "Worker loop error", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+
+      if (SINGLE_RUN) {
+        break;
+      }
+
+      if (!isShuttingDown) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    }
+  }
+
+  log("info", "Worker loop exiting gracefully");
+}
+
+runWorkerLoop()
+  .then(() => {
+    log("info", "Reward expiry worker stopped");
+    process.exit(0);
+  })
+  .catch((error) => {
+    log("error", "Reward expiry worker crashed", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    process.exit(1);
+  });
@@ -82,37 +82,53 @@ async function seed(config: SeedConfig): Promise<void> {
             codePrefix: "QOS",
             maxReferralsPerUser: 100,
           },
-          webhookUrl: null,
         })
         .returning();
       tenantId = newTenant.id;
       console.log(`Created tenant "${config.tenantSlug}" (id: ${tenantId})`);
     }
 
+    const plansData = [
+      { tenantId, key: "free", displayName: "Free", rank: 0, referralRewardAmount: 100 },
+      { tenantId, key: "pro", displayName: "Pro", rank: 1, referralRewardAmount: 200 },
+      { tenantId, key: "power_pro", displayName: "Power Pro", rank: 2, referralRewardAmount: 300 },
+    ];
+
+    const createdPlans = await db
+      .insert(schema.tenantPlans)
+      .values(plansData)
+      .onConflictDoNothing()
+      .returning({ key: schema.tenantPlans.key });
+    console.log(
+      createdPlans.length > 0
+        ? `Created plans: ${createdPlans.map((plan) => plan.key).join(", ")}`
+        : "Plans already exist"
+    );
+
     const rewardRulesData = [
       {
         tenantId,
         ruleKey: "onboarding_bonus",
         enabled: true,
-        conditionJson: { trigger: "user_signup" },
+        conditionJson: { eventType: "referral.claimed" },
         rewardReferrerJson: null,
-        rewardReferredJson: { type: "bonus_scans", amount: 1 },
+        rewardReferredJson: { type: "points", points: 1, description: "Bonus scans" },
       },
       {
         tenantId,
         ruleKey: "referral_free_referrer",
         enabled: true,
         conditionJson: { referrerPlan: ["free"] },
-        rewardReferrerJson: { type: "bonus_scans", amount: 5 },
-        rewardReferredJson: { type: "bonus_scans", amount: 5 },
+        rewardReferrerJson: { type: "points", points: 5, description: "Bonus scans" },
+        rewardReferredJson: { type: "points", points: 5, description: "Bonus scans" },
       },
       {
         tenantId,
         ruleKey: "referral_pro_referrer",
         enabled: true,
         conditionJson: { referrerPlan: ["pro", "power_pro"] },
-        rewardReferrerJson: { type: "free_months", amount: 1 },
-        rewardReferredJson: { type: "free_months", amount: 1 },
+        rewardReferrerJson: { type: "subscription_extension", duration: 1, durationUnit: "month" },
+        rewardReferredJson: { type: "subscription_extension", duration: 1, durationUnit: "month" },
       },
     ];
 
@@ -1,4 +1,15 @@
 import crypto from "crypto";
+import { matchesCondition } from "../lib/rewards/rules";
+import type { RuleEvaluationContext } from "../lib/rewards/rules";
+import { calculateMilestoneRewards } from "../lib/rewards/engine";
+import type { CalculateRewardsInput } from "../lib/rewards/engine";
+import { formatMinorUnits, toMajorUnits } from "../lib/rewards/currency";
+import {
+  ReferralCodeFormatSchema,
+  generateFormattedCode,
+  hasValidChecksum,
+} from "../lib/referrals/format";
+import { normalizeEmail } from "../lib/fraud/email";
 
 const BASE_URL = process.env.REFERRALOS_BASE_URL || "http://localhost:3000";
 const API_KEY = process.env.REFERRALOS_TEST_API_KEY;
@@ -72,6 +83,234 @@ async function testHealthEndpoint(): Promise<void> {
   log("✓ Health endpoint passed", json);
 }
 
+async function testRuleConditionMatching(): Promise<void> {
+  log("Testing reward rule condition matching...");
+  const claimed: RuleEvaluationContext = {
+    eventType: "referral.claimed",
+    referrerPlan: "pro",
+    referredPlan: "free",
+    referralCount: 2,
+    occurredAt: new Date("2025-06-01T00:00:00.000Z"),
+  };
+
+  assert(
+    !matchesCondition({ trigger: "user_signup" }, claimed),
+    "A legacy trigger condition should never match"
+  );
+  assert(
+    !matchesCondition({ eventType: "referral.claimed", trigger: "user_signup" }, claimed),
+    "A condition with an unknown key should not match even if the rest does"
+  );
+  assert(
+    matchesCondition({ eventType: "referral.claimed" }, claimed),
+    "An eventType condition should match its event"
+  );
+  assert(
+    !matchesCondition({}, claimed) &&
+      matchesCondition({}, { ...claimed, eventType: "referral.converted" }),
+    "An empty condition should match conversions only"
+  );
+  assert(
+    matchesCondition(
+      { eventType: "referral.claimed", referrerPlan: ["Pro", "power_pro"] },
+      claimed
+    ),
+    "Plan lists should match case-insensitively"
+  );
+  assert(
+    !matchesCondition({ eventType: "referral.claimed", minReferralCount: 3 }, claimed) &&
+      matchesCondition({ eventType: "referral.claimed", maxReferralCount: 2 }, claimed),
+    "Referral count bounds should be inclusive"
+  );
+  assert(
+    !matchesCondition(
+      { eventType: "referral.claimed", endsAt: "2025-05-31T00:00:00.000Z" },
+      claimed
+    ),
+    "A condition that has ended should not match"
+  );
+
+  const legacyRuleResponse = await makeRequest("POST", "/api/v1/tenant/rules", {
+    ruleKey: `smoke_legacy_${generateTestId()}`,
+    conditionJson: { trigger: "user_signup" },
+    rewardReferredJson: { type: "credit", amount: 100 },
+  });
+
+  assert(legacyRuleResponse.ok === false, "A rule with a legacy trigger should be rejected");
+  assert(
+    legacyRuleResponse.error?.code === "INVALID_REQUEST",
+    "Error code should be INVALID_REQUEST"
+  );
+  log("✓ Reward rule condition matching passed");
+}
+
+async function testMilestoneMatching(): Promise<void> {
+  log("Testing milestone rewards...");
+  const input: CalculateRewardsInput = {
+    referralId: crypto.randomUUID(),
+    referrerUserId: crypto.randomUUID(),
+    referrerExternalUserId: "smoke_milestone_referrer",
+    referrerTier: "free",
+    referredUserId: crypto.randomUUID(),
+    referredExternalUserId: "smoke_milestone_referred",
+    tenantRewardSettings: null,
+    referralCount: 5,
+    rules: [
+      {
+        ruleKey: "fifth_credit",
+        conditionJson: { milestone: 5 },
+        rewardReferrerJson: { amount: 500 },
+        rewardReferredJson: null,
+      },
+      {
+        ruleKey: "fifth_points",
+        conditionJson: { milestone: 5 },
+        rewardReferrerJson: { type: "points", points: 50 },
+        rewardReferredJson: null,
+      },
+      {
+        ruleKey: "tenth_credit",
+        conditionJson: { milestone: 10 },
+        rewardReferrerJson: { amount: 1000 },
+        rewardReferredJson: null,
+      },
+    ],
+  };
+
+  const reached = calculateMilestoneRewards(input);
+  assert(
+    reached.map((milestone) => milestone.ruleKey).join(",") === "fifth_credit,fifth_points",
+    "Only milestones the referral count has reached should pay"
+  );
+  assert(
+    new Set(reached.map((milestone) => milestone.entry.eventId)).size === 2,
+    "Two rules at the same milestone should get distinct event ids"
+  );
+
+  const campaignId = crypto.randomUUID();
+  const [campaignMilestone] = calculateMilestoneRewards({ ...input, campaignId });
+  assert(
+    campaignMilestone.entry.eventId.includes(campaignId) &&
+      campaignMilestone.entry.eventId !== reached[0].entry.eventId,
+    "A campaign milestone should not share the event id of the tenant-wide one"
+  );
+
+  assert(
+    calculateMilestoneRewards({ ...input, referralCount: 4 }).length === 0,
+    "No milestone should pay below its count"
+  );
+  log("✓ Milestone rewards passed", reached.map((milestone) => milestone.entry.eventId));
+}
+
+async function testCurrencyFormatting(): Promise<void> {
+  log("Testing minor-unit currency formatting...");
+  assert(formatMinorUnits(1000, "JPY") === "¥1,000", "JPY has no minor units");
+  assert(formatMinorUnits(1050, "USD") === "$10.5", "USD has two minor-unit digits");
+  assert(formatMinorUnits(0, "USD") === "$0", "Zero should format without decimals");
+  assert(
+    toMajorUnits(1234, "KWD") === 1.234 && formatMinorUnits(1234, "KWD").endsWith("1.234"),
+    "KWD has three minor-unit digits"
+  );
+  log("✓ Minor-unit currency formatting passed");
+}
+
+async function testReferralCodeFormat(): Promise<void> {
+  log("Testing referral code formats...");
+  const format = ReferralCodeFormatSchema.parse({ checksum: true });
+  const code = generateFormattedCode(format);
+
+  assert(
+    code.startsWith("ref_") && code.length === "ref_".length + format.length + 1,
+    "A checksummed code should be the prefix, the body and one check character"
+  );
+  assert(hasValidChecksum(code, format), "A generated code should pass its checksum");
+
+  const body = code.slice(0, -1);
+  const mistyped = `${body}${code.endsWith("A") ? "B" : "A"}`;
+  assert(!hasValidChecksum(mistyped, format), "A wrong check character should fail");
+  assert(hasValidChecksum("MYCODE", format), "Codes without the prefix should not be checked");
+
+  const words = ReferralCodeFormatSchema.parse({ style: "words", checksum: true });
+  const wordCode = generateFormattedCode(words);
+  assert(
+    /^ref_[a-z]+-[a-z]+-\d{3}$/.test(wordCode) && hasValidChecksum(wordCode, words),
+    "A word code should end in two digits and a check digit"
+  );
+
+  assert(
+    !ReferralCodeFormatSchema.safeParse({ alphabet: "numeric", length: 4 }).success,
+    "Formats with too few possible codes should be rejected"
+  );
+  log("✓ Referral code formats passed", { code, wordCode });
+}
+
+async function testEmailNormalization(): Promise<void> {
+  log("Testing email normalization...");
+  assert(
+    normalizeEmail("John.Doe+promo@GoogleMail.com") === "johndoe@gmail.com",
+    "Gmail addresses should drop dots and tags and use gmail.com"
+  );
+  assert(
+    normalizeEmail(" Jane.Doe+news@Example.com ") === "jane.doe@example.com",
+    "Other addresses should only be lowercased and drop their tag"
+  );
+  assert(
+    normalizeEmail("not-an-email") === null && normalizeEmail("+tag@example.com") === null,
+    "Addresses without a mailbox should not normalize"
+  );
+  log("✓ Email normalization passed");
+}
+
+async function testRuleSimulation(): Promise<void> {
+  log("Testing reward rule simulation...");
+  const simulateResponse = await makeRequest<{
+    ruleKey: string | null;
+    milestones: Array<{ milestone: number; ruleKey: string }>;
+    entries: Array<{ recipient: string; source: string; ruleKey: string | null }>;
+  }>("POST", "/api/v1/tenant/rules/simulate", {
+    eventType: "referral.claimed",
+    referrerPlan: "free",
+    referralCount: 5,
+    rules: [
+      {
+        ruleKey: "signup_bonus",
+        conditionJson: { eventType: "referral.claimed" },
+        rewardReferredJson: { amount: 100 },
+      },
+      {
+        ruleKey: "fifth_credit",
+        conditionJson: { eventType: "referral.claimed", milestone: 5 },
+        rewardReferrerJson: { amount: 500 },
+      },
+      {
+        ruleKey: "fifth_points",
+        conditionJson: { eventType: "referral.claimed", milestone: 5 },
+        rewardReferrerJson: { type: "points", points: 50 },
+      },
+    ],
+  });
+
+  assert(simulateResponse.ok === true, "Simulating proposed rules should succeed");
+  assert(
+    simulateResponse.data?.ruleKey === "signup_bonus",
+    "The claimed-event rule should match a simulated claim"
+  );
+  assert(
+    simulateResponse.data?.milestones.length === 2 &&
+      simulateResponse.data.entries.filter((entry) => entry.source === "milestone_bonus")
+        .length === 2,
+    "Both rules at the same milestone should pay"
+  );
+
+  const legacyResponse = await makeRequest("POST", "/api/v1/tenant/rules/simulate", {
+    referrerPlan: "free",
+    rules: [{ ruleKey: "legacy", conditionJson: { trigger: "user_signup" } }],
+  });
+
+  assert(legacyResponse.ok === false, "Simulating a legacy trigger rule should be rejected");
+  log("✓ Reward rule simulation passed", simulateResponse.data);
+}
+
 async function testUserUpsert(): Promise<{
   referrerExternalId: string;
   referrerReferralCode: string;
@@ -134,6 +373,86 @@ async function testUserUpsert(): Promise<{
   assert(updateResponse.data?.user.plan === "power_pro", "Plan should be updated to power_pro");
   log("✓ User upsert (update) passed", updateResponse.data);
 
+  log("Testing user upsert with unknown plan...");
+  const unknownPlanResponse = await makeRequest("POST", "/api/v1/users/upsert", {
+    externalUserId: referrerExternalId,
+    subscriptionTier: "not_a_plan",
+  });
+
+  assert(unknownPlanResponse.ok === false, "Upsert with unknown plan should fail");
+  assert(
+    unknownPlanResponse.error?.code === "UNKNOWN_PLAN",
+    "Unknown plan should return UNKNOWN_PLAN"
+  );
+  log("✓ Unknown plan rejected", unknownPlanResponse.error);
+
+  log("Testing custom referral code...");
+  const reservedCodeResponse = await makeRequest(
+    "PUT",
+    `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-code`,
+    { referralCode: "ref_custom" }
+  );
+
+  assert(reservedCodeResponse.ok === false, "Custom code with reserved prefix should fail");
+  assert(
+    reservedCodeResponse.error?.code === "INVALID_REQUEST",
+    "Reserved prefix should return INVALID_REQUEST"
+  );
+
+  const vanityCode = `VIP${testId.replace(/[^A-Za-z0-9]/g, "").slice(-12).toUpperCase()}`;
+  const vanityResponse = await makeRequest<{
+    user: { referralCode: string };
+    previousReferralCode: string;
+    changed: boolean;
+  }>("PUT", `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-code`, {
+    referralCode: vanityCode,
+  });
+
+  assert(vanityResponse.ok === true, "Setting a custom referral code should succeed");
+  assert(vanityResponse.data?.user.referralCode === vanityCode, "Custom code should be active");
+  assert(
+    vanityResponse.data?.previousReferralCode === referrerReferralCode,
+    "Previous code should be returned"
+  );
+  log("✓ Custom referral code set; the previous code is claimed below", vanityResponse.data);
+
+  log("Testing channel referral codes...");
+  const channelCodeResponse = await makeRequest<{
+    referralCode: { code: string; channel: string | null; primary: boolean };
+  }>("POST", `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-codes`, {
+    channel: "Newsletter",
+  });
+
+  assert(channelCodeResponse.ok === true, "Adding a channel code should succeed");
+  assert(
+    channelCodeResponse.data?.referralCode.channel === "newsletter",
+    "Channel should be normalized to lowercase"
+  );
+  assert(channelCodeResponse.data?.referralCode.primary === false, "Channel code should not be primary");
+
+  const codesResponse = await makeRequest<{
+    referralCodes: Array<{ code: string; primary: boolean; active: boolean }>;
+  }>("GET", `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-codes`);
+
+  assert(codesResponse.ok === true, "Listing referral codes should succeed");
+  assert(codesResponse.data?.referralCodes.length === 3, "User should hold three codes");
+  assert(
+    codesResponse.data?.referralCodes.find((code) => code.primary)?.code === vanityCode,
+    "Custom code should be primary"
+  );
+
+  const deactivatePrimaryResponse = await makeRequest(
+    "PUT",
+    `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-codes/${vanityCode}`,
+    { active: false }
+  );
+
+  assert(
+    deactivatePrimaryResponse.error?.code === "PRIMARY_REFERRAL_CODE",
+    "Deactivating the primary code should return PRIMARY_REFERRAL_CODE"
+  );
+  log("✓ Channel referral codes passed", codesResponse.data);
+
   return {
     referrerExternalId,
     referrerReferralCode,
@@ -144,7 +463,7 @@ async function testUserUpsert(): Promise<{
 async function testReferralClaim(
   referrerReferralCode: string,
   referredExternalId: string
-): Promise<void> {
+): Promise<string> {
   log("Testing referral claim...");
   const claimResponse = await makeRequest<{
     referral: {
@@ -154,10 +473,6 @@ async function testReferralClaim(
       refCodeUsed: string;
       status: string;
     };
-    rewards: {
-      referrerReward: { amount: number; currency: string } | null;
-      referredReward: { amount: number; currency: string } | null;
-    };
     alreadyProcessed: boolean;
   }>("POST", "/api/v1/referrals/claim", {
     referralCode: referrerReferralCode,
@@ -174,7 +489,7 @@ async function testReferralClaim(
     claimResponse.data?.referral.referredExternalUserId === referredExternalId,
     "Referred user ID should match"
   );
-  assert(claimResponse.data?.referral.status === "completed", "Referral status should be completed");
+  assert(claimResponse.data?.referral.status === "pending", "Referral status should be pending");
   log("✓ Referral claim passed", claimResponse.data);
 
   log("Testing referral claim idempotency...");
@@ -194,6 +509,161 @@ async function testReferralClaim(
     "Should be marked as already processed"
   );
   log("✓ Referral claim idempotency passed", idempotentResponse.data);
+
+  return claimResponse.data!.referral.id;
+}
+
+async function testReferralConvert(referralId: string): Promise<void> {
+  log("Testing referral conversion...");
+  const convertResponse = await makeRequest<{
+    referral: {
+      id: string;
+      status: string;
+      completedAt: string | null;
+    };
+    rewards: {
+      referrerReward: { amount: number; currency: string } | null;
+      referredReward: { amount: number; currency: string } | null;
+    };
+    alreadyProcessed: boolean;
+  }>("POST", `/api/v1/referrals/${referralId}/convert`);
+
+  assert(convertResponse.ok === true, "Referral conversion should succeed");
+  assert(convertResponse.data?.alreadyProcessed === false, "Should not be already processed");
+  assert(convertResponse.data?.referral.status === "completed", "Referral status should be completed");
+  assert(!!convertResponse.data?.referral.completedAt, "Referral should have completedAt");
+  log("✓ Referral conversion passed", convertResponse.data);
+
+  log("Testing referral conversion idempotency...");
+  const idempotentResponse = await makeRequest<{
+    alreadyProcessed: boolean;
+  }>("POST", `/api/v1/referrals/${referralId}/convert`);
+
+  assert(idempotentResponse.ok === true, "Idempotent conversion should succeed");
+  assert(
+    idempotentResponse.data?.alreadyProcessed === true,
+    "Should be marked as already processed"
+  );
+  log("✓ Referral conversion idempotency passed", idempotentResponse.data);
+}
+
+async function testRewardRedemption(referrerExternalId: string): Promise<void> {
+  log("Testing reward balance...");
+  const balanceResponse = await makeRequest<{
+    externalUserId: string;
+    balances: Array<{ currency: string; credited: number; debited: number; available: number }>;
+  }>("GET", `/api/v1/rewards/balance?externalUserId=${encodeURIComponent(referrerExternalId)}`);
+
+  assert(balanceResponse.ok === true, "Balance request should succeed");
+  log("✓ Reward balance passed", balanceResponse.data);
+
+  const balance = balanceResponse.data?.balances.find((entry) => entry.available > 0);
+  if (!balance) {
+    log("No positive balance to redeem, skipping redemption test");
+    return;
+  }
+
+  log("Testing overdraw prevention...");
+  const overdrawResponse = await makeRequest<unknown>("POST", "/api/v1/rewards/redeem", {
+    externalUserId: referrerExternalId,
+    redemptionId: `smoke_overdraw_${generateTestId()}`,
+    amount: balance.available + 1,
+    currency: balance.currency,
+  });
+
+  assert(overdrawResponse.ok === false, "Overdraw should fail");
+  assert(
+    overdrawResponse.error?.code === "INSUFFICIENT_BALANCE",
+    "Error code should be INSUFFICIENT_BALANCE"
+  );
+  log("✓ Overdraw prevention passed", overdrawResponse.error);
+
+  log("Testing unknown currency rejection...");
+  const unknownCurrencyResponse = await makeRequest<unknown>("POST", "/api/v1/rewards/redeem", {
+    externalUserId: referrerExternalId,
+    redemptionId: `smoke_currency_${generateTestId()}`,
+    amount: 1,
+    currency: "XYZ",
+  });
+
+  assert(unknownCurrencyResponse.ok === false, "Unknown currency should be rejected");
+  assert(
+    unknownCurrencyResponse.error?.code === "INVALID_REQUEST",
+    "Unknown currency should return INVALID_REQUEST"
+  );
+  log("✓ Unknown currency rejected", unknownCurrencyResponse.error);
+
+  log("Testing reward redemption...");
+  const redemptionId = `smoke_redeem_${generateTestId()}`;
+  const redeemBody = {
+    externalUserId: referrerExternalId,
+    redemptionId,
+    amount: 1,
+    currency: balance.currency,
+  };
+  const redeemResponse = await makeRequest<{
+    balance: { currency: string; available: number };
+    alreadyProcessed: boolean;
+  }>("POST", "/api/v1/rewards/redeem", redeemBody);
+
+  assert(redeemResponse.ok === true, "Redemption should succeed");
+  assert(
+    redeemResponse.data?.balance.available === balance.available - 1,
+    "Balance should be debited by the redeemed amount"
+  );
+  log("✓ Reward redemption passed", redeemResponse.data);
+
+  const idempotentResponse = await makeRequest<{
+    alreadyProcessed: boolean;
+  }>("POST", "/api/v1/rewards/redeem", redeemBody);
+
+  assert(idempotentResponse.ok === true, "Idempotent redemption should succeed");
+  assert(
+    idempotentResponse.data?.alreadyProcessed === true,
+    "Should be marked as already processed"
+  );
+  log("✓ Reward redemption idempotency passed", idempotentResponse.data);
+}
+
+async function testReferralReverse(referralId: string): Promise<void> {
+  log("Testing referral reversal...");
+  const reverseResponse = await makeRequest<{
+    referral: { id: string; status: string; reversalReason: string | null };
+    reversedRewards: Array<{ reversesEventId: string; amount: number; currency: string }>;
+    alreadyProcessed: boolean;
+  }>("POST", `/api/v1/referrals/${referralId}/reverse`, { reason: "Smoke test refund" });
+
+  assert(reverseResponse.ok === true, "Referral reversal should succeed");
+  assert(reverseResponse.data?.referral.status === "reversed", "Referral status should be reversed");
+  assert(reverseResponse.data?.alreadyProcessed === false, "Should not be already processed");
+  log("✓ Referral reversal passed", reverseResponse.data);
+
+  const idempotentResponse = await makeRequest<{
+    reversedRewards: unknown[];
+    alreadyProcessed: boolean;
+  }>("POST", `/api/v1/referrals/${referralId}/reverse`, { reason: "Smoke test refund" });
+
+  assert(idempotentResponse.ok === true, "Idempotent reversal should succeed");
+  assert(
+    idempotentResponse.data?.alreadyProcessed === true,
+    "Should be marked as already processed"
+  );
+  assert(
+    idempotentResponse.data?.reversedRewards.length === 0,
+    "Repeated reversal should not write more ledger rows"
+  );
+  log("✓ Referral reversal idempotency passed", idempotentResponse.data);
+
+  const convertResponse = await makeRequest<unknown>(
+    "POST",
+    `/api/v1/referrals/${referralId}/convert`
+  );
+  assert(convertResponse.ok === false, "Converting a reversed referral should fail");
+  assert(
+    convertResponse.error?.code === "REFERRAL_NOT_CONVERTIBLE",
+    "Error code should be REFERRAL_NOT_CONVERTIBLE"
+  );
+  log("✓ Reversed referral conversion rejected", convertResponse.error);
 }
 
 async function testSelfReferral(
@@ -229,6 +699,39 @@ async function testInvalidReferralCode(): Promise<void> {
   log("✓ Invalid referral code test passed", invalidCodeResponse.error);
 }
 
+async function testDuplicateFingerprint(referrerReferralCode: string): Promise<void> {
+  log("Testing duplicate device fingerprint...");
+  const clientContext = {
+    fingerprint: `smoke_fp_${generateTestId()}`,
+    userAgent: "ReferralOS smoke test",
+  };
+
+  const firstResponse = await makeRequest<{ referral: { id: string } }>(
+    "POST",
+    "/api/v1/referrals/claim",
+    {
+      referralCode: referrerReferralCode,
+      referredUserId: `smoke_fp_${generateTestId()}`,
+      clientContext,
+    }
+  );
+
+  assert(firstResponse.ok === true, "First claim from a device should succeed");
+
+  const secondResponse = await makeRequest<unknown>("POST", "/api/v1/referrals/claim", {
+    referralCode: referrerReferralCode,
+    referredUserId: `smoke_fp_${generateTestId()}`,
+    clientContext,
+  });
+
+  assert(secondResponse.ok === false, "Second claim from the same device should fail");
+  assert(
+    secondResponse.error?.code === "DUPLICATE_FINGERPRINT",
+    "Error code should be DUPLICATE_FINGERPRINT"
+  );
+  log("✓ Duplicate device fingerprint test passed", secondResponse.error);
+}
+
 async function testReferralStats(referrerExternalId: string): Promise<void> {
   log("Testing referral stats...");
   const statsResponse = await makeRequest<{
@@ -244,6 +747,7 @@ async function testReferralStats(referrerExternalId: string): Promise<void> {
       pendingReferrals: number;
       totalRewardsEarned: number;
       currency: string;
+      rewardsEarnedByCurrency: Array<{ currency: string; amount: number }>;
     };
   }>("GET", `/api/v1/referrals/stats?externalUserId=${encodeURIComponent(referrerExternalId)}`);
 
@@ -260,6 +764,11 @@ async function testReferralStats(referrerExternalId: string): Promise<void> {
     (statsResponse.data?.stats.completedReferrals ?? 0) >= 1,
     "Should have at least 1 completed referral"
   );
+  const currencies = statsResponse.data?.stats.rewardsEarnedByCurrency.map((t) => t.currency) ?? [];
+  assert(
+    new Set(currencies).size === currencies.length,
+    "Rewards should be grouped with one total per currency"
+  );
   log("✓ Referral stats passed", statsResponse.data);
 }
 
@@ -302,6 +811,142 @@ async function testInvalidApiKey(): Promise<void> {
   log("✓ Invalid API key test passed", json.error);
 }
 
+async function testCampaignAttribution(referrerExternalId: string): Promise<void> {
+  log("Testing campaign attribution...");
+  const campaignResponse = await makeRequest<{
+    campaign: { id: string; key: string; active: boolean };
+  }>("POST", "/api/v1/tenant/campaigns", {
+    key: `smoke-${generateTestId()}`,
+    name: "Smoke test campaign",
+    perReferrerCap: 1,
+  });
+
+  assert(campaignResponse.ok === true, "Creating a campaign should succeed");
+  assert(campaignResponse.data?.campaign.active === true, "Campaign without a window should be active");
+  const campaignId = campaignResponse.data!.campaign.id;
+
+  const codeResponse = await makeRequest<{
+    referralCode: { code: string; campaignId: string | null };
+  }>("POST", `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-codes`, {
+    campaignId,
+  });
+
+  assert(codeResponse.ok === true, "Adding a campaign code should succeed");
+  assert(codeResponse.data?.referralCode.campaignId === campaignId, "Code should carry the campaignId");
+  const campaignCode = codeResponse.data!.referralCode.code;
+
+  const claimResponse = await makeRequest<{
+    referral: { campaignId: string | null };
+  }>("POST", "/api/v1/referrals/claim", {
+    referralCode: campaignCode,
+    referredUserId: `smoke_campaign_${generateTestId()}`,
+  });
+
+  assert(claimResponse.ok === true, "Campaign claim should succeed");
+  assert(
+    claimResponse.data?.referral.campaignId === campaignId,
+    "Claim should be attributed to the campaign"
+  );
+
+  const cappedResponse = await makeRequest("POST", "/api/v1/referrals/claim", {
+    referralCode: campaignCode,
+    referredUserId: `smoke_campaign_${generateTestId()}`,
+  });
+
+  assert(
+    cappedResponse.error?.code === "REFERRAL_CAP_REACHED",
+    "Claims past the campaign's per-referrer cap should return REFERRAL_CAP_REACHED"
+  );
+  log("✓ Campaign attribution passed", claimResponse.data);
+}
+
+async function testCampaignBudget(referrerExternalId: string): Promise<void> {
+  log("Testing campaign reward budget...");
+  const campaignResponse = await makeRequest<{ campaign: { id: string } }>(
+    "POST",
+    "/api/v1/tenant/campaigns",
+    {
+      key: `smoke-budget-${generateTestId()}`,
+      name: "Smoke test budget",
+      budgetAmount: 100,
+      budgetCurrency: "USD",
+    }
+  );
+
+  assert(campaignResponse.ok === true, "Creating a budgeted campaign should succeed");
+  const campaignId = campaignResponse.data!.campaign.id;
+
+  const ruleResponse = await makeRequest("POST", "/api/v1/tenant/rules", {
+    ruleKey: `smoke_budget_${generateTestId()}`,
+    campaignId,
+    conditionJson: { eventType: "referral.converted" },
+    rewardReferrerJson: { type: "credit", amount: 500, currency: "USD" },
+  });
+
+  assert(ruleResponse.ok === true, "Creating a campaign rule should succeed");
+
+  const codeResponse = await makeRequest<{ referralCode: { code: string } }>(
+    "POST",
+    `/api/v1/users/${encodeURIComponent(referrerExternalId)}/referral-codes`,
+    { campaignId }
+  );
+
+  assert(codeResponse.ok === true, "Adding a campaign code should succeed");
+
+  const claimResponse = await makeRequest<{ referral: { id: string } }>(
+    "POST",
+    "/api/v1/referrals/claim",
+    {
+      referralCode: codeResponse.data!.referralCode.code,
+      referredUserId: `smoke_budget_${generateTestId()}`,
+    }
+  );
+
+  assert(claimResponse.ok === true, "Campaign claim should succeed");
+
+  const convertResponse = await makeRequest<{
+    referral: { status: string };
+    rewards: { referrerReward: unknown };
+  }>("POST", `/api/v1/referrals/${claimResponse.data!.referral.id}/convert`);
+
+  assert(convertResponse.ok === true, "Converting past the budget should still succeed");
+  assert(
+    convertResponse.data?.referral.status === "completed_unrewarded",
+    "A conversion past the budget should be completed_unrewarded"
+  );
+  assert(
+    convertResponse.data?.rewards.referrerReward === null,
+    "No reward should be granted past the budget"
+  );
+  log("✓ Campaign reward budget passed", convertResponse.data);
+}
+
+async function testReviewQueue(referralId: string): Promise<void> {
+  log("Testing referral review queue...");
+  const listResponse = await makeRequest<{
+    referrals: Array<{ id: string; status: string; fraudScore: number }>;
+    total: number;
+  }>("GET", "/api/v1/admin/referrals?status=held_for_review");
+
+  assert(listResponse.ok === true, "Listing the review queue should succeed");
+  assert(
+    listResponse.data!.referrals.every((referral) => referral.status === "held_for_review"),
+    "The review queue should only list held referrals"
+  );
+
+  const approveResponse = await makeRequest(
+    "POST",
+    `/api/v1/admin/referrals/${referralId}/approve`
+  );
+
+  assert(approveResponse.ok === false, "Approving a referral that is not held should fail");
+  assert(
+    approveResponse.error?.code === "REFERRAL_NOT_HELD",
+    "Error code should be REFERRAL_NOT_HELD"
+  );
+  log("✓ Referral review queue passed", { held: listResponse.data!.total });
+}
+
 async function runSmokeTests(): Promise<void> {
   console.log("=".repeat(60));
   console.log("ReferralOS Core API Smoke Tests");
@@ -317,11 +962,32 @@ async function runSmokeTests(): Promise<void> {
     await testInvalidApiKey();
     console.log("");
 
+    await testRuleConditionMatching();
+    console.log("");
+
+    await testMilestoneMatching();
+    console.log("");
+
+    await testCurrencyFormatting();
+    console.log("");
+
+    await testReferralCodeFormat();
+    console.log("");
+
+    await testEmailNormalization();
+    console.log("");
+
+    await testRuleSimulation();
+    console.log("");
+
     const { referrerExternalId, referrerReferralCode, referredExternalId } =
       await testUserUpsert();
     console.log("");
 
-    await testReferralClaim(referrerReferralCode, referredExternalId);
+    const referralId = await testReferralClaim(referrerReferralCode, referredExternalId);
+    console.log("");
+
+    await testReferralConvert(referralId);
     console.log("");
 
     await testSelfReferral(referrerExternalId, referrerReferralCode);
@@ -330,9 +996,27 @@ async function runSmokeTests(): Promise<void> {
     await testInvalidReferralCode();
     console.log("");
 
+    await testDuplicateFingerprint(referrerReferralCode);
+    console.log("");
+
     await testReferralStats(referrerExternalId);
     console.log("");
 
+    await testRewardRedemption(referrerExternalId);
+    console.log("");
+
+    await testReferralReverse(referralId);
+    console.log("");
+
+    await testReviewQueue(referralId);
+    console.log("");
+
+    await testCampaignAttribution(referrerExternalId);
+    console.log("");
+
+    await testCampaignBudget(referrerExternalId);
+    console.log("");
+
     console.log("=".repeat(60));
     console.log("✓ ALL SMOKE TESTS PASSED");
     console.log("=".repeat(60));
@@ -1,4 +1,5 @@
 import "dotenv/config";
+import crypto from "crypto";
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
 const API_KEY = process.env.SMOKE_TEST_API_KEY;
@@ -56,39 +57,111 @@ async function apiRequest(
   return { status: response.status, data };
 }
 
-async function testGetWebhookConfig(): Promise<void> {
+const RECEIVER_URL = `${BASE_URL}/api/v1/dev/webhook-receiver`;
+
+async function createEndpoint(eventTypes: string[] = ["*"]): Promise<string> {
+  const { status, data } = await apiRequest("POST", "/api/v1/tenant/webhook", {
+    url: RECEIVER_URL,
+    description: "Smoke test receiver",
+    eventTypes,
+  });
+
+  if (status !== 201) {
+    throw new Error(`Expected 201, got ${status}: ${JSON.stringify(data)}`);
+  }
+
+  const response = data as { data?: { endpoint?: { id?: string } } };
+  if (!response.data?.endpoint?.id) {
+    throw new Error("Response missing endpoint id");
+  }
+  return response.data.endpoint.id;
+}
+
+async function deleteAllEndpoints(): Promise<void> {
+  const { data } = await apiRequest("GET", "/api/v1/tenant/webhook");
+  const response = data as { data?: { endpoints?: Array<{ id: string }> } };
+  for (const endpoint of response.data?.endpoints ?? []) {
+    await apiRequest("DELETE", `/api/v1/tenant/webhook/${endpoint.id}`);
+  }
+}
+
+async function testListWebhookEndpoints(): Promise<void> {
   const { status, data } = await apiRequest("GET", "/api/v1/tenant/webhook");
 
   if (status !== 200) {
     throw new Error(`Expected 200, got ${status}: ${JSON.stringify(data)}`);
   }
 
-  const response = data as { data?: { tenant?: { id?: string } } };
-  if (!response.data?.tenant?.id) {
-    throw new Error("Response missing tenant data");
+  const response = data as { data?: { endpoints?: unknown[] } };
+  if (!Array.isArray(response.data?.endpoints)) {
+    throw new Error("Response missing endpoints");
   }
 }
 
-async function testSetWebhookUrl(): Promise<void> {
-  const webhookUrl = `${BASE_URL}/api/v1/dev/webhook-receiver`;
+async function testCreateWebhookEndpoint(): Promise<void> {
+  const endpointId = await createEndpoint(["referral.*", "reward.awarded"]);
+
+  const { status, data } = await apiRequest("GET", `/api/v1/tenant/webhook/${endpointId}`);
+  const response = data as {
+    data?: {
+      endpoint?: {
+        eventTypes?: string[];
+        circuitState?: string;
+        usesSharedSecret?: boolean;
+        warnings?: string[];
+      };
+    };
+  };
 
-  const { status, data } = await apiRequest("PUT", "/api/v1/tenant/webhook", {
-    webhookUrl,
+  if (status !== 200 || response.data?.endpoint?.eventTypes?.length !== 2) {
+    throw new Error(`Endpoint not stored correctly: ${JSON.stringify(data)}`);
+  }
+  if (response.data.endpoint.circuitState !== "closed") {
+    throw new Error(`New endpoint should have a closed circuit: ${JSON.stringify(data)}`);
+  }
+  if (response.data.endpoint.usesSharedSecret || response.data.endpoint.warnings?.length !== 0) {
+    throw new Error(`New endpoint should have its own secret: ${JSON.stringify(data)}`);
+  }
+}
+
+async function testRotateEndpointSecret(): Promise<void> {
+  const { status, data } = await apiRequest("POST", "/api/v1/tenant/webhook", {
+    url: RECEIVER_URL,
+    eventTypes: ["*"],
   });
+  const created = data as { data?: { endpoint?: { id?: string }; secret?: string } };
 
-  if (status !== 200) {
-    throw new Error(`Expected 200, got ${status}: ${JSON.stringify(data)}`);
+  if (status !== 201 || !created.data?.secret?.startsWith("whsec_")) {
+    throw new Error(`Expected a signing secret on create: ${JSON.stringify(data)}`);
   }
 
-  const response = data as { data?: { tenant?: { webhookUrl?: string } } };
-  if (response.data?.tenant?.webhookUrl !== webhookUrl) {
-    throw new Error("Webhook URL not set correctly");
+  const rotateResponse = await apiRequest(
+    "POST",
+    `/api/v1/tenant/webhook/${created.data.endpoint?.id}/rotate-secret`,
+    { gracePeriodHours: 1 }
+  );
+  const rotated = rotateResponse.data as {
+    data?: { endpoint?: { previousSecretExpiresAt?: string | null }; secret?: string };
+  };
+
+  if (rotateResponse.status !== 200) {
+    throw new Error(`Expected 200, got ${rotateResponse.status}: ${JSON.stringify(rotateResponse.data)}`);
+  }
+  if (!rotated.data?.secret || rotated.data.secret === created.data.secret) {
+    throw new Error("Rotation did not return a new secret");
+  }
+  if (!rotated.data.endpoint?.previousSecretExpiresAt) {
+    throw new Error("Previous secret should stay active during the grace period");
+  }
+  if (JSON.stringify(rotateResponse.data).includes(created.data.secret)) {
+    throw new Error("Rotation response leaked the previous secret");
   }
 }
 
-async function testSetWebhookUrlHttpsRequired(): Promise<void> {
-  const { status } = await apiRequest("PUT", "/api/v1/tenant/webhook", {
-    webhookUrl: "http://example.com/webhook",
+async function testCreateWebhookEndpointHttpsRequired(): Promise<void> {
+  const { status } = await apiRequest("POST", "/api/v1/tenant/webhook", {
+    url: "http://example.com/webhook",
+    eventTypes: ["*"],
   });
 
   if (status !== 400) {
@@ -96,28 +169,46 @@ async function testSetWebhookUrlHttpsRequired(): Promise<void> {
   }
 }
 
-async function testClearWebhookUrl(): Promise<void> {
-  const { status, data } = await apiRequest("PUT", "/api/v1/tenant/webhook", {
-    webhookUrl: null,
+async function testInvalidEventTypePattern(): Promise<void> {
+  const { status } = await apiRequest("POST", "/api/v1/tenant/webhook", {
+    url: RECEIVER_URL,
+    eventTypes: ["referral*"],
   });
 
-  if (status !== 200) {
-    throw new Error(`Expected 200, got ${status}: ${JSON.stringify(data)}`);
+  if (status !== 400) {
+    throw new Error(`Expected 400 for an invalid event type pattern, got ${status}`);
+  }
+}
+
+async function testDisableAndDeleteEndpoint(): Promise<void> {
+  const endpointId = await createEndpoint();
+
+  const updateResponse = await apiRequest("PUT", `/api/v1/tenant/webhook/${endpointId}`, {
+    enabled: false,
+  });
+  const updated = updateResponse.data as { data?: { endpoint?: { enabled?: boolean } } };
+  if (updateResponse.status !== 200 || updated.data?.endpoint?.enabled !== false) {
+    throw new Error(`Endpoint not disabled: ${JSON.stringify(updateResponse.data)}`);
+  }
+
+  const deleteResponse = await apiRequest("DELETE", `/api/v1/tenant/webhook/${endpointId}`);
+  if (deleteResponse.status !== 200) {
+    throw new Error(`Expected 200 on delete, got ${deleteResponse.status}`);
   }
 
-  const response = data as { data?: { tenant?: { webhookUrl?: string | null } } };
-  if (response.data?.tenant?.webhookUrl !== null) {
-    throw new Error("Webhook URL not cleared");
+  const getResponse = await apiRequest("GET", `/api/v1/tenant/webhook/${endpointId}`);
+  if (getResponse.status !== 404) {
+    throw new Error(`Expected 404 after delete, got ${getResponse.status}`);
   }
 }
 
-async function testWebhookTestWithoutUrl(): Promise<void> {
-  await apiRequest("PUT", "/api/v1/tenant/webhook", { webhookUrl: null });
+async function testWebhookTestWithoutEndpoint(): Promise<void> {
+  await deleteAllEndpoints();
 
   const { status, data } = await apiRequest("POST", "/api/v1/webhooks/test");
 
   if (status !== 400) {
-    throw new Error(`Expected 400 when no webhook URL, got ${status}: ${JSON.stringify(data)}`);
+    throw new Error(`Expected 400 when no endpoint, got ${status}: ${JSON.stringify(data)}`);
   }
 
   const response = data as { error?: { code?: string } };
@@ -126,9 +217,8 @@ async function testWebhookTestWithoutUrl(): Promise<void> {
   }
 }
 
-async function testWebhookTestWithUrl(): Promise<void> {
-  const webhookUrl = `${BASE_URL}/api/v1/dev/webhook-receiver`;
-  await apiRequest("PUT", "/api/v1/tenant/webhook", { webhookUrl });
+async function testWebhookTestWithEndpoint(): Promise<void> {
+  await createEndpoint();
 
   const { status, data } = await apiRequest("POST", "/api/v1/webhooks/test");
 
@@ -153,9 +243,6 @@ async function testWebhookReplayInvalidEvent(): Promise<void> {
 }
 
 async function testWebhookReplayValidEvent(): Promise<void> {
-  const webhookUrl = `${BASE_URL}/api/v1/dev/webhook-receiver`;
-  await apiRequest("PUT", "/api/v1/tenant/webhook", { webhookUrl });
-
   const testResponse = await apiRequest("POST", "/api/v1/webhooks/test");
   const testData = testResponse.data as { data?: { eventId?: string } };
   const eventId = testData.data?.eventId;
@@ -178,6 +265,237 @@ async function testWebhookReplayValidEvent(): Promise<void> {
   }
 }
 
+async function testListAndInspectDeliveries(): Promise<void> {
+  const testResponse = await apiRequest("POST", "/api/v1/webhooks/test");
+  const testData = testResponse.data as { data?: { eventId?: string } };
+  const eventId = testData.data?.eventId;
+
+  if (!eventId) {
+    throw new Error("Failed to create test event");
+  }
+
+  const { status, data } = await apiRequest(
+    "GET",
+    `/api/v1/admin/webhooks/deliveries?eventId=${eventId}`
+  );
+  const list = data as { data?: { deliveries?: Array<{ id: string; eventId: string }> } };
+
+  if (status !== 200) {
+    throw new Error(`Expected 200, got ${status}: ${JSON.stringify(data)}`);
+  }
+  const delivery = list.data?.deliveries?.[0];
+  if (!delivery || delivery.eventId !== eventId) {
+    throw new Error(`Delivery for event not listed: ${JSON.stringify(data)}`);
+  }
+
+  const detailResponse = await apiRequest(
+    "GET",
+    `/api/v1/admin/webhooks/deliveries/${delivery.id}`
+  );
+  const detail = detailResponse.data as {
+    data?: { delivery?: { id?: string }; attempts?: unknown[] };
+  };
+
+  if (detailResponse.status !== 200 || detail.data?.delivery?.id !== delivery.id) {
+    throw new Error(`Delivery detail not returned: ${JSON.stringify(detailResponse.data)}`);
+  }
+  if (!Array.isArray(detail.data?.attempts)) {
+    throw new Error("Delivery detail missing attempts");
+  }
+
+  const invalidStatus = await apiRequest("GET", "/api/v1/admin/webhooks/deliveries?status=bogus");
+  if (invalidStatus.status !== 400) {
+    throw new Error(`Expected 400 for an unknown status, got ${invalidStatus.status}`);
+  }
+}
+
+async function testBulkReplayJob(): Promise<void> {
+  const invalid = await apiRequest("POST", "/api/v1/webhooks/replay/jobs", {});
+  if (invalid.status !== 400) {
+    throw new Error(`Expected 400 without filters, got ${invalid.status}`);
+  }
+
+  const { status, data } = await apiRequest("POST", "/api/v1/webhooks/replay/jobs", {
+    eventTypes: ["webhook.test"],
+  });
+  const created = data as { data?: { job?: { id?: string; status?: string } } };
+
+  // A job from an earlier run is still waiting for the worker.
+  if (status === 409) {
+    return;
+  }
+  if (status !== 202 || !created.data?.job?.id) {
+    throw new Error(`Expected 202 with a job, got ${status}: ${JSON.stringify(data)}`);
+  }
+
+  const pollResponse = await apiRequest(
+    "GET",
+    `/api/v1/webhooks/replay/jobs/${created.data.job.id}`
+  );
+  const polled = pollResponse.data as { data?: { job?: { id?: string; progress?: number } } };
+
+  if (pollResponse.status !== 200 || polled.data?.job?.id !== created.data.job.id) {
+    throw new Error(`Replay job not returned: ${JSON.stringify(pollResponse.data)}`);
+  }
+  if (typeof polled.data.job.progress !== "number") {
+    throw new Error("Replay job missing progress");
+  }
+}
+
+interface EndpointCircuitSummary {
+  enabled?: boolean;
+  circuitState?: string;
+  consecutiveFailures?: number;
+  disabledReason?: string | null;
+}
+
+async function getEndpointCircuit(endpointId: string): Promise<EndpointCircuitSummary> {
+  const { data } = await apiRequest("GET", `/api/v1/tenant/webhook/${endpointId}`);
+  return (data as { data?: { endpoint?: EndpointCircuitSummary } }).data?.endpoint ?? {};
+}
+
+/**
+ * Drives an endpoint through the circuit breaker directly against the
+ * database, so no worker or failing receiver is needed. The probe runs in a
+ * transaction that is rolled back, leaving other endpoints' probes alone.
+ */
+async function testEndpointCircuitBreaker(): Promise<void> {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is required for the circuit breaker checks");
+  }
+
+  const { db, pool } = await import("../lib/db");
+  const { events, webhookDeliveries, webhookEndpoints } = await import("../db/schema");
+  const { claimCircuitProbes, recordEndpointFailure, recordEndpointSuccess } = await import(
+    "../lib/webhooks/circuit"
+  );
+  const { selectDueDeliveries } = await import("../lib/webhooks/deliveries");
+  const { eq, TransactionRollbackError } = await import("drizzle-orm");
+
+  const config = { failureThreshold: 2, probeIntervalMs: 60_000, disableAfterMs: 3_600_000 };
+  const openedAt = new Date();
+  const endpointId = await createEndpoint();
+
+  try {
+    const first = await db.transaction((tx) =>
+      recordEndpointFailure(tx, endpointId, config, openedAt)
+    );
+    const second = await db.transaction((tx) =>
+      recordEndpointFailure(tx, endpointId, config, openedAt)
+    );
+    if (first?.circuit !== "closed" || second?.circuit !== "opened") {
+      throw new Error(`Expected closed then opened, got ${first?.circuit}, ${second?.circuit}`);
+    }
+
+    const opened = await getEndpointCircuit(endpointId);
+    if (opened.circuitState !== "open" || opened.consecutiveFailures !== 2) {
+      throw new Error(`Circuit should be open after 2 failures: ${JSON.stringify(opened)}`);
+    }
+
+    try {
+      await db.transaction(async (tx) => {
+        const endpoint = await tx.query.webhookEndpoints.findFirst({
+          where: eq(webhookEndpoints.id, endpointId),
+        });
+        const MINUTE_MS = 60_000;
+
+        // Three deliveries held while the circuit was open, oldest event
+        // first: the probe, one waiting out a long retry backoff, and one
+        // for a newer event that is already due.
+        const deliveries: Array<typeof webhookDeliveries.$inferSelect> = [];
+        for (const [minutesAgo, retryInMs] of [
+          [20, 0],
+          [10, 2 * 60 * MINUTE_MS],
+          [0, 0],
+        ]) {
+          const [event] = await tx
+            .insert(events)
+            .values({
+              tenantId: endpoint!.tenantId,
+              type: "webhook.test",
+              payloadJson: { smoke: true },
+              createdAt: new Date(openedAt.getTime() - minutesAgo * MINUTE_MS),
+            })
+            .returning();
+          const [delivery] = await tx
+            .insert(webhookDeliveries)
+            .values({
+              tenantId: endpoint!.tenantId,
+              eventId: event.id,
+              endpointId,
+              url: endpoint!.url,
+              nextAttemptAt: new Date(openedAt.getTime() + retryInMs),
+            })
+            .returning();
+          deliveries.push(delivery);
+        }
+        const [probed, held, newer] = deliveries;
+
+        const probeAt = new Date(openedAt.getTime() + config.probeIntervalMs);
+        const probes = await claimCircuitProbes(tx, config, probeAt);
+        if (!probes.some((probe) => probe.deliveryId === probed.id)) {
+          throw new Error("The delivery with the oldest event should be claimed as a probe");
+        }
+
+        const probing = await tx.query.webhookEndpoints.findFirst({
+          where: eq(webhookEndpoints.id, endpointId),
+        });
+        if (probing?.circuitState !== "half_open") {
+          throw new Error(`Circuit should be half_open while probing: ${probing?.circuitState}`);
+        }
+
+        if (!(await recordEndpointSuccess(tx, probing))) {
+          throw new Error("A successful probe should report a recovery");
+        }
+
+        const recovered = await tx.query.webhookEndpoints.findFirst({
+          where: eq(webhookEndpoints.id, endpointId),
+        });
+        if (recovered?.circuitState !== "closed" || recovered.consecutiveFailures !== 0) {
+          throw new Error(`Circuit should close after the probe: ${recovered?.circuitState}`);
+        }
+
+        await tx
+          .update(webhookDeliveries)
+          .set({ status: "success" })
+          .where(eq(webhookDeliveries.id, probed.id));
+        const due = await selectDueDeliveries(tx, { limit: 10, endpointId });
+        if (due.map((delivery) => delivery.id).join() !== [held.id, newer.id].join()) {
+          throw new Error("A held delivery should be sent before a newer one after recovery");
+        }
+
+        tx.rollback();
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) {
+        throw error;
+      }
+    }
+
+    const disabledAt = new Date(openedAt.getTime() + config.disableAfterMs);
+    const third = await db.transaction((tx) =>
+      recordEndpointFailure(tx, endpointId, config, disabledAt)
+    );
+    if (third?.circuit !== "disabled") {
+      throw new Error(`Circuit open past disableAfterMs should disable, got ${third?.circuit}`);
+    }
+
+    const disabled = await getEndpointCircuit(endpointId);
+    if (disabled.enabled !== false || disabled.disabledReason !== "circuit_open") {
+      throw new Error(`Endpoint should be disabled: ${JSON.stringify(disabled)}`);
+    }
+
+    await apiRequest("PUT", `/api/v1/tenant/webhook/${endpointId}`, { enabled: true });
+    const reenabled = await getEndpointCircuit(endpointId);
+    if (reenabled.circuitState !== "closed" || reenabled.disabledReason !== null) {
+      throw new Error(`Re-enabling should close the circuit: ${JSON.stringify(reenabled)}`);
+    }
+  } finally {
+    await apiRequest("DELETE", `/api/v1/tenant/webhook/${endpointId}`);
+    await pool.end();
+  }
+}
+
 async function testDevWebhookReceiver(): Promise<void> {
   const response = await fetch(
     `${BASE_URL}/api/v1/dev/webhook-receiver?clear=true`
@@ -221,20 +539,31 @@ async function main(): Promise<void> {
   console.log(`API Key: ${API_KEY?.slice(0, 12)}...`);
   console.log("");
 
-  await runTest("GET /api/v1/tenant/webhook", testGetWebhookConfig);
-  await runTest("PUT /api/v1/tenant/webhook - set URL", testSetWebhookUrl);
+  await runTest("GET /api/v1/tenant/webhook", testListWebhookEndpoints);
+  await runTest("POST /api/v1/tenant/webhook - add endpoint", testCreateWebhookEndpoint);
+  await runTest(
+    "POST /api/v1/tenant/webhook/:id/rotate-secret",
+    testRotateEndpointSecret
+  );
   await runTest(
-    "PUT /api/v1/tenant/webhook - HTTPS required",
-    testSetWebhookUrlHttpsRequired
+    "POST /api/v1/tenant/webhook - HTTPS required",
+    testCreateWebhookEndpointHttpsRequired
   );
-  await runTest("PUT /api/v1/tenant/webhook - clear URL", testClearWebhookUrl);
   await runTest(
-    "POST /api/v1/webhooks/test - without URL",
-    testWebhookTestWithoutUrl
+    "POST /api/v1/tenant/webhook - invalid event type",
+    testInvalidEventTypePattern
   );
   await runTest(
-    "POST /api/v1/webhooks/test - with URL",
-    testWebhookTestWithUrl
+    "PUT/DELETE /api/v1/tenant/webhook/:id",
+    testDisableAndDeleteEndpoint
+  );
+  await runTest(
+    "POST /api/v1/webhooks/test - without endpoint",
+    testWebhookTestWithoutEndpoint
+  );
+  await runTest(
+    "POST /api/v1/webhooks/test - with endpoint",
+    testWebhookTestWithEndpoint
   );
   await runTest(
     "POST /api/v1/webhooks/replay - invalid event",
@@ -244,6 +573,12 @@ async function main(): Promise<void> {
     "POST /api/v1/webhooks/replay - valid event",
     testWebhookReplayValidEvent
   );
+  await runTest(
+    "GET /api/v1/admin/webhooks/deliveries",
+    testListAndInspectDeliveries
+  );
+  await runTest("POST /api/v1/webhooks/replay/jobs", testBulkReplayJob);
+  await runTest("Endpoint circuit breaker", testEndpointCircuitBreaker);
   await runTest("Dev webhook receiver", testDevWebhookReceiver);
 
   console.log("\n📊 Results Summary\n");
@@ -1,8 +1,30 @@
 import "dotenv/config";
-import { eq, and, lte, sql } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { db } from "../lib/db";
-import { webhookDeliveries, events } from "../db/schema";
+import {
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhookEndpoints,
+  events,
+} from "../db/schema";
 import { getWebhookHeaders } from "../lib/webhooks/sign";
+import { getEndpointSigningSecrets } from "../lib/webhooks/secrets";
+import {
+  hashWebhookPayload,
+  selectDueDeliveries,
+  truncateResponseBody,
+} from "../lib/webhooks/deliveries";
+import {
+  claimCircuitProbes,
+  recordEndpointFailure,
+  recordEndpointSuccess,
+} from "../lib/webhooks/circuit";
+import type { CircuitBreakerConfig } from "../lib/webhooks/circuit";
+import {
+  failReplayJob,
+  findActiveReplayJob,
+  processReplayJobChunk,
+} from "../lib/webhooks/replay";
 
 const POLL_INTERVAL_MS = parseInt(
   process.env.WEBHOOK_WORKER_POLL_MS || "2000",
@@ -19,6 +41,13 @@ const WEBHOOK_TIMEOUT_MS = parseInt(
 const SINGLE_RUN = process.env.SINGLE_RUN === "true" || process.env.SINGLE_RUN === "1";
 const BATCH_SIZE = parseInt(process.env.WEBHOOK_WORKER_BATCH_SIZE || "10", 10);
 const CONCURRENCY = parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || "5", 10);
+const REPLAY_CHUNK_SIZE = parseInt(process.env.WEBHOOK_REPLAY_CHUNK_SIZE || "100", 10);
+
+const CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  failureThreshold: parseInt(process.env.WEBHOOK_CIRCUIT_FAILURE_THRESHOLD || "5", 10),
+  probeIntervalMs: parseInt(process.env.WEBHOOK_CIRCUIT_PROBE_INTERVAL_MS || "60000", 10),
+  disableAfterMs: parseInt(process.env.WEBHOOK_CIRCUIT_DISABLE_AFTER_MS || "86400000", 10),
+};
 
 let isShuttingDown = false;
 
@@ -31,6 +60,8 @@ const RETRY_DELAYS_MS = [
   7_200_000,
 ];
 
+const SIGNING_RETRY_DELAY_MS = 60_000;
+
 function log(
   level: "info" | "warn" | "error",
   message: string,
@@ -58,38 +89,58 @@ interface DeliveryRecord {
   id: string;
   tenantId: string;
   eventId: string;
+  endpointId: string | null;
   url: string;
   status: string;
   attemptCount: number;
 }
 
+const deliveryFields = {
+  id: webhookDeliveries.id,
+  tenantId: webhookDeliveries.tenantId,
+  eventId: webhookDeliveries.eventId,
+  endpointId: webhookDeliveries.endpointId,
+  url: webhookDeliveries.url,
+  status: webhookDeliveries.status,
+  attemptCount: webhookDeliveries.attemptCount,
+};
+
+/**
+ * Due deliveries, oldest event first. Deliveries to an endpoint whose
+ * circuit is not closed are held back; see `fetchProbeDeliveries`.
+ */
 async function fetchDueDeliveries(): Promise<DeliveryRecord[]> {
-  const now = new Date();
+  return selectDueDeliveries(db, { limit: BATCH_SIZE });
+}
+
+/**
+ * One held delivery for each endpoint with an open circuit that is due a
+ * probe.
+ */
+async function fetchProbeDeliveries(): Promise<DeliveryRecord[]> {
+  const probes = await db.transaction((tx) => claimCircuitProbes(tx, CIRCUIT_BREAKER));
+
+  if (probes.length === 0) {
+    return [];
+  }
+
+  log("info", "Probing endpoints with open circuits", {
+    endpointIds: probes.map((probe) => probe.endpointId),
+  });
 
-  const deliveries = await db
-    .select({
-      id: webhookDeliveries.id,
-      tenantId: webhookDeliveries.tenantId,
-      eventId: webhookDeliveries.eventId,
-      url: webhookDeliveries.url,
-      status: webhookDeliveries.status,
-      attemptCount: webhookDeliveries.attemptCount,
-    })
+  return db
+    .select(deliveryFields)
     .from(webhookDeliveries)
-    .where(
-      and(
-        eq(webhookDeliveries.status, "pending"),
-        lte(webhookDeliveries.nextAttemptAt, now)
-      )
-    )
-    .limit(BATCH_SIZE)
-    .for("update", { skipLocked: true });
-
-  return deliveries;
+    .where(inArray(webhookDeliveries.id, probes.map((probe) => probe.deliveryId)));
 }
 
-async function processDelivery(delivery: DeliveryRecord): Promise<void> {
-  const { id: deliveryId, tenantId, eventId, url, attemptCount } = delivery;
+/**
+ * Attempts a delivery. Returns false when its endpoint's circuit is open
+ * afterwards, or the delivery could not be signed, so the endpoint's
+ * remaining deliveries are held.
+ */
+async function processDelivery(delivery: DeliveryRecord): Promise<boolean> {
+  const { id: deliveryId, tenantId, eventId, endpointId, url, attemptCount } = delivery;
 
   log("info", "Processing webhook delivery", {
     deliveryId,
@@ -113,7 +164,7 @@ async function processDelivery(delivery: DeliveryRecord): Promise<void> {
         updatedAt: new Date(),
       })
       .where(eq(webhookDeliveries.id, deliveryId));
-    return;
+    return true;
   }
 
   const payload = JSON.stringify({
@@ -124,29 +175,70 @@ async function processDelivery(delivery: DeliveryRecord): Promise<void> {
     data: event.payloadJson,
   });
 
-  const headers = getWebhookHeaders(payload);
+  const endpoint = endpointId
+    ? await db.query.webhookEndpoints.findFirst({
+        where: eq(webhookEndpoints.id, endpointId),
+      })
+    : null;
+
+  // Signed per attempt, so a rotation's grace period ending applies to
+  // retries as well. A signing error is a fault in this deployment, not the
+  // endpoint's, so it neither uses up an attempt nor counts toward the
+  // endpoint's circuit.
+  let requestHeaders: Record<string, string>;
+  try {
+    requestHeaders = getWebhookHeaders(payload, getEndpointSigningSecrets(endpoint ?? null));
+  } catch (error) {
+    const signingError = `Signing failed: ${
+      error instanceof Error ? error.message.slice(0, 200) : "Unknown error"
+    }`;
+    const now = new Date();
+
+    log("error", "Could not sign webhook delivery, holding it", {
+      deliveryId,
+      eventId,
+      endpointId,
+      error: signingError,
+    });
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        lastError: signingError,
+        nextAttemptAt: new Date(now.getTime() + SIGNING_RETRY_DELAY_MS),
+        updatedAt: now,
+      })
+      .where(eq(webhookDeliveries.id, deliveryId));
+    return false;
+  }
+
   let statusCode: number | null = null;
+  let responseBody: string | null = null;
   let errorMessage: string | null = null;
   let success = false;
+  const startedAt = Date.now();
 
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: payload,
-      signal: controller.signal,
-    });
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: requestHeaders,
+        body: payload,
+        signal: controller.signal,
+      });
 
-    clearTimeout(timeoutId);
-    statusCode = response.status;
-    success = response.ok;
+      statusCode = response.status;
+      success = response.ok;
+      responseBody = truncateResponseBody(await response.text().catch(() => ""));
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
     if (!success) {
-      const responseText = await response.text().catch(() => "");
-      errorMessage = `HTTP ${statusCode}: ${responseText.slice(0, 200)}`;
+      errorMessage = `HTTP ${statusCode}: ${responseBody.slice(0, 200)}`;
     }
   } catch (error) {
     if (error instanceof Error) {
@@ -160,15 +252,33 @@ async function processDelivery(delivery: DeliveryRecord): Promise<void> {
     }
   }
 
+  const durationMs = Date.now() - startedAt;
+
   const newAttemptCount = attemptCount + 1;
   const now = new Date();
 
+  await db.insert(webhookDeliveryAttempts).values({
+    tenantId,
+    deliveryId,
+    attemptNumber: newAttemptCount,
+    url,
+    requestHeaders,
+    payloadHash: hashWebhookPayload(payload),
+    success,
+    responseStatus: statusCode,
+    responseBody,
+    error: errorMessage,
+    durationMs,
+    attemptedAt: now,
+  });
+
   if (success) {
     log("info", "Webhook delivery succeeded", {
       deliveryId,
       eventId,
       statusCode,
       attemptCount: newAttemptCount,
+      durationMs,
     });
 
     await db
@@ -194,6 +304,12 @@ async function processDelivery(delivery: DeliveryRecord): Promise<void> {
         url,
       },
     });
+
+    if (endpoint && (await db.transaction((tx) => recordEndpointSuccess(tx, endpoint)))) {
+      log("info", "Endpoint recovered, circuit closed", { endpointId: endpoint.id });
+    }
+
+    return true;
   } else {
     const exhausted = newAttemptCount >= WEBHOOK_RETRY_LIMIT;
     const newStatus = exhausted ? "failed" : "pending";
@@ -234,16 +350,72 @@ async function processDelivery(delivery: DeliveryRecord): Promise<void> {
         url,
       },
     });
+
+    if (!endpoint) {
+      return true;
+    }
+
+    const outcome = await db.transaction((tx) =>
+      recordEndpointFailure(tx, endpoint.id, CIRCUIT_BREAKER, now)
+    );
+
+    if (!outcome || outcome.circuit === "closed") {
+      return true;
+    }
+
+    if (outcome.circuit === "opened") {
+      log("warn", "Endpoint circuit opened, holding deliveries", {
+        endpointId: endpoint.id,
+        consecutiveFailures: outcome.consecutiveFailures,
+      });
+    } else if (outcome.circuit === "disabled") {
+      log("warn", "Endpoint disabled after its circuit stayed open", {
+        endpointId: endpoint.id,
+        consecutiveFailures: outcome.consecutiveFailures,
+      });
+
+      await db.insert(events).values({
+        tenantId,
+        type: "webhook.endpoint_disabled",
+        payloadJson: {
+          endpointId: endpoint.id,
+          url: outcome.endpoint.url,
+          reason: outcome.endpoint.disabledReason,
+          consecutiveFailures: outcome.consecutiveFailures,
+          circuitOpenedAt: outcome.endpoint.circuitOpenedAt?.toISOString() ?? null,
+          lastError: errorMessage,
+          disabledAt: now.toISOString(),
+        },
+      });
+    }
+
+    return false;
   }
 }
 
+/**
+ * Deliveries grouped by endpoint, keeping their order. Deliveries without an
+ * endpoint each form their own group.
+ */
+function groupByEndpoint(deliveries: DeliveryRecord[]): DeliveryRecord[][] {
+  const groups = new Map<string, DeliveryRecord[]>();
+  for (const delivery of deliveries) {
+    const key = delivery.endpointId ?? delivery.id;
+    groups.set(key, [...(groups.get(key) ?? []), delivery]);
+  }
+  return Array.from(groups.values());
+}
+
 async function processWithConcurrency(
   deliveries: DeliveryRecord[],
   concurrency: number
 ): Promise<void> {
-  const chunks: DeliveryRecord[][] = [];
-  for (let i = 0; i < deliveries.length; i += concurrency) {
-    chunks.push(deliveries.slice(i, i + concurrency));
+  // Endpoints are worked on concurrently, but each endpoint's deliveries go
+  // out one at a time and in order, and stop as soon as its circuit opens.
+  const groups = groupByEndpoint(deliveries);
+  const chunks: DeliveryRecord[][][] = [];
+  for (let i = 0; i < groups.length; i += concurrency) {
+    chunks.push(groups.slice(i, i + concurrency));
   }
 
   for (const chunk of chunks) {
@@ -253,20 +425,57 @@ async function processWithConcurrency(
     }
 
     await Promise.all(
-      chunk.map(async (delivery) => {
-        try {
-          await processDelivery(delivery);
-        } catch (error) {
-          log("error", "Failed to process delivery", {
-            deliveryId: delivery.id,
-            error: error instanceof Error ? error.message : "Unknown error",
-          });
+      chunk.map(async (group) => {
+        for (const delivery of group) {
+          try {
+            if (!(await processDelivery(delivery))) {
+              break;
+            }
+          } catch (error) {
+            log("error", "Failed to process delivery", {
+              deliveryId: delivery.id,
+              error: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
         }
       })
     );
   }
 }
 
+/**
+ * Queues one chunk of the oldest bulk replay job per poll, so replaying a
+ * large backlog does not starve regular deliveries.
+ */
+async function processReplayJobs(): Promise<void> {
+  const job = await findActiveReplayJob(db);
+  if (!job) {
+    return;
+  }
+
+  try {
+    const updated = await db.transaction((tx) =>
+      processReplayJobChunk(tx, job.id, REPLAY_CHUNK_SIZE)
+    );
+
+    if (updated) {
+      log("info", "Replay job chunk queued", {
+        jobId: updated.id,
+        tenantId: updated.tenantId,
+        status: updated.status,
+        processed: updated.processedDeliveries,
+        total: updated.totalDeliveries,
+        enqueued: updated.enqueuedDeliveries,
+        skipped: updated.skippedDeliveries,
+      });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log("error", "Replay job failed", { jobId: job.id, error: message });
+    await failReplayJob(db, job.id, message);
+  }
+}
+
 function setupGracefulShutdown(): void {
   const shutdown = (signal: string) => {
     log("info", "Received shutdown signal", { signal });
@@ -287,11 +496,15 @@ async function runWorkerLoop(): Promise<void> {
     singleRun: SINGLE_RUN,
     batchSize: BATCH_SIZE,
     concurrency: CONCURRENCY,
+    replayChunkSize: REPLAY_CHUNK_SIZE,
+    circuitBreaker: CIRCUIT_BREAKER,
   });
 
   while (!isShuttingDown) {
     try {
-      const deliveries = await fetchDueDeliveries();
+      await processReplayJobs();
+
+      const deliveries = [...(await fetchProbeDeliveries()), ...(await fetchDueDeliveries())];
 
       if (deliveries.length > 0) {
         log("info", "Found due deliveries", { count: deliveries.length });
@@ -119,7 +119,6 @@ export interface TenantData {
   slug: string;
   name: string;
   status: string;
-  webhookUrl: string | null;
   brandingJson: Record<string, unknown> | null;
   referralSettingsJson: Record<string, unknown> | null;
   createdAt: string;
@@ -131,19 +130,144 @@ export interface TenantStats {
   totalReferrals: number;
   completedReferrals: number;
   pendingReferrals: number;
+  unrewardedReferrals: number;
+  heldReferrals: number;
+  rewardsByCurrency: Array<{
+    currency: string;
+    earned: number;
+    redeemed: number;
+    expired: number;
+    outstanding: number;
+  }>;
+  rewardBudget: BudgetUsage | null;
+  campaigns: Array<
+    {
+      campaignId: string;
+      key: string;
+      name: string;
+      budget: BudgetUsage | null;
+    } & CampaignStats
+  >;
 }
 
+export type BudgetPeriod = "month" | "program";
+
+export interface BudgetUsage {
+  scope: "tenant" | "campaign";
+  campaignId: string | null;
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+  periodStart: string | null;
+  consumed: number;
+  remaining: number;
+  exhausted: boolean;
+}
+
+export interface CampaignStats {
+  totalReferrals: number;
+  pendingReferrals: number;
+  completedReferrals: number;
+  unrewardedReferrals: number;
+  reversedReferrals: number;
+  rewardsEarnedByCurrency: Array<{ currency: string; amount: number }>;
+}
+
+export interface Campaign {
+  id: string;
+  key: string;
+  name: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  budgetAmount: number | null;
+  budgetCurrency: string | null;
+  budgetPeriod: BudgetPeriod;
+  budget: BudgetUsage | null;
+  perReferrerCap: number | null;
+  shareMessage: string | null;
+  brandingJson: Record<string, unknown> | null;
+  active: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  stats: CampaignStats;
+}
+
+export type CampaignInput = Partial<
+  Pick<
+    Campaign,
+    | "name"
+    | "startsAt"
+    | "endsAt"
+    | "budgetAmount"
+    | "budgetCurrency"
+    | "budgetPeriod"
+    | "perReferrerCap"
+    | "shareMessage"
+    | "brandingJson"
+  >
+>;
+
 export interface RewardRule {
   id: string;
   ruleKey: string;
+  campaignId: string | null;
   enabled: boolean;
+  priority: number;
   conditionJson: Record<string, unknown> | null;
   rewardReferrerJson: Record<string, unknown> | null;
   rewardReferredJson: Record<string, unknown> | null;
+  validityDays: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TenantPlan {
+  key: string;
+  displayName: string;
+  rank: number;
+  referralRewardAmount: number;
+}
+
+export interface RuleSimulationInput {
+  eventType?: "referral.claimed" | "referral.converted";
+  referrerPlan: string;
+  referredPlan?: string;
+  referralCount?: number;
+  occurredAt?: string;
+  campaignId?: string;
+  rules?: Array<
+    Pick<
+      RewardRule,
+      | "ruleKey"
+      | "campaignId"
+      | "enabled"
+      | "priority"
+      | "conditionJson"
+      | "rewardReferrerJson"
+      | "rewardReferredJson"
+      | "validityDays"
+    >
+  >;
+}
+
+export interface RuleSimulationEntry {
+  recipient: "referrer" | "referred";
+  source: string;
+  ruleKey: string | null;
+  reward: Record<string, unknown>;
+  rewardJson: Record<string, unknown>;
+  expiresAt: string | null;
+}
+
+export interface RuleSimulationResult {
+  ruleKey: string | null;
+  milestones: Array<{ milestone: number; ruleKey: string }>;
+  usedProposedRules: boolean;
+  evaluatedRules: number;
+  entries: RuleSimulationEntry[];
+}
+
 export interface ApiKeyData {
   id: string;
   label: string;
@@ -163,6 +287,7 @@ export interface ApiKeyCreateResult {
 export interface EventData {
   id: string;
   type: string;
+  campaignId: string | null;
   payloadJson: Record<string, unknown>;
   createdAt: string;
 }
@@ -174,6 +299,108 @@ export interface EventsListResult {
   offset: number;
 }
 
+export interface FraudReason {
+  signal: string;
+  weight: number;
+  detail: Record<string, unknown>;
+}
+
+export interface ReviewReferral {
+  id: string;
+  referrerUserId: string;
+  referredExternalUserId: string;
+  refCodeUsed: string;
+  campaignId: string | null;
+  status: string;
+  fraudScore: number;
+  fraudReasons: FraudReason[];
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewReason: string | null;
+}
+
+export interface ReviewReferralsListResult {
+  referrals: ReviewReferral[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface BulkReviewResult {
+  action: "approve" | "reject";
+  succeeded: number;
+  failed: number;
+  results: Array<{
+    referralId: string;
+    ok: boolean;
+    referral?: ReviewReferral;
+    error?: { code: string; message: string };
+  }>;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  enabled: boolean;
+  eventTypes: string[];
+  usesSharedSecret: boolean;
+  warnings: string[];
+  secretRotatedAt: string | null;
+  previousSecretExpiresAt: string | null;
+  circuitState: "closed" | "open" | "half_open";
+  consecutiveFailures: number;
+  circuitOpenedAt: string | null;
+  disabledReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  endpointId: string | null;
+  url: string;
+  status: string;
+  attemptCount: number;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  attemptNumber: number;
+  url: string;
+  requestHeaders: Record<string, string>;
+  payloadHash: string;
+  success: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+export interface WebhookDeliveriesListResult {
+  deliveries: WebhookDelivery[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface WebhookDeliveryDetail {
+  delivery: WebhookDelivery;
+  event: { id: string; type: string; createdAt: string } | null;
+  attempts: WebhookDeliveryAttempt[];
+}
+
+export type WebhookEndpointInput = Partial<
+  Pick<WebhookEndpoint, "url" | "description" | "enabled" | "eventTypes">
+>;
+
 export const tenantApi = {
   get: () => adminApi.get<{ tenant: TenantData }>("/tenant"),
   getStats: () => adminApi.get<{ stats: TenantStats }>("/tenant/stats"),
@@ -181,14 +408,42 @@ export const tenantApi = {
     brandingJson?: Record<string, unknown>;
     referralSettingsJson?: Record<string, unknown>;
   }) => adminApi.put<{ tenant: TenantData }>("/tenant/branding", data),
-  updateWebhook: (data: { webhookUrl: string | null }) =>
-    adminApi.put<{ tenant: TenantData }>("/tenant/webhook", data),
 };
 
 export const rulesApi = {
   list: () => adminApi.get<{ rules: RewardRule[] }>("/tenant/rules"),
+  create: (data: Partial<RewardRule> & { ruleKey: string }) =>
+    adminApi.post<{ rule: RewardRule }>("/tenant/rules", data),
   update: (ruleId: string, data: Partial<RewardRule>) =>
     adminApi.put<{ rule: RewardRule }>(`/tenant/rules/${ruleId}`, data),
+  delete: (ruleId: string) =>
+    adminApi.delete<{ success: boolean }>(`/tenant/rules/${ruleId}`),
+  reorder: (ruleIds: string[]) =>
+    adminApi.put<{ rules: RewardRule[] }>("/tenant/rules/reorder", { ruleIds }),
+  simulate: (data: RuleSimulationInput) =>
+    adminApi.post<RuleSimulationResult>("/tenant/rules/simulate", data),
+};
+
+export const plansApi = {
+  list: () => adminApi.get<{ plans: TenantPlan[] }>("/tenant/plans"),
+  replace: (plans: TenantPlan[]) =>
+    adminApi.put<{ plans: TenantPlan[] }>("/tenant/plans", { plans }),
+};
+
+export const campaignsApi = {
+  list: () => adminApi.get<{ campaigns: Campaign[] }>("/tenant/campaigns"),
+  get: (campaignId: string) =>
+    adminApi.get<{ campaign: Campaign }>(`/tenant/campaigns/${campaignId}`),
+  create: (data: CampaignInput & { key: string; name: string }) =>
+    adminApi.post<{ campaign: Campaign }>("/tenant/campaigns", data),
+  update: (campaignId: string, data: CampaignInput & { archived?: boolean }) =>
+    adminApi.put<{ campaign: Campaign }>(`/tenant/campaigns/${campaignId}`, data),
+};
+
+export const blocklistApi = {
+  get: () => adminApi.get<{ terms: string[] }>("/tenant/referral-code-blocklist"),
+  replace: (terms: string[]) =>
+    adminApi.put<{ terms: string[] }>("/tenant/referral-code-blocklist", { terms }),
 };
 
 export const apiKeysApi = {
@@ -200,9 +455,10 @@ export const apiKeysApi = {
 };
 
 export const eventsApi = {
-  list: (params?: { type?: string; limit?: number; offset?: number }) => {
+  list: (params?: { type?: string; campaignId?: string; limit?: number; offset?: number }) => {
     const searchParams = new URLSearchParams();
     if (params?.type) searchParams.set("type", params.type);
+    if (params?.campaignId) searchParams.set("campaignId", params.campaignId);
     if (params?.limit) searchParams.set("limit", params.limit.toString());
     if (params?.offset) searchParams.set("offset", params.offset.toString());
     const query = searchParams.toString();
@@ -210,6 +466,73 @@ export const eventsApi = {
   },
 };
 
+export const referralsApi = {
+  list: (params?: {
+    status?: string;
+    campaignId?: string;
+    minScore?: number;
+    limit?: number;
+    offset?: number;
+  }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.set("status", params.status);
+    if (params?.campaignId) searchParams.set("campaignId", params.campaignId);
+    if (params?.minScore) searchParams.set("minScore", params.minScore.toString());
+    if (params?.limit) searchParams.set("limit", params.limit.toString());
+    if (params?.offset) searchParams.set("offset", params.offset.toString());
+    const query = searchParams.toString();
+    return adminApi.get<ReviewReferralsListResult>(`/admin/referrals${query ? `?${query}` : ""}`);
+  },
+  approve: (referralId: string) =>
+    adminApi.post<{ referral: ReviewReferral }>(`/admin/referrals/${referralId}/approve`, {}),
+  reject: (referralId: string, reason: string) =>
+    adminApi.post<{ referral: ReviewReferral }>(`/admin/referrals/${referralId}/reject`, {
+      reason,
+    }),
+  bulkReview: (action: "approve" | "reject", referralIds: string[], reason?: string) =>
+    adminApi.post<BulkReviewResult>("/admin/referrals/review", {
+      action,
+      referralIds,
+      ...(reason !== undefined && { reason }),
+    }),
+};
+
 export const webhooksApi = {
-  test: () => adminApi.post<{ success: boolean; eventId: string }>("/webhooks/test", {}),
+  listEndpoints: () => adminApi.get<{ endpoints: WebhookEndpoint[] }>("/tenant/webhook"),
+  createEndpoint: (data: WebhookEndpointInput & { url: string; eventTypes: string[] }) =>
+    adminApi.post<{ endpoint: WebhookEndpoint; secret: string }>("/tenant/webhook", data),
+  updateEndpoint: (endpointId: string, data: WebhookEndpointInput) =>
+    adminApi.put<{ endpoint: WebhookEndpoint }>(`/tenant/webhook/${endpointId}`, data),
+  deleteEndpoint: (endpointId: string) =>
+    adminApi.delete<{ success: boolean }>(`/tenant/webhook/${endpointId}`),
+  rotateSecret: (endpointId: string, gracePeriodHours?: number) =>
+    adminApi.post<{ endpoint: WebhookEndpoint; secret: string }>(
+      `/tenant/webhook/${endpointId}/rotate-secret`,
+      gracePeriodHours === undefined ? {} : { gracePeriodHours }
+    ),
+  listDeliveries: (params?: {
+    status?: string;
+    endpointId?: string;
+    eventId?: string;
+    limit?: number;
+    offset?: number;
+  }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.set("status", params.status);
+    if (params?.endpointId) searchParams.set("endpointId", params.endpointId);
+    if (params?.eventId) searchParams.set("eventId", params.eventId);
+    if (params?.limit) searchParams.set("limit", params.limit.toString());
+    if (params?.offset) searchParams.set("offset", params.offset.toString());
+    const query = searchParams.toString();
+    return adminApi.get<WebhookDeliveriesListResult>(
+      `/admin/webhooks/deliveries${query ? `?${query}` : ""}`
+    );
+  },
+  getDelivery: (deliveryId: string) =>
+    adminApi.get<WebhookDeliveryDetail>(`/admin/webhooks/deliveries/${deliveryId}`),
+  test: (endpointId?: string) =>
+    adminApi.post<{ eventId: string; deliveryId: string }>(
+      "/webhooks/test",
+      endpointId ? { endpointId } : {}
+    ),
 };
@@ -22,11 +22,6 @@ export function hashApiKey(rawKey: string, signingSecret: string): string {
     .digest("hex");
 }
 
-export function generateReferralCode(prefix: string): string {
-  const randomPart = generateBase62(6).toUpperCase();
-  return `${prefix}${randomPart}`;
-}
-
 export function constantTimeCompare(a: string, b: string): boolean {
   try {
     return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
@@ -44,3 +39,45 @@ export function generateEmbedSignature(
   const message = `${tenant}.${externalUserId}.${timestamp}`;
   return crypto.createHmac("sha256", secret).update(message).digest("hex");
 }
+
+/**
+ * Keyed hash for client details such as IP addresses, so they can be
+ * compared across claims without being stored in the clear. Scoped to the
+ * tenant so hashes cannot be correlated between tenants.
+ */
+export function hashClientSignal(tenantId: string, value: string, secret: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${tenantId}:${value}`)
+    .digest("hex");
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${generateBase62(32)}`;
+}
+
+function deriveEncryptionKey(secret: string): Buffer {
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypts a secret for storage with AES-256-GCM. The result holds the IV,
+ * auth tag and ciphertext, base64 encoded and joined by `.`.
+ */
+export function encryptSecret(plaintext: string, encryptionKey: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveEncryptionKey(encryptionKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+export function decryptSecret(encrypted: string, encryptionKey: string): string {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted secret");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", deriveEncryptionKey(encryptionKey), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
@@ -1,6 +1,8 @@
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, isNotNull, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { users, referrals, rewardsLedger, tenants, events } from "@/db/schema";
+import { users, referrals, rewardsLedger, tenants, events, referralCodes } from "@/db/schema";
+import { earnedEntriesFilter } from "@/lib/rewards/ledger";
+import type { CurrencyAmount } from "@/lib/rewards/currency";
 
 export async function getUserByExternalId(tenantId: string, externalUserId: string) {
   return db.query.users.findFirst({
@@ -8,10 +10,24 @@ export async function getUserByExternalId(tenantId: string, externalUserId: stri
   });
 }
 
+/**
+ * Resolves a referral code through `referral_codes`, returning the code row
+ * and its owner whether or not the code is still active.
+ */
+export async function getReferralCodeWithUser(tenantId: string, referralCode: string) {
+  const [row] = await db
+    .select({ referralCode: referralCodes, user: users })
+    .from(referralCodes)
+    .innerJoin(users, eq(users.id, referralCodes.userId))
+    .where(and(eq(referralCodes.tenantId, tenantId), eq(referralCodes.code, referralCode)))
+    .limit(1);
+
+  return row;
+}
+
 export async function getUserByReferralCode(tenantId: string, referralCode: string) {
-  return db.query.users.findFirst({
-    where: and(eq(users.tenantId, tenantId), eq(users.referralCode, referralCode)),
-  });
+  const row = await getReferralCodeWithUser(tenantId, referralCode);
+  return row?.referralCode.active ? row.user : undefined;
 }
 
 export async function getUserById(userId: string) {
@@ -69,14 +85,50 @@ export async function countCompletedReferralsByReferrer(
   return result[0]?.count ?? 0;
 }
 
-export async function sumRewardsByUser(tenantId: string, userId: string) {
+export async function countReferralsByReferrerAndStatus(
+  tenantId: string,
+  referrerUserId: string,
+  status: string
+) {
   const result = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(referrals)
+    .where(
+      and(
+        eq(referrals.tenantId, tenantId),
+        eq(referrals.referrerUserId, referrerUserId),
+        eq(referrals.status, status)
+      )
+    );
+  return result[0]?.count ?? 0;
+}
+
+/**
+ * Net earned credit per currency, in minor units.
+ */
+export async function sumRewardsByUser(
+  tenantId: string,
+  userId: string
+): Promise<CurrencyAmount[]> {
+  const rows = await db
     .select({
-      total: sql<number>`COALESCE(SUM((reward_json->>'amount')::numeric), 0)::int`,
+      currency: rewardsLedger.currency,
+      amount: sql<number>`COALESCE(SUM(${rewardsLedger.amount}), 0)::int`,
     })
     .from(rewardsLedger)
-    .where(and(eq(rewardsLedger.tenantId, tenantId), eq(rewardsLedger.userId, userId)));
-  return result[0]?.total ?? 0;
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.userId, userId),
+        eq(rewardsLedger.rewardType, "credit"),
+        isNotNull(rewardsLedger.currency),
+        earnedEntriesFilter()
+      )
+    )
+    .groupBy(rewardsLedger.currency)
+    .orderBy(rewardsLedger.currency);
+
+  return rows.map((row) => ({ currency: row.currency!, amount: row.amount }));
 }
 
 export async function getRewardsByUser(tenantId: string, userId: string) {
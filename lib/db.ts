@@ -18,3 +18,7 @@ const pool = new Pool({
 export const db = drizzle(pool, { schema });
 
 export { pool };
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type DbExecutor = typeof db | DbTransaction;
@@ -1,24 +1,61 @@
 import { eq, and, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { users, referrals, rewardsLedger, tenants } from "@/db/schema";
+import { earnedEntriesFilter, EXPIRY_SOURCE } from "@/lib/rewards/ledger";
+import { projectDueExpiries } from "@/lib/rewards/expiry";
+import { listReferralCodes } from "@/lib/referrals/codes";
+import { listCampaigns } from "@/lib/referrals/campaigns";
+import { findNextMilestoneRule, loadEnabledRewardRules } from "@/lib/rewards/rules";
+import { normalizeRewardRules } from "@/lib/rewards/normalize";
+import { RewardPayloadSchema, describeReward } from "@/lib/rewards/types";
+import type { CurrencyAmount } from "@/lib/rewards/currency";
 
+/**
+ * Net earned rewards of one type. `totalAmount` is in minor units of
+ * `currency` for credits, points for points, and `unit`s of time for
+ * subscription extensions. Other types are summarised by `count` only.
+ */
 export interface RewardSummaryItem {
   type: string;
   totalAmount: number;
-  currency: string;
+  currency: string | null;
+  unit: string | null;
   count: number;
 }
 
+export interface MilestoneProgress {
+  milestone: number;
+  completedReferrals: number;
+  remaining: number;
+  rewardDescription: string | null;
+}
+
+/**
+ * One of the user's active codes. The primary code comes first; the rest are
+ * labelled by the channel or campaign they were created for.
+ */
+export interface ChannelLink {
+  channel: string | null;
+  campaignId: string | null;
+  campaignName: string | null;
+  code: string;
+  link: string;
+  primary: boolean;
+}
+
 export interface EmbedUserData {
   found: true;
   referralCode: string;
   referralLink: string;
+  channelLinks: ChannelLink[];
   totalReferrals: number;
   pendingReferrals: number;
   completedReferrals: number;
   rewardsSummary: RewardSummaryItem[];
-  totalRewardsValue: number;
-  rewardsCurrency: string;
+  rewardTotals: CurrencyAmount[];
+  defaultCurrency: string;
+  expiredRewards: RewardSummaryItem[];
+  nextMilestone: MilestoneProgress | null;
 }
 
 export interface EmbedUserNotFound {
@@ -28,10 +65,15 @@ export interface EmbedUserNotFound {
 
 export type EmbedData = EmbedUserData | EmbedUserNotFound;
 
+/**
+ * When `campaignId` is given, the user's active code for that campaign (if
+ * any) becomes the headline referral link.
+ */
 export async function getEmbedData(
   tenantId: string,
   externalUserId: string,
-  shareBaseUrl: string
+  shareBaseUrl: string,
+  campaignId: string | null = null
 ): Promise<EmbedData> {
   const user = await db.query.users.findFirst({
     where: and(
@@ -75,55 +117,158 @@ export async function getEmbedData(
   const rewards = await db.query.rewardsLedger.findMany({
     where: and(
       eq(rewardsLedger.tenantId, tenantId),
-      eq(rewardsLedger.userId, user.id)
+      eq(rewardsLedger.userId, user.id),
+      earnedEntriesFilter()
     ),
   });
 
-  const rewardsByType = new Map<string, { amount: number; currency: string; count: number }>();
-  let totalRewardsValue = 0;
-  let rewardsCurrency = "USD";
+  const rewardsByKey = new Map<string, RewardSummaryItem>();
+  const totalsByCurrency = new Map<string, number>();
 
   for (const reward of rewards) {
-    const rewardJson = reward.rewardJson as { type?: string; amount?: number; currency?: string };
-    const type = rewardJson.type || "credit";
-    const amount = typeof rewardJson.amount === "number" ? rewardJson.amount : 0;
-    const currency = typeof rewardJson.currency === "string" ? rewardJson.currency : "USD";
+    const rewardJson = reward.rewardJson as { duration?: unknown; durationUnit?: unknown };
+    const type = reward.rewardType;
+    const sign = reward.entryType === "credit" ? 1 : -1;
+    let amount = 0;
+    let unit: string | null = null;
 
-    totalRewardsValue += amount;
-    rewardsCurrency = currency;
+    if (type === "credit") {
+      amount = reward.amount;
+      if (reward.currency) {
+        totalsByCurrency.set(
+          reward.currency,
+          (totalsByCurrency.get(reward.currency) ?? 0) + amount
+        );
+      }
+    } else if (type === "points") {
+      amount = reward.amount;
+      unit = "point";
+    } else if (type === "subscription_extension" && typeof rewardJson.duration === "number") {
+      amount = sign * rewardJson.duration;
+      unit = typeof rewardJson.durationUnit === "string" ? rewardJson.durationUnit : "month";
+    }
 
-    const existing = rewardsByType.get(type);
+    const key = `${type}:${reward.currency ?? ""}:${unit ?? ""}`;
+    const existing = rewardsByKey.get(key);
     if (existing) {
-      existing.amount += amount;
-      existing.count += 1;
+      existing.totalAmount += amount;
+      existing.count += sign;
     } else {
-      rewardsByType.set(type, { amount, currency, count: 1 });
+      rewardsByKey.set(key, {
+        type,
+        totalAmount: amount,
+        currency: reward.currency,
+        unit,
+        count: sign,
+      });
     }
   }
 
-  const rewardsSummary: RewardSummaryItem[] = Array.from(rewardsByType.entries()).map(
-    ([type, data]) => ({
-      type,
-      totalAmount: data.amount,
-      currency: data.currency,
-      count: data.count,
-    })
+  const rewardsSummary = Array.from(rewardsByKey.values()).filter(
+    (item) => item.count > 0 || item.totalAmount !== 0
   );
 
-  const referralLink = shareBaseUrl
-    ? `${shareBaseUrl}?ref=${encodeURIComponent(user.referralCode)}`
-    : user.referralCode;
+  const [recordedExpiries, dueExpiries] = await Promise.all([
+    db.query.rewardsLedger.findMany({
+      where: and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.userId, user.id),
+        eq(rewardsLedger.source, EXPIRY_SOURCE)
+      ),
+    }),
+    projectDueExpiries(db, tenantId, user.id),
+  ]);
+
+  // Credits that have lapsed but not yet been expired by the worker count as
+  // expired already.
+  const expiries = [
+    ...recordedExpiries.map((expiry) => ({ entry: expiry, amount: -expiry.amount })),
+    ...dueExpiries.map(({ credit, amount }) => ({ entry: credit, amount })),
+  ];
+
+  const expiredByKey = new Map<string, RewardSummaryItem>();
+
+  for (const { entry, amount } of expiries) {
+    const unit = entry.rewardType === "points" ? "point" : null;
+    const key = `${entry.rewardType}:${entry.currency ?? ""}:${unit ?? ""}`;
+    const existing = expiredByKey.get(key);
+    if (existing) {
+      existing.totalAmount += amount;
+      existing.count += 1;
+    } else {
+      expiredByKey.set(key, {
+        type: entry.rewardType,
+        totalAmount: amount,
+        currency: entry.currency,
+        unit,
+        count: 1,
+      });
+    }
+  }
+
+  const expiredRewards = Array.from(expiredByKey.values());
+
+  const rewardTotals = Array.from(totalsByCurrency.keys())
+    .sort()
+    .map((currency) => ({ currency, amount: totalsByCurrency.get(currency) ?? 0 }));
+
+  const tenant = await db.query.tenants.findFirst({
+    where: eq(tenants.id, tenantId),
+    columns: { referralSettingsJson: true },
+  });
+  const defaultCurrency = normalizeRewardRules(tenant?.referralSettingsJson).currency;
+
+  const buildLink = (code: string) =>
+    shareBaseUrl ? `${shareBaseUrl}?ref=${encodeURIComponent(code)}` : code;
+
+  const [codes, tenantCampaigns] = await Promise.all([
+    listReferralCodes(db, tenantId, user.id),
+    listCampaigns(db, tenantId),
+  ]);
+  const campaignNames = new Map(tenantCampaigns.map((campaign) => [campaign.id, campaign.name]));
+  const campaignCode = campaignId
+    ? codes.find((code) => code.active && code.campaignId === campaignId)
+    : undefined;
+  const referralLink = buildLink(campaignCode?.code ?? user.referralCode);
+
+  const channelLinks: ChannelLink[] = codes
+    .filter((code) => code.active)
+    .map((code) => ({
+      channel: code.channel,
+      campaignId: code.campaignId,
+      campaignName: code.campaignId ? campaignNames.get(code.campaignId) ?? null : null,
+      code: code.code,
+      link: buildLink(code.code),
+      primary: code.code === user.referralCode,
+    }))
+    .sort((a, b) => Number(b.primary) - Number(a.primary));
+
+  const rules = await loadEnabledRewardRules(db, tenantId, campaignId);
+  const next = findNextMilestoneRule(rules, user.plan, completedReferrals, new Date());
+  const nextReward = next ? RewardPayloadSchema.safeParse(next.rule.rewardReferrerJson) : null;
+
+  const nextMilestone: MilestoneProgress | null = next
+    ? {
+        milestone: next.milestone,
+        completedReferrals,
+        remaining: next.milestone - completedReferrals,
+        rewardDescription: nextReward?.success ? describeReward(nextReward.data) : null,
+      }
+    : null;
 
   return {
     found: true,
-    referralCode: user.referralCode,
+    referralCode: campaignCode?.code ?? user.referralCode,
     referralLink,
+    channelLinks,
     totalReferrals,
     pendingReferrals,
     completedReferrals,
     rewardsSummary,
-    totalRewardsValue,
-    rewardsCurrency,
+    rewardTotals,
+    defaultCurrency,
+    expiredRewards,
+    nextMilestone,
   };
 }
 
@@ -0,0 +1,77 @@
+/**
+ * Providers whose domain is shared by unrelated people, so a matching domain
+ * says nothing about the two users.
+ */
+export const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "yahoo.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.de",
+  "yandex.com",
+  "mail.com",
+  "zoho.com",
+]);
+
+export const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  "10minutemail.com",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "mailinator.com",
+  "maildrop.cc",
+  "mintemail.com",
+  "sharklasers.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+]);
+
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  if (at < 1 || at === email.length - 1) {
+    return null;
+  }
+  const domain = email.slice(at + 1).trim().toLowerCase();
+  return GMAIL_DOMAINS.has(domain) ? "gmail.com" : domain;
+}
+
+/**
+ * Reduces an address to the mailbox it is delivered to: lowercased, without
+ * a `+tag`, and for Gmail without dots in the local part.
+ */
+export function normalizeEmail(email: string): string | null {
+  const domain = getEmailDomain(email);
+  if (!domain) {
+    return null;
+  }
+
+  let local = email.slice(0, email.lastIndexOf("@")).trim().toLowerCase();
+  local = local.split("+")[0];
+  if (domain === "gmail.com") {
+    local = local.replace(/\./g, "");
+  }
+
+  return local ? `${local}@${domain}` : null;
+}
+
+export function isDisposableEmailDomain(domain: string, extraDomains: string[] = []): boolean {
+  return (
+    DISPOSABLE_EMAIL_DOMAINS.has(domain) ||
+    extraDomains.some((extra) => extra.toLowerCase() === domain)
+  );
+}
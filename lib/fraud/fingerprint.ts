@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { eq, and, ne, desc } from "drizzle-orm";
+import { referrals } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { REJECTED_STATUS } from "@/lib/referrals/review";
+import type { ReferralWindowViolation } from "@/lib/referrals/windows";
+
+/**
+ * What the host app knows about the browser that signed up, sent along with
+ * a claim because the claim request itself comes from the host's server.
+ * `fingerprint` is the host's device fingerprint, ideally already hashed.
+ * None of these are stored as sent, see `hashClaimValue`.
+ */
+export const ClaimClientContextSchema = z
+  .object({
+    fingerprint: z.string().trim().min(1).max(512).optional(),
+    userAgent: z.string().trim().min(1).max(1024).optional(),
+    ip: z.string().trim().ip("clientContext.ip must be an IP address").optional(),
+  })
+  .strict();
+
+export type ClaimClientContext = z.infer<typeof ClaimClientContextSchema>;
+
+/**
+ * A referrer is rewarded once per device: a claim for the same referrer with
+ * a fingerprint already used on one of their referrals is turned away.
+ * Rejected referrals do not count, since they were never rewarded.
+ */
+export async function checkFingerprintReuse(
+  executor: DbExecutor,
+  tenantId: string,
+  referrerUserId: string,
+  fingerprintHash: string | null
+): Promise<ReferralWindowViolation | null> {
+  if (!fingerprintHash) {
+    return null;
+  }
+
+  const [previous] = await executor
+    .select({ id: referrals.id, createdAt: referrals.createdAt })
+    .from(referrals)
+    .where(
+      and(
+        eq(referrals.tenantId, tenantId),
+        eq(referrals.referrerUserId, referrerUserId),
+        eq(referrals.claimFingerprintHash, fingerprintHash),
+        ne(referrals.status, REJECTED_STATUS)
+      )
+    )
+    .orderBy(desc(referrals.createdAt))
+    .limit(1);
+
+  if (!previous) {
+    return null;
+  }
+
+  return {
+    code: "DUPLICATE_FINGERPRINT",
+    message: "This device has already been used to claim a referral from this referrer",
+    status: 409,
+    details: {
+      previousReferralId: previous.id,
+      previousClaimedAt: previous.createdAt.toISOString(),
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { DbExecutor } from "@/lib/db";
+import { hashClientSignal } from "@/lib/crypto";
+import { DEFAULT_FRAUD_SIGNALS } from "./signals";
+
+export const HELD_FOR_REVIEW_STATUS = "held_for_review";
+
+/**
+ * Tenant settings stored as `fraud_scoring` in the referral settings. Each
+ * signal adds its weight to the claim's score when it fires; `weights`
+ * overrides the defaults per signal key, and a weight of 0 turns a signal
+ * off. Claims scoring at least `holdThreshold`, or on which any of
+ * `holdSignals` fired, are held for review. `blockDuplicateFingerprints`
+ * applies even when scoring is off, see `checkFingerprintReuse`.
+ */
+export const FraudScoringSettingsSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    holdThreshold: z.number().int().min(1).max(100).default(70),
+    holdSignals: z.array(z.string().min(1)).max(50).default([]),
+    weights: z.record(z.string(), z.number().int().min(0).max(100)).default({}),
+    velocityLimit: z.number().int().min(1).max(1000).default(5),
+    velocityWindowMinutes: z.number().int().min(1).max(10_080).default(60),
+    reuseWindowHours: z.number().int().min(1).max(8_760).default(24),
+    disposableDomains: z.array(z.string().min(1).max(255)).max(1000).default([]),
+    blockDuplicateFingerprints: z.boolean().default(true),
+  })
+  .strict();
+
+export type FraudScoringSettings = z.infer<typeof FraudScoringSettingsSchema>;
+
+export const DEFAULT_FRAUD_SCORING_SETTINGS: FraudScoringSettings =
+  FraudScoringSettingsSchema.parse({});
+
+export function getFraudScoringSettings(
+  settings: Record<string, unknown> | null | undefined
+): FraudScoringSettings {
+  const parsed = FraudScoringSettingsSchema.safeParse(settings?.fraud_scoring ?? {});
+  return parsed.success ? parsed.data : DEFAULT_FRAUD_SCORING_SETTINGS;
+}
+
+/**
+ * What a signal sees of a claim. IP and user agent are only available as
+ * hashes, see `hashClaimValue`, and only when the host app forwarded them in
+ * the claim's client context.
+ */
+export interface FraudClaimContext {
+  executor: DbExecutor;
+  tenantId: string;
+  referrerUserId: string;
+  referrerEmail: string | null;
+  referredEmail: string | null;
+  ipHash: string | null;
+  userAgentHash: string | null;
+  settings: FraudScoringSettings;
+  now: Date;
+}
+
+export type FraudReason = {
+  signal: string;
+  weight: number;
+  detail: Record<string, unknown>;
+};
+
+/**
+ * A fraud signal returns details when it fires and null otherwise.
+ */
+export interface FraudSignal {
+  key: string;
+  defaultWeight: number;
+  evaluate(context: FraudClaimContext): Promise<Record<string, unknown> | null>;
+}
+
+export interface FraudScore {
+  score: number;
+  reasons: FraudReason[];
+  held: boolean;
+}
+
+const NOT_SCORED: FraudScore = { score: 0, reasons: [], held: false };
+
+function getClaimHashSecret(): string {
+  const secret = process.env.REFERRALOS_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("REFERRALOS_SIGNING_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
+export function hashClaimValue(tenantId: string, value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed === "unknown") {
+    return null;
+  }
+  return hashClientSignal(tenantId, trimmed, getClaimHashSecret());
+}
+
+/**
+ * Runs every signal against a claim and sums the weights of those that
+ * fired, capped at 100.
+ */
+export async function scoreClaim(
+  context: FraudClaimContext,
+  signals: FraudSignal[] = DEFAULT_FRAUD_SIGNALS
+): Promise<FraudScore> {
+  const { settings } = context;
+
+  if (!settings.enabled) {
+    return NOT_SCORED;
+  }
+
+  const reasons: FraudReason[] = [];
+
+  for (const signal of signals) {
+    const weight = settings.weights[signal.key] ?? signal.defaultWeight;
+    if (weight <= 0 && !settings.holdSignals.includes(signal.key)) {
+      continue;
+    }
+
+    const detail = await signal.evaluate(context);
+    if (detail) {
+      reasons.push({ signal: signal.key, weight, detail });
+    }
+  }
+
+  const score = Math.min(
+    100,
+    reasons.reduce((sum, reason) => sum + reason.weight, 0)
+  );
+
+  const held =
+    score >= settings.holdThreshold ||
+    reasons.some((reason) => settings.holdSignals.includes(reason.signal));
+
+  return { score, reasons, held };
+}
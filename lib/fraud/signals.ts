@@ -0,0 +1,125 @@
+import { eq, and, gte, sql } from "drizzle-orm";
+import { referrals } from "@/db/schema";
+import {
+  FREE_EMAIL_DOMAINS,
+  getEmailDomain,
+  isDisposableEmailDomain,
+  normalizeEmail,
+} from "./email";
+import type { FraudClaimContext, FraudSignal } from "./scoring";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** The referred user's address is the referrer's own, give or take aliases. */
+export const sameEmailSignal: FraudSignal = {
+  key: "same_email",
+  defaultWeight: 80,
+  async evaluate({ referrerEmail, referredEmail }) {
+    if (!referrerEmail || !referredEmail) return null;
+    const normalized = normalizeEmail(referrerEmail);
+    if (!normalized || normalized !== normalizeEmail(referredEmail)) return null;
+    return { normalizedEmail: normalized };
+  },
+};
+
+/** Both users are on the same private domain. Free mail providers are ignored. */
+export const sameEmailDomainSignal: FraudSignal = {
+  key: "same_email_domain",
+  defaultWeight: 20,
+  async evaluate({ referrerEmail, referredEmail }) {
+    if (!referrerEmail || !referredEmail) return null;
+    const domain = getEmailDomain(referrerEmail);
+    if (!domain || FREE_EMAIL_DOMAINS.has(domain) || domain !== getEmailDomain(referredEmail)) {
+      return null;
+    }
+    return { domain };
+  },
+};
+
+export const disposableEmailSignal: FraudSignal = {
+  key: "disposable_email",
+  defaultWeight: 40,
+  async evaluate({ referredEmail, settings }) {
+    const domain = referredEmail ? getEmailDomain(referredEmail) : null;
+    if (!domain || !isDisposableEmailDomain(domain, settings.disposableDomains)) return null;
+    return { domain };
+  },
+};
+
+async function countRecentReferrerClaims(
+  context: FraudClaimContext,
+  since: Date,
+  match: { ipHash?: string; userAgentHash?: string } = {}
+): Promise<number> {
+  const [row] = await context.executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(referrals)
+    .where(
+      and(
+        eq(referrals.tenantId, context.tenantId),
+        eq(referrals.referrerUserId, context.referrerUserId),
+        gte(referrals.createdAt, since),
+        match.ipHash ? eq(referrals.claimIpHash, match.ipHash) : undefined,
+        match.userAgentHash ? eq(referrals.claimUserAgentHash, match.userAgentHash) : undefined
+      )
+    );
+
+  return row?.count ?? 0;
+}
+
+/** Another claim for the same referrer came from this IP recently. */
+export const ipReuseSignal: FraudSignal = {
+  key: "ip_reuse",
+  defaultWeight: 30,
+  async evaluate(context) {
+    if (!context.ipHash) return null;
+    const since = new Date(context.now.getTime() - context.settings.reuseWindowHours * HOUR_MS);
+    const previousClaims = await countRecentReferrerClaims(context, since, {
+      ipHash: context.ipHash,
+    });
+    if (previousClaims === 0) return null;
+    return { previousClaims, windowHours: context.settings.reuseWindowHours };
+  },
+};
+
+/**
+ * Another claim for the same referrer came from this IP with the same user
+ * agent, which points at one browser rather than a shared network.
+ */
+export const userAgentReuseSignal: FraudSignal = {
+  key: "user_agent_reuse",
+  defaultWeight: 20,
+  async evaluate(context) {
+    if (!context.ipHash || !context.userAgentHash) return null;
+    const since = new Date(context.now.getTime() - context.settings.reuseWindowHours * HOUR_MS);
+    const previousClaims = await countRecentReferrerClaims(context, since, {
+      ipHash: context.ipHash,
+      userAgentHash: context.userAgentHash,
+    });
+    if (previousClaims === 0) return null;
+    return { previousClaims, windowHours: context.settings.reuseWindowHours };
+  },
+};
+
+/** The referrer has had `velocityLimit` or more claims in the window. */
+export const claimVelocitySignal: FraudSignal = {
+  key: "claim_velocity",
+  defaultWeight: 30,
+  async evaluate(context) {
+    const { velocityLimit, velocityWindowMinutes } = context.settings;
+    const since = new Date(context.now.getTime() - velocityWindowMinutes * MINUTE_MS);
+    const recentClaims = await countRecentReferrerClaims(context, since);
+    if (recentClaims < velocityLimit) return null;
+    return { recentClaims, limit: velocityLimit, windowMinutes: velocityWindowMinutes };
+  },
+};
+
+export const DEFAULT_FRAUD_SIGNALS: FraudSignal[] = [
+  sameEmailSignal,
+  sameEmailDomainSignal,
+  disposableEmailSignal,
+  ipReuseSignal,
+  userAgentReuseSignal,
+  claimVelocitySignal,
+];
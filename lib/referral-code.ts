@@ -1,46 +1,75 @@
-import crypto from "crypto";
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { users } from "@/db/schema";
+import { referralCodes, tenants } from "@/db/schema";
+import {
+  DEFAULT_REFERRAL_CODE_FORMAT,
+  generateFormattedCode,
+  getReferralCodeFormat,
+} from "@/lib/referrals/format";
+import type { ReferralCodeFormat } from "@/lib/referrals/format";
 
-const URL_SAFE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
+export const MAX_REFERRAL_CODE_LENGTH = 50;
 
-function generateUrlSafeRandom(length: number): string {
-  const bytes = crypto.randomBytes(length);
-  let result = "";
-  for (let i = 0; i < length; i++) {
-    result += URL_SAFE_CHARS[bytes[i] % URL_SAFE_CHARS.length];
-  }
-  return result;
+/**
+ * Candidates are checked against the database in batches. Each batch that
+ * comes back fully taken makes the next batch one character longer, so a
+ * crowded code space yields longer codes instead of failures.
+ */
+const CANDIDATES_PER_ROUND = 5;
+const MAX_BACKOFF_ROUNDS = 4;
+
+export function generateReferralCodeCandidate(
+  format: ReferralCodeFormat = DEFAULT_REFERRAL_CODE_FORMAT,
+  extraLength: number = 0
+): string {
+  return generateFormattedCode(format, extraLength);
 }
 
-export function generateReferralCodeCandidate(): string {
-  const randomPart = generateUrlSafeRandom(12);
-  return `ref_${randomPart}`;
+export async function getTenantReferralCodeFormat(tenantId: string): Promise<ReferralCodeFormat> {
+  const tenant = await db.query.tenants.findFirst({
+    where: eq(tenants.id, tenantId),
+    columns: { referralSettingsJson: true },
+  });
+  return getReferralCodeFormat(tenant?.referralSettingsJson as Record<string, unknown> | null);
 }
 
 export async function checkCodeExists(
   tenantId: string,
   code: string
 ): Promise<boolean> {
-  const existing = await db.query.users.findFirst({
-    where: and(eq(users.tenantId, tenantId), eq(users.referralCode, code)),
+  const existing = await db.query.referralCodes.findFirst({
+    where: and(eq(referralCodes.tenantId, tenantId), eq(referralCodes.code, code)),
     columns: { id: true },
   });
   return !!existing;
 }
 
+async function findTakenCodes(tenantId: string, codes: string[]): Promise<Set<string>> {
+  const rows = await db
+    .select({ code: referralCodes.code })
+    .from(referralCodes)
+    .where(and(eq(referralCodes.tenantId, tenantId), inArray(referralCodes.code, codes)));
+  return new Set(rows.map((row) => row.code));
+}
+
 export async function generateUniqueReferralCode(
   tenantId: string,
-  maxAttempts: number = 5
+  format?: ReferralCodeFormat
 ): Promise<string> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const code = generateReferralCodeCandidate();
-    const exists = await checkCodeExists(tenantId, code);
-    if (!exists) {
-      return code;
+  const codeFormat = format ?? (await getTenantReferralCodeFormat(tenantId));
+
+  for (let round = 0; round < MAX_BACKOFF_ROUNDS; round++) {
+    const candidates = Array.from({ length: CANDIDATES_PER_ROUND }, () =>
+      generateReferralCodeCandidate(codeFormat, round)
+    );
+    const taken = await findTakenCodes(tenantId, candidates);
+    const available = candidates.find((code) => !taken.has(code));
+
+    if (available) {
+      return available;
     }
   }
+
   throw new Error("Failed to generate unique referral code after max attempts");
 }
 
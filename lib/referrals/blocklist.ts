@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { eq, asc } from "drizzle-orm";
+import { referralCodeBlocklist } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+
+export const MAX_BLOCKLIST_TERMS = 500;
+
+/**
+ * Codes and terms are compared with case and separators removed, so a blocked
+ * term also catches `Term_20` and `T-E-R-M`.
+ */
+export function normalizeBlocklistTerm(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export const BlocklistTermSchema = z
+  .string()
+  .trim()
+  .transform(normalizeBlocklistTerm)
+  .pipe(
+    z
+      .string()
+      .min(2, "Blocklist terms must contain at least 2 letters or digits")
+      .max(50, "Blocklist terms must be at most 50 characters")
+  );
+
+export const BlocklistSchema = z
+  .array(BlocklistTermSchema)
+  .max(MAX_BLOCKLIST_TERMS, `Blocklist cannot contain more than ${MAX_BLOCKLIST_TERMS} terms`)
+  .transform((terms) => Array.from(new Set(terms)).sort());
+
+export async function getReferralCodeBlocklist(
+  executor: DbExecutor,
+  tenantId: string
+): Promise<string[]> {
+  const rows = await executor
+    .select({ term: referralCodeBlocklist.term })
+    .from(referralCodeBlocklist)
+    .where(eq(referralCodeBlocklist.tenantId, tenantId))
+    .orderBy(asc(referralCodeBlocklist.term));
+
+  return rows.map((row) => row.term);
+}
+
+/**
+ * Returns the blocklist terms the code contains, or an empty array when the
+ * code is allowed.
+ */
+export function findBlockedTerms(code: string, blocklist: string[]): string[] {
+  const normalized = normalizeBlocklistTerm(code);
+  return blocklist.filter((term) => normalized.includes(term));
+}
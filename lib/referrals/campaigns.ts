@@ -0,0 +1,339 @@
+import { z } from "zod";
+import { eq, and, asc, isNotNull, sql } from "drizzle-orm";
+import { campaigns, referrals, rewardsLedger } from "@/db/schema";
+import { CurrencyCodeSchema } from "@/lib/rewards/types";
+import { earnedEntriesFilter } from "@/lib/rewards/ledger";
+import type { DbExecutor } from "@/lib/db";
+import type { CurrencyAmount } from "@/lib/rewards/currency";
+import type { BudgetUsage } from "@/lib/rewards/budget";
+
+export type CampaignRecord = typeof campaigns.$inferSelect;
+
+export const CampaignKeySchema = z
+  .string()
+  .min(1, "Campaign key is required")
+  .max(50, "Campaign key must be at most 50 characters")
+  .regex(/^[a-z0-9][a-z0-9_-]*$/, "Campaign key may only contain lowercase letters, numbers, '_' and '-'");
+
+const hexColor = z.string().regex(/^#[0-9A-Fa-f]{6}$/);
+
+/**
+ * The subset of tenant branding a campaign can override in the embed.
+ */
+export const CampaignBrandingSchema = z
+  .object({
+    logoUrl: z.string().url().optional(),
+    productName: z.string().min(1).max(255).optional(),
+    accentColor: hexColor.optional(),
+    backgroundColor: hexColor.optional(),
+    textColor: hexColor.optional(),
+    title: z.string().min(1).max(255).optional(),
+    description: z.string().max(1000).optional(),
+  })
+  .strict();
+
+const campaignFields = {
+  name: z.string().trim().min(1, "name is required").max(100),
+  startsAt: z.string().datetime({ offset: true }).nullable(),
+  endsAt: z.string().datetime({ offset: true }).nullable(),
+  budgetAmount: z
+    .number()
+    .int("budgetAmount must be a whole number of minor units")
+    .positive("budgetAmount must be positive")
+    .nullable(),
+  budgetCurrency: CurrencyCodeSchema.nullable(),
+  budgetPeriod: z.enum(["month", "program"]),
+  perReferrerCap: z.number().int().positive("perReferrerCap must be positive").nullable(),
+  shareMessage: z.string().max(500).nullable(),
+  brandingJson: CampaignBrandingSchema.nullable(),
+};
+
+type CampaignWindowInput = {
+  startsAt?: string | null;
+  endsAt?: string | null;
+  budgetAmount?: number | null;
+  budgetCurrency?: string | null;
+};
+
+function hasValidWindow(input: CampaignWindowInput): boolean {
+  return !input.startsAt || !input.endsAt || new Date(input.endsAt) > new Date(input.startsAt);
+}
+
+function hasBudgetCurrency(input: CampaignWindowInput): boolean {
+  return input.budgetAmount == null || input.budgetCurrency != null;
+}
+
+export const CampaignCreateSchema = z
+  .object({
+    key: CampaignKeySchema,
+    name: campaignFields.name,
+    startsAt: campaignFields.startsAt.optional(),
+    endsAt: campaignFields.endsAt.optional(),
+    budgetAmount: campaignFields.budgetAmount.optional(),
+    budgetCurrency: campaignFields.budgetCurrency.optional(),
+    budgetPeriod: campaignFields.budgetPeriod.optional(),
+    perReferrerCap: campaignFields.perReferrerCap.optional(),
+    shareMessage: campaignFields.shareMessage.optional(),
+    brandingJson: campaignFields.brandingJson.optional(),
+  })
+  .strict()
+  .refine(hasValidWindow, { message: "endsAt must be after startsAt", path: ["endsAt"] })
+  .refine(hasBudgetCurrency, {
+    message: "budgetCurrency is required with budgetAmount",
+    path: ["budgetCurrency"],
+  });
+
+export const CampaignUpdateSchema = z
+  .object({
+    name: campaignFields.name.optional(),
+    startsAt: campaignFields.startsAt.optional(),
+    endsAt: campaignFields.endsAt.optional(),
+    budgetAmount: campaignFields.budgetAmount.optional(),
+    budgetCurrency: campaignFields.budgetCurrency.optional(),
+    budgetPeriod: campaignFields.budgetPeriod.optional(),
+    perReferrerCap: campaignFields.perReferrerCap.optional(),
+    shareMessage: campaignFields.shareMessage.optional(),
+    brandingJson: campaignFields.brandingJson.optional(),
+    archived: z.boolean().optional(),
+  })
+  .strict();
+
+export type CampaignCreateInput = z.infer<typeof CampaignCreateSchema>;
+export type CampaignUpdateInput = z.infer<typeof CampaignUpdateSchema>;
+
+/**
+ * Checks the merged result of an update, since either end of the window or
+ * the budget may change on its own.
+ */
+export function validateCampaignUpdate(
+  existing: CampaignRecord,
+  input: CampaignUpdateInput
+): string | null {
+  const merged: CampaignWindowInput = {
+    startsAt: input.startsAt !== undefined ? input.startsAt : existing.startsAt?.toISOString(),
+    endsAt: input.endsAt !== undefined ? input.endsAt : existing.endsAt?.toISOString(),
+    budgetAmount: input.budgetAmount !== undefined ? input.budgetAmount : existing.budgetAmount,
+    budgetCurrency:
+      input.budgetCurrency !== undefined ? input.budgetCurrency : existing.budgetCurrency,
+  };
+
+  if (!hasValidWindow(merged)) {
+    return "endsAt must be after startsAt";
+  }
+  if (!hasBudgetCurrency(merged)) {
+    return "budgetCurrency is required with budgetAmount";
+  }
+  return null;
+}
+
+export function toDateOrNull(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value === null ? null : new Date(value);
+}
+
+/**
+ * A campaign attributes claims while it is not archived and `now` is inside
+ * its window. Either end of the window may be open.
+ */
+export function isCampaignActive(
+  campaign: Pick<CampaignRecord, "startsAt" | "endsAt" | "archivedAt">,
+  now: Date = new Date()
+): boolean {
+  if (campaign.archivedAt) return false;
+  if (campaign.startsAt && now < campaign.startsAt) return false;
+  if (campaign.endsAt && now >= campaign.endsAt) return false;
+  return true;
+}
+
+export async function getCampaign(
+  executor: DbExecutor,
+  tenantId: string,
+  campaignId: string
+): Promise<CampaignRecord | null> {
+  const [campaign] = await executor
+    .select()
+    .from(campaigns)
+    .where(and(eq(campaigns.tenantId, tenantId), eq(campaigns.id, campaignId)))
+    .limit(1);
+
+  return campaign ?? null;
+}
+
+export async function getCampaignByKey(
+  executor: DbExecutor,
+  tenantId: string,
+  key: string
+): Promise<CampaignRecord | null> {
+  const [campaign] = await executor
+    .select()
+    .from(campaigns)
+    .where(and(eq(campaigns.tenantId, tenantId), eq(campaigns.key, key)))
+    .limit(1);
+
+  return campaign ?? null;
+}
+
+export async function listCampaigns(
+  executor: DbExecutor,
+  tenantId: string
+): Promise<CampaignRecord[]> {
+  return executor
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.tenantId, tenantId))
+    .orderBy(asc(campaigns.createdAt), asc(campaigns.key));
+}
+
+/**
+ * Number of referrals a referrer has been attributed in a campaign, for the
+ * campaign's per-referrer cap. Reversed referrals still count so a reversal
+ * cannot be used to reopen the cap.
+ */
+export async function countCampaignReferralsByReferrer(
+  executor: DbExecutor,
+  tenantId: string,
+  campaignId: string,
+  referrerUserId: string
+): Promise<number> {
+  const [row] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(referrals)
+    .where(
+      and(
+        eq(referrals.tenantId, tenantId),
+        eq(referrals.campaignId, campaignId),
+        eq(referrals.referrerUserId, referrerUserId)
+      )
+    );
+
+  return row?.count ?? 0;
+}
+
+export interface CampaignStats {
+  totalReferrals: number;
+  pendingReferrals: number;
+  completedReferrals: number;
+  unrewardedReferrals: number;
+  reversedReferrals: number;
+  rewardsEarnedByCurrency: CurrencyAmount[];
+}
+
+export const EMPTY_CAMPAIGN_STATS: CampaignStats = {
+  totalReferrals: 0,
+  pendingReferrals: 0,
+  completedReferrals: 0,
+  unrewardedReferrals: 0,
+  reversedReferrals: 0,
+  rewardsEarnedByCurrency: [],
+};
+
+/**
+ * Referral counts and net credit rewards for every campaign of a tenant,
+ * keyed by campaign id. Campaigns without activity are absent.
+ */
+export async function getCampaignStats(
+  executor: DbExecutor,
+  tenantId: string
+): Promise<Map<string, CampaignStats>> {
+  const [referralRows, rewardRows] = await Promise.all([
+    executor
+      .select({
+        campaignId: referrals.campaignId,
+        totalReferrals: sql<number>`count(*)::int`,
+        pendingReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'pending')::int`,
+        completedReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'completed')::int`,
+        unrewardedReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'completed_unrewarded')::int`,
+        reversedReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'reversed')::int`,
+      })
+      .from(referrals)
+      .where(and(eq(referrals.tenantId, tenantId), isNotNull(referrals.campaignId)))
+      .groupBy(referrals.campaignId),
+    executor
+      .select({
+        campaignId: rewardsLedger.campaignId,
+        currency: rewardsLedger.currency,
+        amount: sql<number>`COALESCE(SUM(${rewardsLedger.amount}) FILTER (WHERE ${earnedEntriesFilter()}), 0)::int`,
+      })
+      .from(rewardsLedger)
+      .where(
+        and(
+          eq(rewardsLedger.tenantId, tenantId),
+          eq(rewardsLedger.rewardType, "credit"),
+          isNotNull(rewardsLedger.campaignId),
+          isNotNull(rewardsLedger.currency)
+        )
+      )
+      .groupBy(rewardsLedger.campaignId, rewardsLedger.currency)
+      .orderBy(rewardsLedger.currency),
+  ]);
+
+  const statsById = new Map<string, CampaignStats>();
+  const statsFor = (campaignId: string): CampaignStats => {
+    let stats = statsById.get(campaignId);
+    if (!stats) {
+      stats = { ...EMPTY_CAMPAIGN_STATS, rewardsEarnedByCurrency: [] };
+      statsById.set(campaignId, stats);
+    }
+    return stats;
+  };
+
+  for (const row of referralRows) {
+    const { campaignId, ...counts } = row;
+    Object.assign(statsFor(campaignId!), counts);
+  }
+  for (const row of rewardRows) {
+    statsFor(row.campaignId!).rewardsEarnedByCurrency.push({
+      currency: row.currency!,
+      amount: row.amount,
+    });
+  }
+
+  return statsById;
+}
+
+export interface CampaignSummary {
+  id: string;
+  key: string;
+  name: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  budgetAmount: number | null;
+  budgetCurrency: string | null;
+  budgetPeriod: string;
+  budget: BudgetUsage | null;
+  perReferrerCap: number | null;
+  shareMessage: string | null;
+  brandingJson: Record<string, unknown> | null;
+  active: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  stats: CampaignStats;
+}
+
+export function serializeCampaign(
+  campaign: CampaignRecord,
+  stats: CampaignStats = EMPTY_CAMPAIGN_STATS,
+  now: Date = new Date(),
+  budget: BudgetUsage | null = null
+): CampaignSummary {
+  return {
+    id: campaign.id,
+    key: campaign.key,
+    name: campaign.name,
+    startsAt: campaign.startsAt?.toISOString() ?? null,
+    endsAt: campaign.endsAt?.toISOString() ?? null,
+    budgetAmount: campaign.budgetAmount,
+    budgetCurrency: campaign.budgetCurrency,
+    budgetPeriod: campaign.budgetPeriod,
+    budget,
+    perReferrerCap: campaign.perReferrerCap,
+    shareMessage: campaign.shareMessage,
+    brandingJson: campaign.brandingJson,
+    active: isCampaignActive(campaign, now),
+    archivedAt: campaign.archivedAt?.toISOString() ?? null,
+    createdAt: campaign.createdAt.toISOString(),
+    updatedAt: campaign.updatedAt.toISOString(),
+    stats,
+  };
+}
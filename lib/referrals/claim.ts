@@ -0,0 +1,121 @@
+import { eq, and, sql } from "drizzle-orm";
+import { referrals } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { calculateRewards } from "@/lib/rewards/engine";
+import { insertRewardEntries } from "@/lib/rewards/ledger";
+import { awardMilestones } from "@/lib/rewards/milestones";
+import { loadEnabledRewardRules } from "@/lib/rewards/rules";
+import {
+  loadRewardBudgets,
+  checkRewardBudgets,
+  getPendingRewardEntries,
+  recordBudgetExhausted,
+} from "@/lib/rewards/budget";
+import type { CalculateRewardsInput, CalculateRewardsOutput } from "@/lib/rewards/engine";
+import type { TenantPlan } from "@/lib/tenant/plans";
+import type { ReferralRecord } from "@/lib/referrals/convert";
+import type { UserRecord } from "@/lib/referrals/vanity";
+
+export interface ClaimRewardsInput {
+  referral: ReferralRecord;
+  referrer: UserRecord;
+  referredUser: UserRecord;
+  tenantRewardSettings: Record<string, unknown> | null | undefined;
+  plans: TenantPlan[];
+  /** Calculate the rewards but write nothing, for claims held for review. */
+  withhold?: boolean;
+}
+
+export interface ClaimRewardsResult {
+  ruleKey: string | null;
+  rewards: CalculateRewardsOutput | null;
+  /** True when a reward budget was exhausted and the rewards were not written. */
+  rewardsWithheld: boolean;
+  eventIds: string[];
+}
+
+/**
+ * Grants the `referral.claimed` rewards of a referral, used when a claim is
+ * recorded and when a held claim is approved. Rewards are withheld once a
+ * budget is spent: `program.budget_exhausted` is recorded, `rewardsWithheld`
+ * is set, and the referral stays pending so its conversion is checked
+ * against the budget again. Returns the ids of events to enqueue after
+ * commit.
+ */
+export async function grantClaimRewards(
+  executor: DbExecutor,
+  tenantId: string,
+  input: ClaimRewardsInput
+): Promise<ClaimRewardsResult> {
+  const { referral, referrer, referredUser } = input;
+
+  const [completedCount] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(referrals)
+    .where(
+      and(
+        eq(referrals.tenantId, tenantId),
+        eq(referrals.referrerUserId, referrer.id),
+        eq(referrals.status, "completed")
+      )
+    );
+
+  const rules = await loadEnabledRewardRules(executor, tenantId, referral.campaignId);
+
+  const rewardInput: CalculateRewardsInput = {
+    referralId: referral.id,
+    referrerUserId: referrer.id,
+    referrerExternalUserId: referrer.externalUserId,
+    referrerTier: referrer.plan,
+    referredUserId: referredUser.id,
+    referredExternalUserId: referral.referredExternalUserId,
+    tenantRewardSettings: input.tenantRewardSettings,
+    eventType: "referral.claimed",
+    referredTier: referredUser.plan,
+    referralCount: completedCount?.count ?? 0,
+    occurredAt: referral.createdAt,
+    rules,
+    plans: input.plans,
+    campaignId: referral.campaignId,
+  };
+
+  const rewardCalc = calculateRewards(rewardInput);
+
+  if (input.withhold) {
+    return { ruleKey: rewardCalc.ruleKey, rewards: null, rewardsWithheld: false, eventIds: [] };
+  }
+
+  const budgets = await loadRewardBudgets(
+    executor,
+    tenantId,
+    input.tenantRewardSettings,
+    referral.campaignId
+  );
+  const exhaustion = await checkRewardBudgets(
+    executor,
+    tenantId,
+    budgets,
+    getPendingRewardEntries(rewardCalc, rewardInput),
+    new Date()
+  );
+
+  if (exhaustion) {
+    const budgetEventId = await recordBudgetExhausted(executor, tenantId, exhaustion, referral.id);
+    return {
+      ruleKey: rewardCalc.ruleKey,
+      rewards: null,
+      rewardsWithheld: true,
+      eventIds: budgetEventId ? [budgetEventId] : [],
+    };
+  }
+
+  await insertRewardEntries(executor, tenantId, rewardCalc);
+  const milestoneEventIds = await awardMilestones(executor, tenantId, rewardInput);
+
+  return {
+    ruleKey: rewardCalc.ruleKey,
+    rewards: rewardCalc,
+    rewardsWithheld: false,
+    eventIds: milestoneEventIds,
+  };
+}
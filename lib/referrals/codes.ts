@@ -0,0 +1,374 @@
+import { z } from "zod";
+import { eq, and, asc, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users, referrals, referralCodes, events } from "@/db/schema";
+import { generateUniqueReferralCode, getTenantReferralCodeFormat } from "@/lib/referral-code";
+import { getReferralCodeBlocklist, findBlockedTerms } from "@/lib/referrals/blocklist";
+import { getCampaign } from "@/lib/referrals/campaigns";
+import { getReferralWindowSettings, computeReferralCodeExpiry } from "@/lib/referrals/windows";
+import { getTenant } from "@/lib/db-helpers";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+import type { DbExecutor } from "@/lib/db";
+
+export type ReferralCodeRecord = typeof referralCodes.$inferSelect;
+
+export const ReferralCodeChannelSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "channel cannot be empty")
+  .max(50, "channel must be at most 50 characters")
+  .regex(/^[a-z0-9_-]+$/, "channel may only contain letters, digits, '_' and '-'");
+
+export const ReferralCodeCampaignIdSchema = z.string().uuid("campaignId must be a UUID");
+
+export interface ReferralCodeError {
+  success: false;
+  code: string;
+  message: string;
+  status: number;
+  details?: Record<string, unknown>;
+}
+
+export const CODE_TAKEN_ERROR: ReferralCodeError = {
+  success: false,
+  code: "REFERRAL_CODE_TAKEN",
+  message: "This referral code is already in use",
+  status: 409,
+};
+
+const USER_NOT_FOUND_ERROR: ReferralCodeError = {
+  success: false,
+  code: "USER_NOT_FOUND",
+  message: "User not found",
+  status: 404,
+};
+
+export const CAMPAIGN_NOT_FOUND_ERROR: ReferralCodeError = {
+  success: false,
+  code: "CAMPAIGN_NOT_FOUND",
+  message: "Campaign not found",
+  status: 404,
+};
+
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+/**
+ * Checks a custom code against the tenant's blocklist and the prefix its
+ * generated codes use, which is reserved so custom codes cannot take codes
+ * the generator might hand out later.
+ */
+export async function validateCustomReferralCode(
+  tenantId: string,
+  code: string
+): Promise<ReferralCodeError | null> {
+  const format = await getTenantReferralCodeFormat(tenantId);
+  if (format.prefix && code.toLowerCase().startsWith(format.prefix.toLowerCase())) {
+    return {
+      success: false,
+      code: "INVALID_REQUEST",
+      message: `referralCode cannot start with the reserved prefix '${format.prefix}'`,
+      status: 400,
+    };
+  }
+
+  const blockedTerms = findBlockedTerms(code, await getReferralCodeBlocklist(db, tenantId));
+  if (blockedTerms.length === 0) {
+    return null;
+  }
+
+  return {
+    success: false,
+    code: "REFERRAL_CODE_BLOCKED",
+    message: "This referral code contains a blocked term",
+    status: 400,
+    details: { terms: blockedTerms },
+  };
+}
+
+export async function insertReferralCode(
+  executor: DbExecutor,
+  values: {
+    tenantId: string;
+    userId: string;
+    code: string;
+    channel?: string | null;
+    campaignId?: string | null;
+    expiresAt?: Date | null;
+  }
+): Promise<ReferralCodeRecord> {
+  const [record] = await executor
+    .insert(referralCodes)
+    .values({
+      tenantId: values.tenantId,
+      userId: values.userId,
+      code: values.code,
+      channel: values.channel ?? null,
+      campaignId: values.campaignId ?? null,
+      expiresAt: values.expiresAt ?? null,
+    })
+    .returning();
+
+  return record;
+}
+
+export async function listReferralCodes(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string
+): Promise<ReferralCodeRecord[]> {
+  return executor
+    .select()
+    .from(referralCodes)
+    .where(and(eq(referralCodes.tenantId, tenantId), eq(referralCodes.userId, userId)))
+    .orderBy(asc(referralCodes.createdAt), asc(referralCodes.code));
+}
+
+export interface ReferralCodeStats {
+  code: string;
+  totalReferrals: number;
+  pendingReferrals: number;
+  completedReferrals: number;
+  reversedReferrals: number;
+}
+
+/**
+ * Referral counts for each code the referrer's referrals were claimed with,
+ * keyed by `refCodeUsed`.
+ */
+export async function getReferralCodeStats(
+  executor: DbExecutor,
+  tenantId: string,
+  referrerUserId: string
+): Promise<Map<string, ReferralCodeStats>> {
+  const rows = await executor
+    .select({
+      code: referrals.refCodeUsed,
+      totalReferrals: sql<number>`count(*)::int`,
+      pendingReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'pending')::int`,
+      completedReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'completed')::int`,
+      reversedReferrals: sql<number>`count(*) filter (where ${referrals.status} = 'reversed')::int`,
+    })
+    .from(referrals)
+    .where(and(eq(referrals.tenantId, tenantId), eq(referrals.referrerUserId, referrerUserId)))
+    .groupBy(referrals.refCodeUsed);
+
+  return new Map(rows.map((row) => [row.code, row]));
+}
+
+export interface ReferralCodeSummary {
+  code: string;
+  channel: string | null;
+  campaignId: string | null;
+  active: boolean;
+  primary: boolean;
+  deactivatedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  stats: Omit<ReferralCodeStats, "code">;
+}
+
+export async function summarizeReferralCodes(
+  executor: DbExecutor,
+  tenantId: string,
+  user: { id: string; referralCode: string }
+): Promise<ReferralCodeSummary[]> {
+  const [codes, statsByCode] = await Promise.all([
+    listReferralCodes(executor, tenantId, user.id),
+    getReferralCodeStats(executor, tenantId, user.id),
+  ]);
+
+  return codes.map((record) => {
+    const stats = statsByCode.get(record.code);
+    return {
+      code: record.code,
+      channel: record.channel,
+      campaignId: record.campaignId,
+      active: record.active,
+      primary: record.code === user.referralCode,
+      deactivatedAt: record.deactivatedAt?.toISOString() ?? null,
+      expiresAt: record.expiresAt?.toISOString() ?? null,
+      createdAt: record.createdAt.toISOString(),
+      stats: {
+        totalReferrals: stats?.totalReferrals ?? 0,
+        pendingReferrals: stats?.pendingReferrals ?? 0,
+        completedReferrals: stats?.completedReferrals ?? 0,
+        reversedReferrals: stats?.reversedReferrals ?? 0,
+      },
+    };
+  });
+}
+
+export interface ReferralCodeResult {
+  success: true;
+  referralCode: ReferralCodeRecord;
+  primary: boolean;
+}
+
+export type ReferralCodeOutcome = ReferralCodeResult | ReferralCodeError;
+
+/**
+ * Adds another code to a user, generated unless `code` is given. The user's
+ * primary code is unchanged.
+ */
+export async function createReferralCode(
+  tenantId: string,
+  externalUserId: string,
+  input: { code?: string; channel?: string | null; campaignId?: string | null }
+): Promise<ReferralCodeOutcome> {
+  if (input.code) {
+    const invalid = await validateCustomReferralCode(tenantId, input.code);
+    if (invalid) {
+      return invalid;
+    }
+  }
+
+  if (input.campaignId && !(await getCampaign(db, tenantId, input.campaignId))) {
+    return CAMPAIGN_NOT_FOUND_ERROR;
+  }
+
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.tenantId, tenantId), eq(users.externalUserId, externalUserId)),
+  });
+
+  if (!user) {
+    return USER_NOT_FOUND_ERROR;
+  }
+
+  const code = input.code ?? (await generateUniqueReferralCode(tenantId));
+  const tenant = await getTenant(tenantId);
+  const windows = getReferralWindowSettings(
+    tenant?.referralSettingsJson as Record<string, unknown> | null | undefined
+  );
+
+  let record: ReferralCodeRecord;
+  try {
+    record = await insertReferralCode(db, {
+      tenantId,
+      userId: user.id,
+      code,
+      channel: input.channel,
+      campaignId: input.campaignId,
+      expiresAt: computeReferralCodeExpiry(windows),
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return CODE_TAKEN_ERROR;
+    }
+    throw error;
+  }
+
+  const [event] = await db
+    .insert(events)
+    .values({
+      tenantId,
+      type: "referral_code.created",
+      campaignId: record.campaignId,
+      payloadJson: {
+        externalUserId,
+        referralCode: record.code,
+        channel: record.channel,
+        campaignId: record.campaignId,
+        createdAt: record.createdAt.toISOString(),
+      },
+    })
+    .returning();
+
+  enqueueWebhookForExistingEvent(tenantId, event.id).catch(() => {
+  });
+
+  return { success: true, referralCode: record, primary: false };
+}
+
+/**
+ * Updates one of a user's codes. The primary code cannot be deactivated;
+ * switch the user to another code first.
+ */
+export async function updateReferralCode(
+  tenantId: string,
+  externalUserId: string,
+  code: string,
+  input: { active?: boolean; channel?: string | null; campaignId?: string | null }
+): Promise<ReferralCodeOutcome> {
+  if (input.campaignId && !(await getCampaign(db, tenantId, input.campaignId))) {
+    return CAMPAIGN_NOT_FOUND_ERROR;
+  }
+
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.tenantId, tenantId), eq(users.externalUserId, externalUserId)),
+  });
+
+  if (!user) {
+    return USER_NOT_FOUND_ERROR;
+  }
+
+  const existing = await db.query.referralCodes.findFirst({
+    where: and(
+      eq(referralCodes.tenantId, tenantId),
+      eq(referralCodes.userId, user.id),
+      eq(referralCodes.code, code)
+    ),
+  });
+
+  if (!existing) {
+    return {
+      success: false,
+      code: "REFERRAL_CODE_NOT_FOUND",
+      message: "The referral code does not exist",
+      status: 404,
+    };
+  }
+
+  const primary = existing.code === user.referralCode;
+
+  if (input.active === false && primary) {
+    return {
+      success: false,
+      code: "PRIMARY_REFERRAL_CODE",
+      message: "The primary referral code cannot be deactivated",
+      status: 409,
+    };
+  }
+
+  const now = new Date();
+  const activeChanged = input.active !== undefined && input.active !== existing.active;
+
+  const [record] = await db
+    .update(referralCodes)
+    .set({
+      ...(input.channel !== undefined && { channel: input.channel }),
+      ...(input.campaignId !== undefined && { campaignId: input.campaignId }),
+      ...(activeChanged && {
+        active: input.active,
+        deactivatedAt: input.active ? null : now,
+      }),
+      updatedAt: now,
+    })
+    .where(eq(referralCodes.id, existing.id))
+    .returning();
+
+  if (activeChanged) {
+    const [event] = await db
+      .insert(events)
+      .values({
+        tenantId,
+        type: record.active ? "referral_code.reactivated" : "referral_code.deactivated",
+        campaignId: record.campaignId,
+        payloadJson: {
+          externalUserId,
+          referralCode: record.code,
+          channel: record.channel,
+          campaignId: record.campaignId,
+          updatedAt: now.toISOString(),
+        },
+      })
+      .returning();
+
+    enqueueWebhookForExistingEvent(tenantId, event.id).catch(() => {
+    });
+  }
+
+  return { success: true, referralCode: record, primary };
+}
@@ -0,0 +1,225 @@
+import { eq, and, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users, referrals, events, tenants } from "@/db/schema";
+import { calculateRewards } from "@/lib/rewards/engine";
+import { insertRewardEntries } from "@/lib/rewards/ledger";
+import { awardMilestones } from "@/lib/rewards/milestones";
+import { loadEnabledRewardRules } from "@/lib/rewards/rules";
+import {
+  loadRewardBudgets,
+  checkRewardBudgets,
+  getPendingRewardEntries,
+  recordBudgetExhausted,
+} from "@/lib/rewards/budget";
+import { getTenantPlanCatalog } from "@/lib/tenant/plans";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+import type { CalculateRewardsInput, CalculateRewardsOutput } from "@/lib/rewards/engine";
+
+export type ReferralRecord = typeof referrals.$inferSelect;
+
+/** Converted, but the rewards were withheld because a budget ran out. */
+export const COMPLETED_UNREWARDED_STATUS = "completed_unrewarded";
+
+export interface ConvertReferralResult {
+  success: true;
+  referral: ReferralRecord;
+  referrerExternalUserId: string;
+  rewards: CalculateRewardsOutput | null;
+  alreadyProcessed: boolean;
+}
+
+export interface ConvertReferralError {
+  success: false;
+  code: string;
+  message: string;
+  status: number;
+}
+
+export type ConvertReferralOutcome = ConvertReferralResult | ConvertReferralError;
+
+export async function convertReferral(
+  tenantId: string,
+  referralId: string
+): Promise<ConvertReferralOutcome> {
+  const result = await db.transaction(async (tx) => {
+    const [referral] = await tx
+      .select()
+      .from(referrals)
+      .where(and(eq(referrals.id, referralId), eq(referrals.tenantId, tenantId)))
+      .for("update");
+
+    if (!referral) {
+      return {
+        success: false as const,
+        code: "REFERRAL_NOT_FOUND",
+        message: "Referral not found",
+        status: 404,
+      };
+    }
+
+    const referrer = await tx.query.users.findFirst({
+      where: eq(users.id, referral.referrerUserId),
+    });
+
+    if (!referrer) {
+      throw new Error("Referrer user not found for referral");
+    }
+
+    if (referral.status === "completed" || referral.status === COMPLETED_UNREWARDED_STATUS) {
+      return {
+        success: true as const,
+        referral,
+        referrerExternalUserId: referrer.externalUserId,
+        rewards: null,
+        alreadyProcessed: true,
+        eventIds: [],
+      };
+    }
+
+    if (referral.status !== "pending") {
+      return {
+        success: false as const,
+        code: "REFERRAL_NOT_CONVERTIBLE",
+        message: `Referral cannot be converted from status "${referral.status}"`,
+        status: 409,
+      };
+    }
+
+    if (!referral.referredUserId) {
+      throw new Error("Referred user not found for referral");
+    }
+
+    const tenant = await tx.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    const referredUser = await tx.query.users.findFirst({
+      where: eq(users.id, referral.referredUserId),
+    });
+
+    const completedAt = new Date();
+
+    const [convertedReferral] = await tx
+      .update(referrals)
+      .set({
+        status: "completed",
+        completedAt,
+      })
+      .where(eq(referrals.id, referral.id))
+      .returning();
+
+    const [completedCount] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(referrals)
+      .where(
+        and(
+          eq(referrals.tenantId, tenantId),
+          eq(referrals.referrerUserId, referrer.id),
+          eq(referrals.status, "completed")
+        )
+      );
+
+    const rules = await loadEnabledRewardRules(tx, tenantId, referral.campaignId);
+    const plans = await getTenantPlanCatalog(tx, tenantId);
+
+    const rewardInput: CalculateRewardsInput = {
+      referralId: referral.id,
+      referrerUserId: referrer.id,
+      referrerExternalUserId: referrer.externalUserId,
+      referrerTier: referrer.plan,
+      referredUserId: referral.referredUserId,
+      referredExternalUserId: referral.referredExternalUserId,
+      tenantRewardSettings: tenant?.referralSettingsJson,
+      eventType: "referral.converted",
+      referredTier: referredUser?.plan,
+      referralCount: completedCount?.count ?? 0,
+      occurredAt: completedAt,
+      rules,
+      plans,
+      campaignId: referral.campaignId,
+    };
+
+    const rewardCalc = calculateRewards(rewardInput);
+
+    const budgets = await loadRewardBudgets(
+      tx,
+      tenantId,
+      tenant?.referralSettingsJson,
+      referral.campaignId
+    );
+    const exhaustion = await checkRewardBudgets(
+      tx,
+      tenantId,
+      budgets,
+      getPendingRewardEntries(rewardCalc, rewardInput),
+      completedAt
+    );
+
+    let finalReferral = convertedReferral;
+    const rewardEventIds: string[] = [];
+
+    if (exhaustion) {
+      [finalReferral] = await tx
+        .update(referrals)
+        .set({ status: COMPLETED_UNREWARDED_STATUS })
+        .where(eq(referrals.id, referral.id))
+        .returning();
+
+      const budgetEventId = await recordBudgetExhausted(tx, tenantId, exhaustion, referral.id);
+      if (budgetEventId) {
+        rewardEventIds.push(budgetEventId);
+      }
+    } else {
+      await insertRewardEntries(tx, tenantId, rewardCalc);
+      rewardEventIds.push(...(await awardMilestones(tx, tenantId, rewardInput)));
+    }
+
+    const rewards = exhaustion ? null : rewardCalc;
+
+    const [convertEvent] = await tx
+      .insert(events)
+      .values({
+        tenantId,
+        type: "referral.converted",
+        campaignId: referral.campaignId,
+        payloadJson: {
+          referralId: referral.id,
+          referrerUserId: referrer.externalUserId,
+          referredUserId: referral.referredExternalUserId,
+          referralCode: referral.refCodeUsed,
+          campaignId: referral.campaignId,
+          status: finalReferral.status,
+          ruleKey: rewardCalc.ruleKey,
+          rewards: {
+            referrer: rewards?.referrerReward?.rewardJson || null,
+            referred: rewards?.referredReward?.rewardJson || null,
+          },
+        },
+      })
+      .returning();
+
+    return {
+      success: true as const,
+      referral: finalReferral,
+      referrerExternalUserId: referrer.externalUserId,
+      rewards,
+      alreadyProcessed: false,
+      eventIds: [convertEvent.id, ...rewardEventIds],
+    };
+  }, {
+    isolationLevel: "serializable",
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { eventIds, ...outcome } = result;
+
+  for (const eventId of eventIds) {
+    enqueueWebhookForExistingEvent(tenantId, eventId).catch(() => {
+    });
+  }
+
+  return outcome;
+}
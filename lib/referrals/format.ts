@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { REFERRAL_CODE_WORDS } from "@/lib/referrals/words";
+
+const AMBIGUOUS_CHARS = "0O1Iilo";
+const DIGITS = "0123456789";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+
+const ALPHABETS = {
+  mixed: UPPERCASE + LOWERCASE + DIGITS,
+  uppercase: UPPERCASE + DIGITS,
+  lowercase: LOWERCASE + DIGITS,
+  numeric: DIGITS,
+} as const;
+
+/** Word codes always end in at least this many digits. */
+const WORD_CODE_DIGITS = 2;
+
+/**
+ * Formats whose code space is smaller than this are rejected, so a tenant
+ * cannot configure codes that are easy to guess or quickly exhausted.
+ */
+export const MIN_CODE_SPACE = 1_000_000;
+
+const ReferralCodeFormatObjectSchema = z
+  .object({
+    style: z.enum(["random", "words"]).default("random"),
+    prefix: z
+      .string()
+      .max(12, "prefix must be at most 12 characters")
+      .regex(/^[A-Za-z0-9_-]*$/, "prefix may only contain letters, digits, '_' and '-'")
+      .default("ref_"),
+    length: z.number().int().min(4).max(32).default(12),
+    alphabet: z.enum(["mixed", "uppercase", "lowercase", "numeric"]).default("mixed"),
+    excludeAmbiguous: z.boolean().default(true),
+    checksum: z.boolean().default(false),
+    wordCount: z.number().int().min(2).max(3).default(2),
+    separator: z.enum(["-", "_", ""]).default("-"),
+  })
+  .strict();
+
+export type ReferralCodeFormat = z.infer<typeof ReferralCodeFormatObjectSchema>;
+
+export const ReferralCodeFormatSchema = ReferralCodeFormatObjectSchema.refine(
+  (format) => estimateCodeSpace(format) >= MIN_CODE_SPACE,
+  { message: `Code format must allow at least ${MIN_CODE_SPACE.toLocaleString("en-US")} codes` }
+);
+
+/** `ref_` plus 12 mixed-case characters without look-alikes. */
+export const DEFAULT_REFERRAL_CODE_FORMAT: ReferralCodeFormat = ReferralCodeFormatSchema.parse({});
+
+export function getReferralCodeFormat(
+  settings: Record<string, unknown> | null | undefined
+): ReferralCodeFormat {
+  const parsed = ReferralCodeFormatSchema.safeParse(settings?.referral_code_format ?? {});
+  return parsed.success ? parsed.data : DEFAULT_REFERRAL_CODE_FORMAT;
+}
+
+export function getFormatAlphabet(format: ReferralCodeFormat): string {
+  const alphabet = ALPHABETS[format.alphabet];
+  if (!format.excludeAmbiguous) {
+    return alphabet;
+  }
+  return alphabet
+    .split("")
+    .filter((char) => !AMBIGUOUS_CHARS.includes(char))
+    .join("");
+}
+
+function getChecksumAlphabet(format: ReferralCodeFormat): string {
+  return format.style === "words" ? DIGITS : getFormatAlphabet(format);
+}
+
+export function estimateCodeSpace(format: ReferralCodeFormat): number {
+  if (format.style === "words") {
+    return Math.pow(REFERRAL_CODE_WORDS.length, format.wordCount) * Math.pow(10, WORD_CODE_DIGITS);
+  }
+  return Math.pow(getFormatAlphabet(format).length, format.length);
+}
+
+function randomString(alphabet: string, length: number): string {
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += alphabet[crypto.randomInt(alphabet.length)];
+  }
+  return result;
+}
+
+/**
+ * Position-weighted sum of the code body, so a single mistyped character or
+ * most swaps of neighbouring characters change the check character.
+ */
+function computeChecksumCharacter(body: string, alphabet: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += body.charCodeAt(i) * (i + 1);
+  }
+  return alphabet[sum % alphabet.length];
+}
+
+/**
+ * Builds one candidate code. `extraLength` lengthens the random part (or the
+ * trailing number of a word code) when shorter codes keep colliding.
+ */
+export function generateFormattedCode(format: ReferralCodeFormat, extraLength: number = 0): string {
+  let body: string;
+
+  if (format.style === "words") {
+    const words: string[] = Array.from({ length: format.wordCount }, () =>
+      REFERRAL_CODE_WORDS[crypto.randomInt(REFERRAL_CODE_WORDS.length)]
+    );
+    words.push(randomString(DIGITS, WORD_CODE_DIGITS + extraLength));
+    body = words.join(format.separator);
+  } else {
+    body = randomString(getFormatAlphabet(format), format.length + extraLength);
+  }
+
+  if (format.checksum) {
+    body += computeChecksumCharacter(body, getChecksumAlphabet(format));
+  }
+
+  return `${format.prefix}${body}`;
+}
+
+/**
+ * Returns false only for codes that look generated under `format` but whose
+ * check character is wrong. Codes without the prefix, such as custom codes,
+ * are not checked.
+ */
+export function hasValidChecksum(code: string, format: ReferralCodeFormat): boolean {
+  if (!format.checksum || !code.startsWith(format.prefix)) {
+    return true;
+  }
+
+  const body = code.slice(format.prefix.length);
+  if (body.length < 2) {
+    return false;
+  }
+
+  const expected = computeChecksumCharacter(body.slice(0, -1), getChecksumAlphabet(format));
+  return body.endsWith(expected);
+}
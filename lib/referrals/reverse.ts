@@ -0,0 +1,245 @@
+import { eq, and } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users, referrals, rewardsLedger, events } from "@/db/schema";
+import { EXPIRY_SOURCE, REVERSAL_SOURCE } from "@/lib/rewards/ledger";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+import { COMPLETED_UNREWARDED_STATUS } from "@/lib/referrals/convert";
+import type { ReferralRecord } from "@/lib/referrals/convert";
+
+const REVERSIBLE_STATUSES = ["pending", "completed", COMPLETED_UNREWARDED_STATUS];
+
+export interface ReversedRewardEntry {
+  ledgerEntryId: string;
+  externalUserId: string;
+  reversesEventId: string;
+  rewardType: string;
+  amount: number;
+  currency: string | null;
+  reward: Record<string, unknown>;
+}
+
+export interface ReverseReferralResult {
+  success: true;
+  referral: ReferralRecord;
+  referrerExternalUserId: string;
+  reversedRewards: ReversedRewardEntry[];
+  alreadyProcessed: boolean;
+}
+
+export interface ReverseReferralError {
+  success: false;
+  code: string;
+  message: string;
+  status: number;
+}
+
+export type ReverseReferralOutcome = ReverseReferralResult | ReverseReferralError;
+
+export function generateReversalEventId(originalEventId: string): string {
+  return `reversal_${originalEventId}`;
+}
+
+/**
+ * Marks a referral as reversed and claws back every credit it produced by
+ * writing a compensating debit per original ledger row. Balances may go
+ * negative if the reward was already redeemed. Whatever part of a credit has
+ * already expired is not clawed back a second time.
+ */
+export async function reverseReferral(
+  tenantId: string,
+  referralId: string,
+  reason: string
+): Promise<ReverseReferralOutcome> {
+  const result = await db.transaction(async (tx) => {
+    const [referral] = await tx
+      .select()
+      .from(referrals)
+      .where(and(eq(referrals.id, referralId), eq(referrals.tenantId, tenantId)))
+      .for("update");
+
+    if (!referral) {
+      return {
+        success: false as const,
+        code: "REFERRAL_NOT_FOUND",
+        message: "Referral not found",
+        status: 404,
+      };
+    }
+
+    const referrer = await tx.query.users.findFirst({
+      where: eq(users.id, referral.referrerUserId),
+    });
+
+    if (!referrer) {
+      throw new Error("Referrer user not found for referral");
+    }
+
+    if (referral.status === "reversed") {
+      return {
+        success: true as const,
+        referral,
+        referrerExternalUserId: referrer.externalUserId,
+        reversedRewards: [],
+        alreadyProcessed: true,
+        webhookEventIds: [],
+      };
+    }
+
+    if (!REVERSIBLE_STATUSES.includes(referral.status)) {
+      return {
+        success: false as const,
+        code: "REFERRAL_NOT_REVERSIBLE",
+        message: `Referral cannot be reversed from status "${referral.status}"`,
+        status: 409,
+      };
+    }
+
+    const reversedAt = new Date();
+
+    const [reversedReferral] = await tx
+      .update(referrals)
+      .set({
+        status: "reversed",
+        reversedAt,
+        reversalReason: reason,
+      })
+      .where(eq(referrals.id, referral.id))
+      .returning();
+
+    const credits = await tx
+      .select({
+        entry: rewardsLedger,
+        externalUserId: users.externalUserId,
+      })
+      .from(rewardsLedger)
+      .innerJoin(users, eq(users.id, rewardsLedger.userId))
+      .where(
+        and(
+          eq(rewardsLedger.tenantId, tenantId),
+          eq(rewardsLedger.referralId, referral.id),
+          eq(rewardsLedger.entryType, "credit")
+        )
+      );
+
+    const expiries = await tx
+      .select({ reversesEventId: rewardsLedger.reversesEventId, amount: rewardsLedger.amount })
+      .from(rewardsLedger)
+      .where(
+        and(
+          eq(rewardsLedger.tenantId, tenantId),
+          eq(rewardsLedger.referralId, referral.id),
+          eq(rewardsLedger.source, EXPIRY_SOURCE)
+        )
+      );
+    const expiredAmounts = new Map(
+      expiries.map((expiry) => [expiry.reversesEventId, -expiry.amount])
+    );
+
+    const reversedRewards: ReversedRewardEntry[] = [];
+
+    for (const { entry, externalUserId } of credits) {
+      const amount = entry.amount - (expiredAmounts.get(entry.eventId) ?? 0);
+
+      const [debit] = await tx
+        .insert(rewardsLedger)
+        .values({
+          tenantId,
+          userId: entry.userId,
+          referralId: referral.id,
+          campaignId: entry.campaignId,
+          source: REVERSAL_SOURCE,
+          eventId: generateReversalEventId(entry.eventId),
+          ruleKey: entry.ruleKey,
+          reversesEventId: entry.eventId,
+          entryType: "debit",
+          rewardType: entry.rewardType,
+          amount: -amount,
+          currency: entry.currency,
+          rewardJson: {
+            ...entry.rewardJson,
+            description: `Reversal: ${reason}`,
+            referralId: referral.id,
+            reversesEventId: entry.eventId,
+            reason,
+          },
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (debit) {
+        reversedRewards.push({
+          ledgerEntryId: debit.id,
+          externalUserId,
+          reversesEventId: entry.eventId,
+          rewardType: entry.rewardType,
+          amount,
+          currency: entry.currency,
+          reward: entry.rewardJson,
+        });
+      }
+    }
+
+    const [referralEvent] = await tx
+      .insert(events)
+      .values({
+        tenantId,
+        type: "referral.reversed",
+        campaignId: referral.campaignId,
+        payloadJson: {
+          referralId: referral.id,
+          referrerUserId: referrer.externalUserId,
+          referredUserId: referral.referredExternalUserId,
+          referralCode: referral.refCodeUsed,
+          campaignId: referral.campaignId,
+          previousStatus: referral.status,
+          reason,
+          reversedAt: reversedAt.toISOString(),
+        },
+      })
+      .returning();
+
+    const webhookEventIds = [referralEvent.id];
+
+    for (const reward of reversedRewards) {
+      const [rewardEvent] = await tx
+        .insert(events)
+        .values({
+          tenantId,
+          type: "reward.reversed",
+          campaignId: referral.campaignId,
+          payloadJson: {
+            referralId: referral.id,
+            campaignId: referral.campaignId,
+            ...reward,
+            reason,
+          },
+        })
+        .returning();
+      webhookEventIds.push(rewardEvent.id);
+    }
+
+    return {
+      success: true as const,
+      referral: reversedReferral,
+      referrerExternalUserId: referrer.externalUserId,
+      reversedRewards,
+      alreadyProcessed: false,
+      webhookEventIds,
+    };
+  }, {
+    isolationLevel: "serializable",
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { webhookEventIds, ...outcome } = result;
+
+  for (const eventId of webhookEventIds) {
+    enqueueWebhookForExistingEvent(tenantId, eventId).catch(() => {
+    });
+  }
+
+  return outcome;
+}
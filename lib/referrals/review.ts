@@ -0,0 +1,300 @@
+import { z } from "zod";
+import { eq, and } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users, referrals, events, tenants } from "@/db/schema";
+import { HELD_FOR_REVIEW_STATUS } from "@/lib/fraud/scoring";
+import { grantClaimRewards } from "@/lib/referrals/claim";
+import { getTenantPlanCatalog } from "@/lib/tenant/plans";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+import type { CalculateRewardsOutput } from "@/lib/rewards/engine";
+import type { ReferralRecord } from "@/lib/referrals/convert";
+
+export const REJECTED_STATUS = "rejected";
+
+export const ReviewReasonSchema = z
+  .string()
+  .trim()
+  .min(1, "reason is required")
+  .max(500, "reason must be at most 500 characters");
+
+export const BulkReviewSchema = z
+  .object({
+    action: z.enum(["approve", "reject"]),
+    referralIds: z
+      .array(z.string().uuid("referralIds must be UUIDs"))
+      .min(1, "referralIds must not be empty")
+      .max(100, "At most 100 referrals can be reviewed at once"),
+    reason: ReviewReasonSchema.optional(),
+  })
+  .strict()
+  .refine((input) => input.action !== "reject" || input.reason !== undefined, {
+    message: "reason is required to reject referrals",
+    path: ["reason"],
+  });
+
+export interface ReviewReferralResult {
+  success: true;
+  referral: ReferralRecord;
+  referrerExternalUserId: string;
+  rewards: CalculateRewardsOutput | null;
+}
+
+export interface ReviewReferralError {
+  success: false;
+  code: string;
+  message: string;
+  status: number;
+}
+
+export type ReviewReferralOutcome = ReviewReferralResult | ReviewReferralError;
+
+const REFERRAL_NOT_FOUND: ReviewReferralError = {
+  success: false,
+  code: "REFERRAL_NOT_FOUND",
+  message: "Referral not found",
+  status: 404,
+};
+
+function notHeld(status: string): ReviewReferralError {
+  return {
+    success: false,
+    code: "REFERRAL_NOT_HELD",
+    message: `Referral is not held for review (status "${status}")`,
+    status: 409,
+  };
+}
+
+function enqueueAll(tenantId: string, eventIds: string[]): void {
+  for (const eventId of eventIds) {
+    enqueueWebhookForExistingEvent(tenantId, eventId).catch(() => {
+    });
+  }
+}
+
+/**
+ * Releases a held claim: the referral becomes `pending` and its claim-time
+ * rewards are granted as if it had never been held. Emits
+ * `referral.approved`.
+ */
+export async function approveReferral(
+  tenantId: string,
+  referralId: string,
+  apiKeyId: string
+): Promise<ReviewReferralOutcome> {
+  const result = await db.transaction(async (tx) => {
+    const [referral] = await tx
+      .select()
+      .from(referrals)
+      .where(and(eq(referrals.id, referralId), eq(referrals.tenantId, tenantId)))
+      .for("update");
+
+    if (!referral) {
+      return REFERRAL_NOT_FOUND;
+    }
+
+    if (referral.status !== HELD_FOR_REVIEW_STATUS) {
+      return notHeld(referral.status);
+    }
+
+    const referrer = await tx.query.users.findFirst({
+      where: eq(users.id, referral.referrerUserId),
+    });
+    const referredUser = referral.referredUserId
+      ? await tx.query.users.findFirst({ where: eq(users.id, referral.referredUserId) })
+      : undefined;
+
+    if (!referrer || !referredUser) {
+      throw new Error("Referrer or referred user not found for referral");
+    }
+
+    const tenant = await tx.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+    const plans = await getTenantPlanCatalog(tx, tenantId);
+    const reviewedAt = new Date();
+
+    const [approved] = await tx
+      .update(referrals)
+      .set({
+        status: "pending",
+        reviewedAt,
+        reviewedByApiKeyId: apiKeyId,
+      })
+      .where(eq(referrals.id, referral.id))
+      .returning();
+
+    const claimRewards = await grantClaimRewards(tx, tenantId, {
+      referral: approved,
+      referrer,
+      referredUser,
+      tenantRewardSettings: tenant?.referralSettingsJson,
+      plans,
+    });
+
+    const [approveEvent] = await tx
+      .insert(events)
+      .values({
+        tenantId,
+        type: "referral.approved",
+        campaignId: referral.campaignId,
+        payloadJson: {
+          referralId: referral.id,
+          referrerUserId: referrer.externalUserId,
+          referredUserId: referral.referredExternalUserId,
+          referralCode: referral.refCodeUsed,
+          campaignId: referral.campaignId,
+          fraudScore: referral.fraudScore,
+          ruleKey: claimRewards.ruleKey,
+          rewards: {
+            referrer: claimRewards.rewards?.referrerReward?.rewardJson || null,
+            referred: claimRewards.rewards?.referredReward?.rewardJson || null,
+          },
+          rewardsWithheld: claimRewards.rewardsWithheld,
+          approvedAt: reviewedAt.toISOString(),
+        },
+      })
+      .returning();
+
+    return {
+      success: true as const,
+      referral: approved,
+      referrerExternalUserId: referrer.externalUserId,
+      rewards: claimRewards.rewards,
+      eventIds: [approveEvent.id, ...claimRewards.eventIds],
+    };
+  }, {
+    isolationLevel: "serializable",
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { eventIds, ...outcome } = result;
+  enqueueAll(tenantId, eventIds);
+
+  return outcome;
+}
+
+/**
+ * Turns a held claim down for good. The referral becomes `rejected`, keeps
+ * the reason, and is never rewarded. Emits `referral.rejected` with reason
+ * `REVIEW_REJECTED`.
+ */
+export async function rejectReferral(
+  tenantId: string,
+  referralId: string,
+  apiKeyId: string,
+  reason: string
+): Promise<ReviewReferralOutcome> {
+  const result = await db.transaction(async (tx) => {
+    const [referral] = await tx
+      .select()
+      .from(referrals)
+      .where(and(eq(referrals.id, referralId), eq(referrals.tenantId, tenantId)))
+      .for("update");
+
+    if (!referral) {
+      return REFERRAL_NOT_FOUND;
+    }
+
+    if (referral.status !== HELD_FOR_REVIEW_STATUS) {
+      return notHeld(referral.status);
+    }
+
+    const referrer = await tx.query.users.findFirst({
+      where: eq(users.id, referral.referrerUserId),
+    });
+
+    if (!referrer) {
+      throw new Error("Referrer user not found for referral");
+    }
+
+    const reviewedAt = new Date();
+
+    const [rejected] = await tx
+      .update(referrals)
+      .set({
+        status: REJECTED_STATUS,
+        reviewedAt,
+        reviewedByApiKeyId: apiKeyId,
+        reviewReason: reason,
+      })
+      .where(eq(referrals.id, referral.id))
+      .returning();
+
+    const [rejectEvent] = await tx
+      .insert(events)
+      .values({
+        tenantId,
+        type: "referral.rejected",
+        campaignId: referral.campaignId,
+        payloadJson: {
+          referralId: referral.id,
+          referralCode: referral.refCodeUsed,
+          referrerUserId: referrer.externalUserId,
+          referredUserId: referral.referredExternalUserId,
+          reason: "REVIEW_REJECTED",
+          message: reason,
+          details: {
+            fraudScore: referral.fraudScore,
+            fraudReasons: referral.fraudReasonsJson ?? [],
+          },
+          rejectedAt: reviewedAt.toISOString(),
+        },
+      })
+      .returning();
+
+    return {
+      success: true as const,
+      referral: rejected,
+      referrerExternalUserId: referrer.externalUserId,
+      rewards: null,
+      eventIds: [rejectEvent.id],
+    };
+  }, {
+    isolationLevel: "serializable",
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { eventIds, ...outcome } = result;
+  enqueueAll(tenantId, eventIds);
+
+  return outcome;
+}
+
+export interface ReviewReferralSummary {
+  id: string;
+  referrerUserId: string;
+  referredExternalUserId: string;
+  refCodeUsed: string;
+  campaignId: string | null;
+  status: string;
+  fraudScore: number;
+  fraudReasons: Array<Record<string, unknown>>;
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewReason: string | null;
+}
+
+export function serializeReviewReferral(
+  referral: ReferralRecord,
+  referrerExternalUserId: string
+): ReviewReferralSummary {
+  return {
+    id: referral.id,
+    referrerUserId: referrerExternalUserId,
+    referredExternalUserId: referral.referredExternalUserId,
+    refCodeUsed: referral.refCodeUsed,
+    campaignId: referral.campaignId,
+    status: referral.status,
+    fraudScore: referral.fraudScore,
+    fraudReasons: referral.fraudReasonsJson ?? [],
+    createdAt: referral.createdAt.toISOString(),
+    reviewedAt: referral.reviewedAt?.toISOString() ?? null,
+    reviewReason: referral.reviewReason,
+  };
+}
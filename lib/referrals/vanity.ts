@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { eq, and } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users, referralCodes, events } from "@/db/schema";
+import { getTenant } from "@/lib/db-helpers";
+import { MAX_REFERRAL_CODE_LENGTH } from "@/lib/referral-code";
+import {
+  validateCustomReferralCode,
+  insertReferralCode,
+  isUniqueViolation,
+  CODE_TAKEN_ERROR,
+} from "@/lib/referrals/codes";
+import type { ReferralCodeError } from "@/lib/referrals/codes";
+import { getReferralWindowSettings, computeReferralCodeExpiry } from "@/lib/referrals/windows";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+
+export type UserRecord = typeof users.$inferSelect;
+
+/**
+ * `ref_` is the default prefix of generated codes and is always reserved. A
+ * tenant's own configured prefix is checked by `validateCustomReferralCode`.
+ */
+export const VanityReferralCodeSchema = z
+  .string()
+  .trim()
+  .min(4, "referralCode must be at least 4 characters")
+  .max(MAX_REFERRAL_CODE_LENGTH, `referralCode must be at most ${MAX_REFERRAL_CODE_LENGTH} characters`)
+  .regex(/^[A-Za-z0-9_-]+$/, "referralCode may only contain letters, digits, '_' and '-'")
+  .refine((code) => !code.toLowerCase().startsWith("ref_"), {
+    message: "referralCode cannot start with the reserved prefix 'ref_'",
+  });
+
+export interface SetReferralCodeResult {
+  success: true;
+  user: UserRecord;
+  previousCode: string;
+  changed: boolean;
+}
+
+export type SetReferralCodeOutcome = SetReferralCodeResult | ReferralCodeError;
+
+/**
+ * Makes a custom code the user's primary code. The old code stays in
+ * `referral_codes` and keeps resolving to the user, so links that were
+ * already shared keep working. Choosing one of the user's own existing
+ * codes promotes it and reactivates it if needed.
+ */
+export async function setVanityReferralCode(
+  tenantId: string,
+  externalUserId: string,
+  code: string
+): Promise<SetReferralCodeOutcome> {
+  const invalid = await validateCustomReferralCode(tenantId, code);
+  if (invalid) {
+    return invalid;
+  }
+
+  const tenant = await getTenant(tenantId);
+  const windows = getReferralWindowSettings(
+    tenant?.referralSettingsJson as Record<string, unknown> | null | undefined
+  );
+
+  let result: SetReferralCodeOutcome & { eventId?: string };
+
+  try {
+    result = await db.transaction(async (tx) => {
+      const [user] = await tx
+        .select()
+        .from(users)
+        .where(and(eq(users.tenantId, tenantId), eq(users.externalUserId, externalUserId)))
+        .for("update");
+
+      if (!user) {
+        return {
+          success: false as const,
+          code: "USER_NOT_FOUND",
+          message: "User not found",
+          status: 404,
+        };
+      }
+
+      if (user.referralCode === code) {
+        return { success: true as const, user, previousCode: code, changed: false };
+      }
+
+      const now = new Date();
+      const existing = await tx.query.referralCodes.findFirst({
+        where: and(eq(referralCodes.tenantId, tenantId), eq(referralCodes.code, code)),
+      });
+
+      if (existing && existing.userId !== user.id) {
+        return CODE_TAKEN_ERROR;
+      }
+
+      const expiresAt = computeReferralCodeExpiry(windows, now);
+
+      if (existing) {
+        await tx
+          .update(referralCodes)
+          .set({ active: true, deactivatedAt: null, expiresAt, updatedAt: now })
+          .where(eq(referralCodes.id, existing.id));
+      } else {
+        await insertReferralCode(tx, { tenantId, userId: user.id, code, expiresAt });
+      }
+
+      const [updatedUser] = await tx
+        .update(users)
+        .set({
+          referralCode: code,
+          referralCodeExpiresAt: expiresAt,
+          updatedAt: now,
+        })
+        .where(eq(users.id, user.id))
+        .returning();
+
+      const [event] = await tx
+        .insert(events)
+        .values({
+          tenantId,
+          type: "referral_code.updated",
+          payloadJson: {
+            externalUserId,
+            referralCode: code,
+            previousReferralCode: user.referralCode,
+            updatedAt: now.toISOString(),
+          },
+        })
+        .returning();
+
+      return {
+        success: true as const,
+        user: updatedUser,
+        previousCode: user.referralCode,
+        changed: true,
+        eventId: event.id,
+      };
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return CODE_TAKEN_ERROR;
+    }
+    throw error;
+  }
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { eventId, ...outcome } = result;
+  if (eventId) {
+    enqueueWebhookForExistingEvent(tenantId, eventId).catch(() => {
+    });
+  }
+
+  return outcome;
+}
@@ -0,0 +1,165 @@
+import { db } from "@/lib/db";
+import { events } from "@/db/schema";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Attribution windows from the tenant's referral settings. Each is off when
+ * unset.
+ *
+ * - `referral_code_ttl_days`: codes issued from now on expire this many days
+ *   after they are issued. The expiry is stored on each code, so changing the
+ *   setting does not move existing codes.
+ * - `referral_code_max_age_days`: codes stop working this many days after
+ *   the referrer joined, whenever they were issued.
+ * - `claim_window_days`: a referred user must claim within this many days of
+ *   their first `users/upsert`.
+ */
+export interface ReferralWindowSettings {
+  codeTtlDays: number | null;
+  codeMaxAgeDays: number | null;
+  claimWindowDays: number | null;
+}
+
+export type ReferralRejectionReason =
+  | "REFERRAL_CODE_EXPIRED"
+  | "REFERRAL_CODE_INACTIVE"
+  | "CLAIM_WINDOW_CLOSED"
+  | "DUPLICATE_FINGERPRINT";
+
+export interface ReferralWindowViolation {
+  code: ReferralRejectionReason;
+  message: string;
+  status: number;
+  details: Record<string, unknown>;
+}
+
+function toPositiveDays(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function getReferralWindowSettings(
+  settings: Record<string, unknown> | null | undefined
+): ReferralWindowSettings {
+  const raw = settings ?? {};
+  return {
+    codeTtlDays: toPositiveDays(raw.referral_code_ttl_days),
+    codeMaxAgeDays: toPositiveDays(raw.referral_code_max_age_days),
+    claimWindowDays: toPositiveDays(raw.claim_window_days),
+  };
+}
+
+export function computeReferralCodeExpiry(
+  windows: ReferralWindowSettings,
+  issuedAt: Date = new Date()
+): Date | null {
+  return windows.codeTtlDays ? new Date(issuedAt.getTime() + windows.codeTtlDays * DAY_MS) : null;
+}
+
+export function checkReferralCodeActive(
+  referralCode: { active: boolean; deactivatedAt: Date | null }
+): ReferralWindowViolation | null {
+  if (referralCode.active) {
+    return null;
+  }
+
+  return {
+    code: "REFERRAL_CODE_INACTIVE",
+    message: "The referral code has been deactivated",
+    status: 410,
+    details: { deactivatedAt: referralCode.deactivatedAt?.toISOString() ?? null },
+  };
+}
+
+/**
+ * Checks the code that was used against its own expiry and the referrer
+ * against the tenant's maximum code age.
+ */
+export function checkReferralCodeWindow(
+  referralCode: { expiresAt: Date | null },
+  referrer: { createdAt: Date },
+  windows: ReferralWindowSettings,
+  now: Date
+): ReferralWindowViolation | null {
+  if (referralCode.expiresAt && now > referralCode.expiresAt) {
+    return {
+      code: "REFERRAL_CODE_EXPIRED",
+      message: "The referral code has expired",
+      status: 410,
+      details: { expiredAt: referralCode.expiresAt.toISOString() },
+    };
+  }
+
+  if (windows.codeMaxAgeDays) {
+    const expiredAt = new Date(referrer.createdAt.getTime() + windows.codeMaxAgeDays * DAY_MS);
+    if (now > expiredAt) {
+      return {
+        code: "REFERRAL_CODE_EXPIRED",
+        message: "The referral code has expired",
+        status: 410,
+        details: { expiredAt: expiredAt.toISOString(), maxAgeDays: windows.codeMaxAgeDays },
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Users who have not been upserted yet are claiming on first contact and are
+ * always inside the window.
+ */
+export function checkClaimWindow(
+  referredUser: { createdAt: Date } | null | undefined,
+  windows: ReferralWindowSettings,
+  now: Date
+): ReferralWindowViolation | null {
+  if (!referredUser || !windows.claimWindowDays) {
+    return null;
+  }
+
+  const closedAt = new Date(referredUser.createdAt.getTime() + windows.claimWindowDays * DAY_MS);
+  if (now <= closedAt) {
+    return null;
+  }
+
+  return {
+    code: "CLAIM_WINDOW_CLOSED",
+    message: `Referrals must be claimed within ${windows.claimWindowDays} days of sign-up`,
+    status: 400,
+    details: {
+      closedAt: closedAt.toISOString(),
+      claimWindowDays: windows.claimWindowDays,
+    },
+  };
+}
+
+export interface ReferralRejection {
+  referralCode: string;
+  referrerUserId: string;
+  referredUserId: string;
+  reason: ReferralRejectionReason;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export async function recordReferralRejection(
+  tenantId: string,
+  rejection: ReferralRejection
+): Promise<void> {
+  const [event] = await db
+    .insert(events)
+    .values({
+      tenantId,
+      type: "referral.rejected",
+      payloadJson: {
+        ...rejection,
+        rejectedAt: new Date().toISOString(),
+      },
+    })
+    .returning();
+
+  enqueueWebhookForExistingEvent(tenantId, event.id).catch(() => {
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Short, unambiguous words for human-friendly referral codes. Kept to 256
+ * entries so each word carries exactly one byte of randomness.
+ */
+export const REFERRAL_CODE_WORDS = [
+  "acorn", "agile", "amber", "anchor", "apple", "arrow", "aspen", "atlas",
+  "autumn", "badge", "bagel", "baker", "bamboo", "banjo", "basil", "beacon",
+  "berry", "birch", "bison", "blaze", "bloom", "bold", "bonus", "brave",
+  "breeze", "brick", "bright", "brook", "bubble", "cabin", "cactus", "calm",
+  "camel", "candle", "canoe", "canyon", "cedar", "cheer", "cherry", "cider",
+  "cinder", "citrus", "clever", "cliff", "clover", "cobalt", "cocoa", "comet",
+  "coral", "cosmic", "cotton", "cozy", "crane", "crisp", "crown", "daisy",
+  "dapper", "dawn", "delta", "denim", "dune", "eager", "eagle", "earth",
+  "echo", "elder", "ember", "emerald", "epic", "falcon", "fancy", "feather",
+  "fern", "fiesta", "flame", "fluffy", "forest", "fossil", "fox", "fresh",
+  "frost", "galaxy", "garden", "gecko", "gentle", "giant", "ginger", "glacier",
+  "glow", "golden", "grape", "gravel", "harbor", "hazel", "heron", "hickory",
+  "honey", "humble", "husky", "iris", "island", "ivory", "jade", "jasmine",
+  "jazz", "jolly", "jungle", "juniper", "kayak", "kettle", "kind", "kite",
+  "koala", "lagoon", "lantern", "lark", "lemon", "lilac", "linen", "lively",
+  "lotus", "lucky", "lunar", "magic", "mango", "maple", "marble", "meadow",
+  "mellow", "melon", "merry", "mighty", "mint", "misty", "mocha", "modest",
+  "monarch", "mossy", "nectar", "nimble", "noble", "nova", "nutmeg", "oasis",
+  "ocean", "olive", "onyx", "opal", "orbit", "orchid", "otter", "panda",
+  "paper", "parrot", "peach", "pebble", "pecan", "pepper", "piano", "pilot",
+  "pine", "pixel", "planet", "plum", "polar", "poppy", "prairie", "prism",
+  "proud", "puffin", "quartz", "quick", "quiet", "quill", "rabbit", "radiant",
+  "rain", "raven", "ready", "reef", "river", "robin", "rocket", "rose",
+  "ruby", "rustic", "saffron", "sage", "salty", "sandy", "sapphire", "savvy",
+  "scout", "shell", "shiny", "sierra", "silver", "sky", "sleek", "smart",
+  "snowy", "solar", "sonic", "sparrow", "spice", "spruce", "steady", "stone",
+  "storm", "sturdy", "summit", "sunny", "swift", "tango", "teal", "tempo",
+  "thistle", "thunder", "tidal", "tiger", "timber", "topaz", "torch", "trail",
+  "tulip", "tundra", "turtle", "velvet", "vivid", "violet", "walnut", "warm",
+  "wave", "willow", "windy", "wise", "wonder", "yarrow", "zebra", "zen",
+  "zesty", "zinc", "zippy", "zodiac", "bravo", "cosmo", "dream", "spark",
+  "lofty", "nifty", "perky", "plucky", "sunset", "meteor", "voyage", "zephyr",
+] as const;
@@ -0,0 +1,319 @@
+import { z } from "zod";
+import { eq, and, gte, inArray, isNull, sql } from "drizzle-orm";
+import { events, rewardsLedger } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { CurrencyCodeSchema, getLedgerCurrency, getLedgerQuantity } from "./types";
+import { earnedEntriesFilter } from "./ledger";
+import { getCampaign } from "@/lib/referrals/campaigns";
+import type { CampaignRecord } from "@/lib/referrals/campaigns";
+import { calculateMilestoneRewards } from "./engine";
+import type { CalculateRewardsInput, CalculateRewardsOutput, RewardEntry } from "./engine";
+
+export const BUDGET_EXHAUSTED_EVENT = "program.budget_exhausted";
+
+export const BudgetPeriodSchema = z.enum(["month", "program"]);
+
+export type BudgetPeriod = z.infer<typeof BudgetPeriodSchema>;
+
+/**
+ * Tenant-wide budget stored as `reward_budget` in the referral settings.
+ * `month` budgets reset at the start of each calendar month (UTC); `program`
+ * budgets cover every reward ever granted.
+ */
+export const TenantRewardBudgetSchema = z
+  .object({
+    amount: z
+      .number()
+      .int("amount must be a whole number of minor units")
+      .positive("amount must be positive"),
+    currency: CurrencyCodeSchema,
+    period: BudgetPeriodSchema.default("month"),
+  })
+  .strict();
+
+export interface RewardBudget {
+  scope: "tenant" | "campaign";
+  campaignId: string | null;
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+}
+
+export interface BudgetUsage extends RewardBudget {
+  periodStart: string | null;
+  consumed: number;
+  remaining: number;
+  exhausted: boolean;
+}
+
+export interface BudgetExhaustion {
+  budget: RewardBudget;
+  consumed: number;
+  requested: number;
+  periodStart: Date | null;
+}
+
+export function getTenantRewardBudget(
+  settings: Record<string, unknown> | null | undefined
+): RewardBudget | null {
+  const parsed = TenantRewardBudgetSchema.safeParse(settings?.reward_budget);
+  if (!parsed.success) {
+    return null;
+  }
+
+  return { scope: "tenant", campaignId: null, ...parsed.data };
+}
+
+export function getCampaignRewardBudget(campaign: {
+  id: string;
+  budgetAmount: number | null;
+  budgetCurrency: string | null;
+  budgetPeriod: string;
+}): RewardBudget | null {
+  if (campaign.budgetAmount == null || !campaign.budgetCurrency) {
+    return null;
+  }
+
+  return {
+    scope: "campaign",
+    campaignId: campaign.id,
+    amount: campaign.budgetAmount,
+    currency: campaign.budgetCurrency,
+    period: campaign.budgetPeriod === "month" ? "month" : "program",
+  };
+}
+
+/**
+ * Budgets a referral's rewards are charged against: the tenant budget, plus
+ * its campaign's budget when it was attributed to one.
+ */
+export async function loadRewardBudgets(
+  executor: DbExecutor,
+  tenantId: string,
+  settings: Record<string, unknown> | null | undefined,
+  campaignId: string | null | undefined
+): Promise<RewardBudget[]> {
+  const budgets: RewardBudget[] = [];
+  const tenantBudget = getTenantRewardBudget(settings);
+
+  if (tenantBudget) {
+    budgets.push(tenantBudget);
+  }
+
+  if (campaignId) {
+    const campaign = await getCampaign(executor, tenantId, campaignId);
+    const campaignBudget = campaign ? getCampaignRewardBudget(campaign) : null;
+    if (campaignBudget) {
+      budgets.push(campaignBudget);
+    }
+  }
+
+  return budgets;
+}
+
+export function getBudgetPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date | null {
+  if (period === "program") {
+    return null;
+  }
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Net credit rewards granted against a budget in its current period, in the
+ * budget's currency. Reversals give budget back; redemptions and expiries do
+ * not, since the reward was still granted.
+ */
+export async function getBudgetConsumption(
+  executor: DbExecutor,
+  tenantId: string,
+  budget: RewardBudget,
+  now: Date = new Date()
+): Promise<number> {
+  const periodStart = getBudgetPeriodStart(budget.period, now);
+
+  const [row] = await executor
+    .select({
+      consumed: sql<number>`COALESCE(SUM(${rewardsLedger.amount}), 0)::int`,
+    })
+    .from(rewardsLedger)
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.rewardType, "credit"),
+        eq(rewardsLedger.currency, budget.currency),
+        earnedEntriesFilter(),
+        budget.campaignId ? eq(rewardsLedger.campaignId, budget.campaignId) : undefined,
+        periodStart ? gte(rewardsLedger.createdAt, periodStart) : undefined
+      )
+    );
+
+  return row?.consumed ?? 0;
+}
+
+export async function getBudgetUsage(
+  executor: DbExecutor,
+  tenantId: string,
+  budget: RewardBudget,
+  now: Date = new Date()
+): Promise<BudgetUsage> {
+  const consumed = await getBudgetConsumption(executor, tenantId, budget, now);
+  const periodStart = getBudgetPeriodStart(budget.period, now);
+
+  return {
+    ...budget,
+    periodStart: periodStart?.toISOString() ?? null,
+    consumed,
+    remaining: Math.max(budget.amount - consumed, 0),
+    exhausted: consumed >= budget.amount,
+  };
+}
+
+/**
+ * Current usage of each campaign's budget, keyed by campaign id. Campaigns
+ * without a budget are absent.
+ */
+export async function getCampaignBudgetUsages(
+  executor: DbExecutor,
+  tenantId: string,
+  campaignRecords: CampaignRecord[],
+  now: Date = new Date()
+): Promise<Map<string, BudgetUsage>> {
+  const budgets = campaignRecords
+    .map(getCampaignRewardBudget)
+    .filter((budget): budget is RewardBudget => budget !== null);
+
+  const usages = await Promise.all(
+    budgets.map((budget) => getBudgetUsage(executor, tenantId, budget, now))
+  );
+
+  return new Map(usages.map((usage) => [usage.campaignId!, usage]));
+}
+
+/**
+ * Every ledger entry a claim or conversion would write, including milestone
+ * bonuses.
+ */
+export function getPendingRewardEntries(
+  rewards: CalculateRewardsOutput,
+  input: CalculateRewardsInput
+): RewardEntry[] {
+  return [
+    rewards.referrerReward,
+    rewards.referredReward,
+    ...calculateMilestoneRewards(input).map(({ entry }) => entry),
+  ].filter((entry): entry is RewardEntry => entry !== null);
+}
+
+/**
+ * Checks whether the credit rewards about to be written fit in every budget.
+ * Entries whose event id is already in the ledger are skipped, since
+ * inserting them again is a no-op. Returns the first budget that would be
+ * exceeded, or null when the rewards can be granted.
+ */
+export async function checkRewardBudgets(
+  executor: DbExecutor,
+  tenantId: string,
+  budgets: RewardBudget[],
+  entries: RewardEntry[],
+  now: Date = new Date()
+): Promise<BudgetExhaustion | null> {
+  const creditEntries = entries.filter((entry) => entry.rewardJson.type === "credit");
+
+  if (budgets.length === 0 || creditEntries.length === 0) {
+    return null;
+  }
+
+  const existing = await executor
+    .select({ eventId: rewardsLedger.eventId })
+    .from(rewardsLedger)
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        inArray(
+          rewardsLedger.eventId,
+          creditEntries.map((entry) => entry.eventId)
+        )
+      )
+    );
+  const existingEventIds = new Set(existing.map((row) => row.eventId));
+  const newEntries = creditEntries.filter((entry) => !existingEventIds.has(entry.eventId));
+
+  for (const budget of budgets) {
+    const requested = newEntries
+      .filter((entry) => getLedgerCurrency(entry.rewardJson) === budget.currency)
+      .filter((entry) => !budget.campaignId || entry.campaignId === budget.campaignId)
+      .reduce((sum, entry) => sum + Math.round(getLedgerQuantity(entry.rewardJson)), 0);
+
+    if (requested === 0) {
+      continue;
+    }
+
+    const consumed = await getBudgetConsumption(executor, tenantId, budget, now);
+
+    if (consumed + requested > budget.amount) {
+      return {
+        budget,
+        consumed,
+        requested,
+        periodStart: getBudgetPeriodStart(budget.period, now),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Inserts a `program.budget_exhausted` event the first time a budget runs out
+ * in its period. Raising the budget lets it fire again. Returns the event id
+ * to enqueue after commit, or null when the event was already sent.
+ */
+export async function recordBudgetExhausted(
+  executor: DbExecutor,
+  tenantId: string,
+  exhaustion: BudgetExhaustion,
+  referralId: string
+): Promise<string | null> {
+  const { budget, consumed, requested, periodStart } = exhaustion;
+
+  const [alreadySent] = await executor
+    .select({ id: events.id })
+    .from(events)
+    .where(
+      and(
+        eq(events.tenantId, tenantId),
+        eq(events.type, BUDGET_EXHAUSTED_EVENT),
+        budget.campaignId ? eq(events.campaignId, budget.campaignId) : isNull(events.campaignId),
+        sql`(${events.payloadJson}->>'budgetAmount')::int = ${budget.amount}`,
+        sql`${events.payloadJson}->>'currency' = ${budget.currency}`,
+        periodStart ? gte(events.createdAt, periodStart) : undefined
+      )
+    )
+    .limit(1);
+
+  if (alreadySent) {
+    return null;
+  }
+
+  const [event] = await executor
+    .insert(events)
+    .values({
+      tenantId,
+      type: BUDGET_EXHAUSTED_EVENT,
+      campaignId: budget.campaignId,
+      payloadJson: {
+        scope: budget.scope,
+        campaignId: budget.campaignId,
+        period: budget.period,
+        periodStart: periodStart?.toISOString() ?? null,
+        budgetAmount: budget.amount,
+        currency: budget.currency,
+        consumed,
+        requested,
+        referralId,
+      },
+    })
+    .returning();
+
+  return event.id;
+}
@@ -1,24 +1,35 @@
+import { normalizeRewardRules } from "./normalize";
 import {
-  normalizeRewardRules,
-  getRewardAmountForTier,
-  normalizeSubscriptionTier,
-} from "./normalize";
-import type { RewardRulesConfig, SubscriptionTier } from "./normalize";
+  findMatchingRule,
+  findReachedMilestoneRules,
+  getRuleMilestone,
+  DEFAULT_RULE_EVENT_TYPE,
+} from "./rules";
+import type { RewardRulesConfig } from "./normalize";
+import { RewardPayloadSchema } from "./types";
+import { buildDefaultPlanCatalog, findPlan, getDefaultPlan } from "@/lib/tenant/plans";
+import type { RewardEventType, RewardRuleRecord } from "./rules";
+import type { RewardPayload } from "./types";
+import type { TenantPlan } from "@/lib/tenant/plans";
+
+export type RewardEntryDetails = {
+  description: string;
+  referralId?: string;
+  referrerTier?: string;
+  referredExternalUserId?: string;
+  referrerExternalUserId?: string;
+  milestone?: number;
+  triggeredByReferralId?: string;
+};
 
 export interface RewardEntry {
   userId: string;
   eventId: string;
   source: string;
-  rewardJson: {
-    type: string;
-    amount: number;
-    currency: string;
-    description: string;
-    referralId?: string;
-    referrerTier?: string;
-    referredExternalUserId?: string;
-    referrerExternalUserId?: string;
-  };
+  ruleKey?: string;
+  campaignId?: string | null;
+  expiresAt?: Date | null;
+  rewardJson: RewardPayload & RewardEntryDetails;
 }
 
 export interface CalculateRewardsInput {
@@ -29,32 +40,209 @@ export interface CalculateRewardsInput {
   referredUserId: string;
   referredExternalUserId: string;
   tenantRewardSettings: Record<string, unknown> | null | undefined;
+  eventType?: RewardEventType;
+  referredTier?: string;
+  referralCount?: number;
+  occurredAt?: Date;
+  rules?: RewardRuleRecord[];
+  plans?: TenantPlan[];
+  campaignId?: string | null;
 }
 
 export interface CalculateRewardsOutput {
   referrerReward: RewardEntry | null;
   referredReward: RewardEntry | null;
+  ruleKey: string | null;
+}
+
+export interface MilestoneReward {
+  milestone: number;
+  ruleKey: string;
+  entry: RewardEntry;
 }
 
 export function calculateRewards(input: CalculateRewardsInput): CalculateRewardsOutput {
-  const rules = normalizeRewardRules(input.tenantRewardSettings);
-  const tier = normalizeSubscriptionTier(input.referrerTier);
+  const settings = normalizeRewardRules(input.tenantRewardSettings);
+  const eventType = input.eventType ?? DEFAULT_RULE_EVENT_TYPE;
+
+  if (input.rules && input.rules.some((rule) => getRuleMilestone(rule) === null)) {
+    return calculateRuleRewards(input, settings, eventType, input.rules);
+  }
+
+  if (eventType !== DEFAULT_RULE_EVENT_TYPE) {
+    return { referrerReward: null, referredReward: null, ruleKey: null };
+  }
+
+  const plans =
+    input.plans && input.plans.length > 0 ? input.plans : buildDefaultPlanCatalog(settings);
+  const plan = findPlan(plans, input.referrerTier) ?? getDefaultPlan(plans);
 
-  const referrerReward = calculateReferrerReward(input, rules, tier);
-  const referredReward = calculateReferredReward(input, rules);
+  const referrerReward = calculateReferrerReward(input, settings, plan);
+  const referredReward = calculateReferredReward(input, settings);
 
   return {
     referrerReward,
     referredReward,
+    ruleKey: null,
+  };
+}
+
+function calculateRuleRewards(
+  input: CalculateRewardsInput,
+  settings: RewardRulesConfig,
+  eventType: RewardEventType,
+  rules: RewardRuleRecord[]
+): CalculateRewardsOutput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const rule = findMatchingRule(rules, {
+    eventType,
+    referrerPlan: input.referrerTier,
+    referredPlan: input.referredTier ?? "free",
+    referralCount: input.referralCount ?? 0,
+    occurredAt,
+  });
+
+  if (!rule) {
+    return { referrerReward: null, referredReward: null, ruleKey: null };
+  }
+
+  const referrerReward = buildRuleRewardEntry(rule.rewardReferrerJson, settings, {
+    userId: input.referrerUserId,
+    eventId: generateRuleEventId(rule.ruleKey, input.referralId, input.referrerUserId),
+    source: "referral_reward",
+    ruleKey: rule.ruleKey,
+    campaignId: input.campaignId ?? null,
+    expiresAt: computeRewardExpiry(rule.validityDays, occurredAt),
+    defaultDescription: `Referral reward for referring ${input.referredExternalUserId}`,
+    details: {
+      referralId: input.referralId,
+      referrerTier: input.referrerTier,
+      referredExternalUserId: input.referredExternalUserId,
+    },
+  });
+
+  const referredReward = buildRuleRewardEntry(rule.rewardReferredJson, settings, {
+    userId: input.referredUserId,
+    eventId: generateRuleEventId(rule.ruleKey, input.referralId, input.referredUserId),
+    source: "onboarding_bonus",
+    ruleKey: rule.ruleKey,
+    campaignId: input.campaignId ?? null,
+    expiresAt: computeRewardExpiry(rule.validityDays, occurredAt),
+    defaultDescription: "Welcome bonus for signing up via referral",
+    details: {
+      referralId: input.referralId,
+      referrerExternalUserId: input.referrerExternalUserId,
+    },
+  });
+
+  return {
+    referrerReward,
+    referredReward,
+    ruleKey: rule.ruleKey,
+  };
+}
+
+/**
+ * Milestone bonuses the referrer has reached, paid on top of whichever
+ * regular rule matched. Entries are keyed by rule, campaign, referrer and
+ * milestone rather than by referral, so each milestone is paid at most once.
+ */
+export function calculateMilestoneRewards(input: CalculateRewardsInput): MilestoneReward[] {
+  if (!input.rules || input.rules.length === 0) {
+    return [];
+  }
+
+  const settings = normalizeRewardRules(input.tenantRewardSettings);
+  const occurredAt = input.occurredAt ?? new Date();
+  const reached = findReachedMilestoneRules(input.rules, {
+    eventType: input.eventType ?? DEFAULT_RULE_EVENT_TYPE,
+    referrerPlan: input.referrerTier,
+    referredPlan: input.referredTier ?? "free",
+    referralCount: input.referralCount ?? 0,
+    occurredAt,
+  });
+
+  const milestones: MilestoneReward[] = [];
+
+  for (const { rule, milestone } of reached) {
+    const entry = buildRuleRewardEntry(rule.rewardReferrerJson, settings, {
+      userId: input.referrerUserId,
+      eventId: generateMilestoneEventId(
+        rule.ruleKey,
+        milestone,
+        input.referrerUserId,
+        input.campaignId
+      ),
+      source: "milestone_bonus",
+      ruleKey: rule.ruleKey,
+      campaignId: input.campaignId ?? null,
+      expiresAt: computeRewardExpiry(rule.validityDays, occurredAt),
+      defaultDescription: `Bonus for reaching ${milestone} completed referrals`,
+      details: {
+        milestone,
+        triggeredByReferralId: input.referralId,
+      },
+    });
+
+    if (entry) {
+      milestones.push({ milestone, ruleKey: rule.ruleKey, entry });
+    }
+  }
+
+  return milestones;
+}
+
+interface RuleRewardEntryOptions {
+  userId: string;
+  eventId: string;
+  source: string;
+  ruleKey: string;
+  campaignId: string | null;
+  expiresAt: Date | null;
+  defaultDescription: string;
+  details: Omit<RewardEntryDetails, "description">;
+}
+
+function buildRuleRewardEntry(
+  rewardJson: Record<string, unknown> | null,
+  settings: RewardRulesConfig,
+  options: RuleRewardEntryOptions
+): RewardEntry | null {
+  if (!rewardJson) {
+    return null;
+  }
+
+  const parsed = RewardPayloadSchema.safeParse(rewardJson);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const payload =
+    parsed.data.type === "credit"
+      ? { ...parsed.data, currency: parsed.data.currency ?? settings.currency }
+      : parsed.data;
+
+  return {
+    userId: options.userId,
+    eventId: options.eventId,
+    source: options.source,
+    ruleKey: options.ruleKey,
+    campaignId: options.campaignId,
+    expiresAt: options.expiresAt,
+    rewardJson: {
+      ...options.details,
+      ...payload,
+      description: payload.description ?? options.defaultDescription,
+    },
   };
 }
 
 function calculateReferrerReward(
   input: CalculateRewardsInput,
   rules: RewardRulesConfig,
-  tier: SubscriptionTier
+  plan: TenantPlan
 ): RewardEntry | null {
-  const amount = getRewardAmountForTier(rules, tier);
+  const amount = plan.referralRewardAmount;
 
   if (amount <= 0) {
     return null;
@@ -66,13 +254,14 @@ function calculateReferrerReward(
     userId: input.referrerUserId,
     eventId,
     source: "referral_reward",
+    campaignId: input.campaignId ?? null,
     rewardJson: {
       type: "credit",
       amount,
       currency: rules.currency,
       description: `Referral reward for referring ${input.referredExternalUserId}`,
       referralId: input.referralId,
-      referrerTier: tier,
+      referrerTier: plan.key,
       referredExternalUserId: input.referredExternalUserId,
     },
   };
@@ -94,6 +283,7 @@ function calculateReferredReward(
     userId: input.referredUserId,
     eventId,
     source: "onboarding_bonus",
+    campaignId: input.campaignId ?? null,
     rewardJson: {
       type: "credit",
       amount,
@@ -105,6 +295,33 @@ function calculateReferredReward(
   };
 }
 
+function computeRewardExpiry(
+  validityDays: number | null | undefined,
+  grantedAt: Date
+): Date | null {
+  if (!validityDays) {
+    return null;
+  }
+  return new Date(grantedAt.getTime() + validityDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Strips the referral bookkeeping fields from a ledger reward, leaving the
+ * typed payload that host apps act on.
+ */
+export function toRewardPayload(rewardJson: RewardEntry["rewardJson"]): RewardPayload {
+  const {
+    referralId: _referralId,
+    referrerTier: _referrerTier,
+    referredExternalUserId: _referredExternalUserId,
+    referrerExternalUserId: _referrerExternalUserId,
+    milestone: _milestone,
+    triggeredByReferralId: _triggeredByReferralId,
+    ...payload
+  } = rewardJson;
+  return payload as RewardPayload;
+}
+
 export function generateReferralEventId(referralId: string, userId: string): string {
   return `ref_reward_${referralId}_${userId}`;
 }
@@ -112,3 +329,21 @@ export function generateReferralEventId(referralId: string, userId: string): str
 export function generateOnboardingEventId(referralId: string, userId: string): string {
   return `onboard_${referralId}_${userId}`;
 }
+
+/**
+ * Scoped to the rule, and to the campaign when there is one, so two rules
+ * at the same milestone are each paid once.
+ */
+export function generateMilestoneEventId(
+  ruleKey: string,
+  milestone: number,
+  referrerUserId: string,
+  campaignId?: string | null
+): string {
+  const scope = campaignId ? `${ruleKey}_${campaignId}` : ruleKey;
+  return `milestone_${scope}_${milestone}_${referrerUserId}`;
+}
+
+export function generateRuleEventId(ruleKey: string, referralId: string, userId: string): string {
+  return `rule_${ruleKey}_${referralId}_${userId}`;
+}
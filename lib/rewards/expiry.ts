@@ -0,0 +1,283 @@
+import { eq, and, lte, isNotNull, notExists, asc, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { users, rewardsLedger, events } from "@/db/schema";
+import type { DbExecutor, DbTransaction } from "@/lib/db";
+import {
+  EXPIRY_SOURCE,
+  getAvailableBalance,
+  getBalancesByUser,
+  getPointsBalanceByUser,
+} from "@/lib/rewards/ledger";
+import type { CurrencyBalance, PointsBalance } from "@/lib/rewards/ledger";
+
+export type LedgerEntryRecord = typeof rewardsLedger.$inferSelect;
+
+const USER_EXPIRY_LIMIT = 100;
+
+export interface ExpiredRewardEntry {
+  ledgerEntryId: string;
+  externalUserId: string;
+  expiresEventId: string;
+  rewardType: string;
+  amount: number;
+  originalAmount: number;
+  currency: string | null;
+  expiresAt: string;
+}
+
+export interface FindDueRewardsOptions {
+  tenantId?: string;
+  userId?: string;
+  now: Date;
+  limit: number;
+}
+
+export function generateExpiryEventId(originalEventId: string): string {
+  return `expiry_${originalEventId}`;
+}
+
+/**
+ * Credits past their `expiresAt` that have not yet been expired or reversed.
+ * Both write a debit pointing back at the credit through `reversesEventId`.
+ */
+export async function findDueRewards(
+  executor: DbExecutor,
+  options: FindDueRewardsOptions
+): Promise<LedgerEntryRecord[]> {
+  const debits = alias(rewardsLedger, "debits");
+
+  return executor
+    .select()
+    .from(rewardsLedger)
+    .where(
+      and(
+        options.tenantId ? eq(rewardsLedger.tenantId, options.tenantId) : undefined,
+        options.userId ? eq(rewardsLedger.userId, options.userId) : undefined,
+        eq(rewardsLedger.entryType, "credit"),
+        isNotNull(rewardsLedger.expiresAt),
+        lte(rewardsLedger.expiresAt, options.now),
+        notExists(
+          executor
+            .select({ one: sql`1` })
+            .from(debits)
+            .where(
+              and(
+                eq(debits.tenantId, rewardsLedger.tenantId),
+                eq(debits.userId, rewardsLedger.userId),
+                eq(debits.reversesEventId, rewardsLedger.eventId)
+              )
+            )
+        )
+      )
+    )
+    .orderBy(asc(rewardsLedger.expiresAt))
+    .limit(options.limit);
+}
+
+/**
+ * Writes the expiry debit for one credit and its `reward.expired` event. The
+ * user row is locked so the debit is capped at what is still available:
+ * rewards that were already spent expire without taking the balance below
+ * zero. Returns null if another run expired the credit first.
+ */
+export async function expireReward(
+  tx: DbTransaction,
+  credit: LedgerEntryRecord,
+  now: Date
+): Promise<{ expired: ExpiredRewardEntry; webhookEventId: string } | null> {
+  const [user] = await tx
+    .select({ id: users.id, externalUserId: users.externalUserId })
+    .from(users)
+    .where(eq(users.id, credit.userId))
+    .for("update");
+
+  if (!user) {
+    return null;
+  }
+
+  let available = 0;
+  if (credit.rewardType === "credit" && credit.currency) {
+    available = await getAvailableBalance(tx, credit.tenantId, user.id, credit.currency);
+  } else if (credit.rewardType === "points") {
+    available = (await getPointsBalanceByUser(tx, credit.tenantId, user.id)).available;
+  }
+
+  const amount = Math.min(credit.amount, Math.max(available, 0));
+  const originalDescription =
+    typeof credit.rewardJson.description === "string" ? credit.rewardJson.description : "Reward";
+
+  const [debit] = await tx
+    .insert(rewardsLedger)
+    .values({
+      tenantId: credit.tenantId,
+      userId: user.id,
+      referralId: credit.referralId,
+      campaignId: credit.campaignId,
+      source: EXPIRY_SOURCE,
+      eventId: generateExpiryEventId(credit.eventId),
+      ruleKey: credit.ruleKey,
+      reversesEventId: credit.eventId,
+      entryType: "debit",
+      rewardType: credit.rewardType,
+      amount: -amount,
+      currency: credit.currency,
+      rewardJson: {
+        ...credit.rewardJson,
+        description: `Expired: ${originalDescription}`,
+        reversesEventId: credit.eventId,
+        expiredAt: now.toISOString(),
+      },
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!debit) {
+    return null;
+  }
+
+  const expired: ExpiredRewardEntry = {
+    ledgerEntryId: debit.id,
+    externalUserId: user.externalUserId,
+    expiresEventId: credit.eventId,
+    rewardType: credit.rewardType,
+    amount,
+    originalAmount: credit.amount,
+    currency: credit.currency,
+    expiresAt: credit.expiresAt!.toISOString(),
+  };
+
+  const [expiredEvent] = await tx
+    .insert(events)
+    .values({
+      tenantId: credit.tenantId,
+      type: "reward.expired",
+      campaignId: credit.campaignId,
+      payloadJson: {
+        ...expired,
+        referralId: credit.referralId,
+        campaignId: credit.campaignId,
+        ruleKey: credit.ruleKey,
+        reward: credit.rewardJson,
+        expiredAt: now.toISOString(),
+      },
+    })
+    .returning();
+
+  return { expired, webhookEventId: expiredEvent.id };
+}
+
+/**
+ * Expires everything due for one user inside the caller's transaction, so
+ * balance checks that follow never count lapsed credits. Returns the event
+ * ids to enqueue once the transaction commits.
+ */
+export async function expireDueRewardsForUser(
+  tx: DbTransaction,
+  tenantId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<string[]> {
+  const due = await findDueRewards(tx, { tenantId, userId, now, limit: USER_EXPIRY_LIMIT });
+  const webhookEventIds: string[] = [];
+
+  for (const credit of due) {
+    const result = await expireReward(tx, credit, now);
+    if (result) {
+      webhookEventIds.push(result.webhookEventId);
+    }
+  }
+
+  return webhookEventIds;
+}
+
+export interface ProjectedExpiry {
+  credit: LedgerEntryRecord;
+  amount: number;
+}
+
+interface UserBalances {
+  balances: CurrencyBalance[];
+  points: PointsBalance;
+}
+
+/**
+ * Caps each due credit at what is still available once the credits before
+ * it have expired, as `expireReward` does.
+ */
+function capDueExpiries(due: LedgerEntryRecord[], current: UserBalances): ProjectedExpiry[] {
+  const available = new Map(
+    current.balances.map((balance) => [balance.currency, balance.available])
+  );
+  let pointsAvailable = current.points.available;
+
+  return due.map((credit) => {
+    let amount = 0;
+    if (credit.rewardType === "credit" && credit.currency) {
+      const balance = available.get(credit.currency) ?? 0;
+      amount = Math.min(credit.amount, Math.max(balance, 0));
+      available.set(credit.currency, balance - amount);
+    } else if (credit.rewardType === "points") {
+      amount = Math.min(credit.amount, Math.max(pointsAvailable, 0));
+      pointsAvailable -= amount;
+    }
+    return { credit, amount };
+  });
+}
+
+async function loadDueExpiries(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string,
+  now: Date
+): Promise<UserBalances & { projected: ProjectedExpiry[] }> {
+  const [balances, points, due] = await Promise.all([
+    getBalancesByUser(executor, tenantId, userId),
+    getPointsBalanceByUser(executor, tenantId, userId),
+    findDueRewards(executor, { tenantId, userId, now, limit: USER_EXPIRY_LIMIT }),
+  ]);
+
+  return { balances, points, projected: capDueExpiries(due, { balances, points }) };
+}
+
+/**
+ * The expiries the worker has yet to write for one user. Read paths use this
+ * so they never show credits that have lapsed, without writing anything
+ * themselves.
+ */
+export async function projectDueExpiries(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<ProjectedExpiry[]> {
+  const { projected } = await loadDueExpiries(executor, tenantId, userId, now);
+  return projected;
+}
+
+/**
+ * Currency and points balances as they will be once every due expiry has
+ * been written.
+ */
+export async function getBalancesAfterDueExpiries(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<UserBalances> {
+  const { balances, points, projected } = await loadDueExpiries(executor, tenantId, userId, now);
+
+  for (const { credit, amount } of projected) {
+    const balance =
+      credit.rewardType === "points"
+        ? points
+        : credit.rewardType === "credit"
+          ? balances.find((item) => item.currency === credit.currency)
+          : undefined;
+    if (balance) {
+      balance.debited += amount;
+      balance.available -= amount;
+    }
+  }
+
+  return { balances, points };
+}
@@ -0,0 +1,188 @@
+import { eq, and, or, isNotNull, sql } from "drizzle-orm";
+import { rewardsLedger } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { getLedgerQuantity, getLedgerCurrency } from "./types";
+import type { CalculateRewardsOutput, RewardEntry } from "./engine";
+
+export type LedgerEntryType = "credit" | "debit";
+
+export const REDEMPTION_SOURCE = "redemption";
+export const REVERSAL_SOURCE = "reversal";
+export const EXPIRY_SOURCE = "expiry";
+
+export interface PointsBalance {
+  credited: number;
+  debited: number;
+  available: number;
+}
+
+export interface TenantCurrencyTotals {
+  currency: string;
+  earned: number;
+  redeemed: number;
+  expired: number;
+  outstanding: number;
+}
+
+export interface CurrencyBalance {
+  currency: string;
+  credited: number;
+  debited: number;
+  available: number;
+}
+
+export async function insertRewardEntry(
+  executor: DbExecutor,
+  tenantId: string,
+  reward: RewardEntry
+): Promise<typeof rewardsLedger.$inferSelect | null> {
+  const [entry] = await executor
+    .insert(rewardsLedger)
+    .values({
+      tenantId,
+      userId: reward.userId,
+      source: reward.source,
+      eventId: reward.eventId,
+      referralId: reward.rewardJson.referralId ?? null,
+      campaignId: reward.campaignId ?? null,
+      ruleKey: reward.ruleKey ?? null,
+      entryType: "credit",
+      rewardType: reward.rewardJson.type,
+      amount: Math.round(getLedgerQuantity(reward.rewardJson)),
+      currency: getLedgerCurrency(reward.rewardJson),
+      rewardJson: reward.rewardJson,
+      expiresAt: reward.expiresAt ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return entry ?? null;
+}
+
+export async function insertRewardEntries(
+  executor: DbExecutor,
+  tenantId: string,
+  rewards: CalculateRewardsOutput
+): Promise<void> {
+  for (const reward of [rewards.referrerReward, rewards.referredReward]) {
+    if (!reward) continue;
+    await insertRewardEntry(executor, tenantId, reward);
+  }
+}
+
+/**
+ * Rows that count towards what a user has earned: credits, net of any
+ * reversals. Redemptions spend earned rewards and are excluded.
+ */
+export function earnedEntriesFilter() {
+  return or(
+    eq(rewardsLedger.entryType, "credit"),
+    eq(rewardsLedger.source, REVERSAL_SOURCE)
+  );
+}
+
+/**
+ * Balances per currency. Credits are stored with a positive amount and debits
+ * with a negative one, so `available` is simply the signed sum.
+ */
+export async function getBalancesByUser(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string
+): Promise<CurrencyBalance[]> {
+  const rows = await executor
+    .select({
+      currency: rewardsLedger.currency,
+      credited: sql<number>`COALESCE(SUM(${rewardsLedger.amount}) FILTER (WHERE ${rewardsLedger.amount} > 0), 0)::int`,
+      debited: sql<number>`COALESCE(-SUM(${rewardsLedger.amount}) FILTER (WHERE ${rewardsLedger.amount} < 0), 0)::int`,
+      available: sql<number>`COALESCE(SUM(${rewardsLedger.amount}), 0)::int`,
+    })
+    .from(rewardsLedger)
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.userId, userId),
+        eq(rewardsLedger.rewardType, "credit"),
+        isNotNull(rewardsLedger.currency)
+      )
+    )
+    .groupBy(rewardsLedger.currency)
+    .orderBy(rewardsLedger.currency);
+
+  return rows.map((row) => ({ ...row, currency: row.currency! }));
+}
+
+export async function getPointsBalanceByUser(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string
+): Promise<PointsBalance> {
+  const [row] = await executor
+    .select({
+      credited: sql<number>`COALESCE(SUM(${rewardsLedger.amount}) FILTER (WHERE ${rewardsLedger.amount} > 0), 0)::int`,
+      debited: sql<number>`COALESCE(-SUM(${rewardsLedger.amount}) FILTER (WHERE ${rewardsLedger.amount} < 0), 0)::int`,
+      available: sql<number>`COALESCE(SUM(${rewardsLedger.amount}), 0)::int`,
+    })
+    .from(rewardsLedger)
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.userId, userId),
+        eq(rewardsLedger.rewardType, "points")
+      )
+    );
+
+  return row ?? { credited: 0, debited: 0, available: 0 };
+}
+
+export async function getAvailableBalance(
+  executor: DbExecutor,
+  tenantId: string,
+  userId: string,
+  currency: string
+): Promise<number> {
+  const [row] = await executor
+    .select({ available: sql<number>`COALESCE(SUM(${rewardsLedger.amount}), 0)::int` })
+    .from(rewardsLedger)
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.userId, userId),
+        eq(rewardsLedger.rewardType, "credit"),
+        eq(rewardsLedger.currency, currency)
+      )
+    );
+
+  return row?.available ?? 0;
+}
+
+/**
+ * Tenant-wide credit totals per currency: net earned (credits less
+ * reversals), redeemed, expired, and the outstanding balance still owed to
+ * users.
+ */
+export async function getTenantCurrencyTotals(
+  executor: DbExecutor,
+  tenantId: string
+): Promise<TenantCurrencyTotals[]> {
+  const rows = await executor
+    .select({
+      currency: rewardsLedger.currency,
+      earned: sql<number>`COALESCE(SUM(${rewardsLedger.amount}) FILTER (WHERE ${earnedEntriesFilter()}), 0)::int`,
+      redeemed: sql<number>`COALESCE(-SUM(${rewardsLedger.amount}) FILTER (WHERE ${rewardsLedger.source} = ${REDEMPTION_SOURCE}), 0)::int`,
+      expired: sql<number>`COALESCE(-SUM(${rewardsLedger.amount}) FILTER (WHERE ${rewardsLedger.source} = ${EXPIRY_SOURCE}), 0)::int`,
+      outstanding: sql<number>`COALESCE(SUM(${rewardsLedger.amount}), 0)::int`,
+    })
+    .from(rewardsLedger)
+    .where(
+      and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.rewardType, "credit"),
+        isNotNull(rewardsLedger.currency)
+      )
+    )
+    .groupBy(rewardsLedger.currency)
+    .orderBy(rewardsLedger.currency);
+
+  return rows.map((row) => ({ ...row, currency: row.currency! }));
+}
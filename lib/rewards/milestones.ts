@@ -0,0 +1,49 @@
+import { events } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { calculateMilestoneRewards } from "./engine";
+import { insertRewardEntry } from "./ledger";
+import type { CalculateRewardsInput } from "./engine";
+
+/**
+ * Writes a `milestone_bonus` ledger row and a `referral.milestone_reached`
+ * event for each milestone reached for the first time. Returns the ids of
+ * the events so the caller can enqueue webhooks after commit.
+ */
+export async function awardMilestones(
+  executor: DbExecutor,
+  tenantId: string,
+  input: CalculateRewardsInput
+): Promise<string[]> {
+  const eventIds: string[] = [];
+
+  for (const { milestone, ruleKey, entry } of calculateMilestoneRewards(input)) {
+    const ledgerEntry = await insertRewardEntry(executor, tenantId, entry);
+
+    if (!ledgerEntry) {
+      continue;
+    }
+
+    const [milestoneEvent] = await executor
+      .insert(events)
+      .values({
+        tenantId,
+        type: "referral.milestone_reached",
+        campaignId: entry.campaignId ?? null,
+        payloadJson: {
+          referrerUserId: input.referrerExternalUserId,
+          milestone,
+          completedReferrals: input.referralCount ?? 0,
+          referralId: input.referralId,
+          ruleKey,
+          campaignId: entry.campaignId ?? null,
+          ledgerEntryId: ledgerEntry.id,
+          reward: entry.rewardJson,
+        },
+      })
+      .returning();
+
+    eventIds.push(milestoneEvent.id);
+  }
+
+  return eventIds;
+}
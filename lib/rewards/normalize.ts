@@ -1,3 +1,5 @@
+import { isSupportedCurrency } from "./currency";
+
 export interface RewardRulesConfig {
   onboarding_bonus: number;
   referral_reward_free: number;
@@ -39,34 +41,9 @@ export function normalizeRewardRules(
         ? rawRules.referral_reward_power_pro
         : DEFAULT_REWARD_RULES.referral_reward_power_pro,
     currency:
-      typeof rawRules.currency === "string" && rawRules.currency.trim() !== ""
-        ? rawRules.currency
+      typeof rawRules.currency === "string" &&
+      isSupportedCurrency(rawRules.currency.trim().toUpperCase())
+        ? rawRules.currency.trim().toUpperCase()
         : DEFAULT_REWARD_RULES.currency,
   };
 }
-
-export type SubscriptionTier = "free" | "pro" | "power_pro";
-
-export function getRewardAmountForTier(
-  rules: RewardRulesConfig,
-  tier: SubscriptionTier
-): number {
-  switch (tier) {
-    case "free":
-      return rules.referral_reward_free;
-    case "pro":
-      return rules.referral_reward_pro;
-    case "power_pro":
-      return rules.referral_reward_power_pro;
-    default:
-      return rules.referral_reward_free;
-  }
-}
-
-export function normalizeSubscriptionTier(tier: string | null | undefined): SubscriptionTier {
-  if (!tier) return "free";
-  const normalized = tier.toLowerCase().trim();
-  if (normalized === "pro") return "pro";
-  if (normalized === "power_pro" || normalized === "powerpro") return "power_pro";
-  return "free";
-}
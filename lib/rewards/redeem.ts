@@ -0,0 +1,185 @@
+import { eq, and } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users, rewardsLedger, events } from "@/db/schema";
+import { getAvailableBalance, REDEMPTION_SOURCE } from "@/lib/rewards/ledger";
+import { expireDueRewardsForUser } from "@/lib/rewards/expiry";
+import { enqueueWebhookForExistingEvent } from "@/lib/webhooks/enqueue";
+
+export type LedgerEntryRecord = typeof rewardsLedger.$inferSelect;
+
+export interface RedeemRewardInput {
+  externalUserId: string;
+  redemptionId: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RedeemRewardResult {
+  success: true;
+  entry: LedgerEntryRecord;
+  balance: number;
+  alreadyProcessed: boolean;
+}
+
+export interface RedeemRewardError {
+  success: false;
+  code: string;
+  message: string;
+  status: number;
+  details?: Record<string, unknown>;
+}
+
+export type RedeemRewardOutcome = RedeemRewardResult | RedeemRewardError;
+
+export function generateRedemptionEventId(redemptionId: string): string {
+  return `redeem_${redemptionId}`;
+}
+
+/**
+ * Debits a user's balance in one currency. The user row is locked for the
+ * duration of the transaction so concurrent redemptions cannot overdraw.
+ * Credits that have lapsed are expired first so they cannot be spent.
+ */
+export async function redeemReward(
+  tenantId: string,
+  input: RedeemRewardInput
+): Promise<RedeemRewardOutcome> {
+  const eventId = generateRedemptionEventId(input.redemptionId);
+  let expiryEventIds: string[] = [];
+
+  const result = await db.transaction(async (tx) => {
+    const [user] = await tx
+      .select()
+      .from(users)
+      .where(and(eq(users.tenantId, tenantId), eq(users.externalUserId, input.externalUserId)))
+      .for("update");
+
+    if (!user) {
+      return {
+        success: false as const,
+        code: "USER_NOT_FOUND",
+        message: "User not found",
+        status: 404,
+      };
+    }
+
+    expiryEventIds = await expireDueRewardsForUser(tx, tenantId, user.id);
+
+    const existingEntry = await tx.query.rewardsLedger.findFirst({
+      where: and(
+        eq(rewardsLedger.tenantId, tenantId),
+        eq(rewardsLedger.userId, user.id),
+        eq(rewardsLedger.eventId, eventId)
+      ),
+    });
+
+    if (existingEntry) {
+      if (
+        existingEntry.amount !== -input.amount ||
+        existingEntry.currency !== input.currency
+      ) {
+        return {
+          success: false as const,
+          code: "REDEMPTION_CONFLICT",
+          message: "redemptionId was already used with a different amount or currency",
+          status: 409,
+        };
+      }
+
+      return {
+        success: true as const,
+        entry: existingEntry,
+        balance: await getAvailableBalance(tx, tenantId, user.id, existingEntry.currency),
+        alreadyProcessed: true,
+        webhookEventId: null,
+      };
+    }
+
+    const available = await getAvailableBalance(tx, tenantId, user.id, input.currency);
+
+    if (available < input.amount) {
+      return {
+        success: false as const,
+        code: "INSUFFICIENT_BALANCE",
+        message: `Insufficient ${input.currency} balance for this redemption`,
+        status: 409,
+        details: {
+          available,
+          requested: input.amount,
+          currency: input.currency,
+        },
+      };
+    }
+
+    const [entry] = await tx
+      .insert(rewardsLedger)
+      .values({
+        tenantId,
+        userId: user.id,
+        source: REDEMPTION_SOURCE,
+        eventId,
+        entryType: "debit",
+        amount: -input.amount,
+        currency: input.currency,
+        rewardJson: {
+          type: "debit",
+          amount: input.amount,
+          currency: input.currency,
+          description: input.description ?? "Reward redemption",
+          redemptionId: input.redemptionId,
+          ...(input.metadata ? { metadata: input.metadata } : {}),
+        },
+      })
+      .returning();
+
+    const balance = available - input.amount;
+
+    const [redeemEvent] = await tx
+      .insert(events)
+      .values({
+        tenantId,
+        type: "reward.redeemed",
+        payloadJson: {
+          redemptionId: input.redemptionId,
+          ledgerEntryId: entry.id,
+          externalUserId: user.externalUserId,
+          amount: input.amount,
+          currency: input.currency,
+          description: input.description ?? null,
+          metadata: input.metadata ?? null,
+          balance,
+        },
+      })
+      .returning();
+
+    return {
+      success: true as const,
+      entry,
+      balance,
+      alreadyProcessed: false,
+      webhookEventId: redeemEvent.id,
+    };
+  }, {
+    isolationLevel: "serializable",
+  });
+
+  for (const expiryEventId of expiryEventIds) {
+    enqueueWebhookForExistingEvent(tenantId, expiryEventId).catch(() => {
+    });
+  }
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { webhookEventId, ...outcome } = result;
+
+  if (webhookEventId) {
+    enqueueWebhookForExistingEvent(tenantId, webhookEventId).catch(() => {
+    });
+  }
+
+  return outcome;
+}
@@ -0,0 +1,237 @@
+import { eq, and, or, asc, isNull, sql } from "drizzle-orm";
+import { rewardRules } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+
+export type RewardEventType = "referral.claimed" | "referral.converted";
+
+export const DEFAULT_RULE_EVENT_TYPE: RewardEventType = "referral.converted";
+
+export interface RewardRuleRecord {
+  ruleKey: string;
+  conditionJson: Record<string, unknown> | null;
+  rewardReferrerJson: Record<string, unknown> | null;
+  rewardReferredJson: Record<string, unknown> | null;
+  validityDays?: number | null;
+}
+
+export interface RuleEvaluationContext {
+  eventType: RewardEventType;
+  referrerPlan: string;
+  referredPlan: string;
+  referralCount: number;
+  occurredAt: Date;
+}
+
+/**
+ * Every key a rule condition may use, matching `RuleConditionSchema`.
+ */
+export const RULE_CONDITION_KEYS = new Set([
+  "eventType",
+  "referrerPlan",
+  "referredPlan",
+  "minReferralCount",
+  "maxReferralCount",
+  "milestone",
+  "startsAt",
+  "endsAt",
+]);
+
+/**
+ * A condition with a key this engine does not understand never matches, so
+ * a rule written for another trigger cannot fire on every event.
+ */
+function hasOnlyKnownConditionKeys(condition: Record<string, unknown>): boolean {
+  return Object.keys(condition).every((key) => RULE_CONDITION_KEYS.has(key));
+}
+
+function toStringList(value: unknown): string[] | null {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  return null;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function matchesList(value: unknown, actual: string): boolean {
+  const list = toStringList(value);
+  if (!list) {
+    return true;
+  }
+  return list.map((item) => item.toLowerCase().trim()).includes(actual.toLowerCase().trim());
+}
+
+export function matchesCondition(
+  condition: Record<string, unknown> | null | undefined,
+  context: RuleEvaluationContext
+): boolean {
+  const rule = condition ?? {};
+
+  if (!hasOnlyKnownConditionKeys(rule)) {
+    return false;
+  }
+
+  const eventTypes = toStringList(rule.eventType) ?? [DEFAULT_RULE_EVENT_TYPE];
+  if (!eventTypes.includes(context.eventType)) {
+    return false;
+  }
+
+  if (!matchesList(rule.referrerPlan, context.referrerPlan)) {
+    return false;
+  }
+
+  if (!matchesList(rule.referredPlan, context.referredPlan)) {
+    return false;
+  }
+
+  if (typeof rule.minReferralCount === "number" && context.referralCount < rule.minReferralCount) {
+    return false;
+  }
+
+  if (typeof rule.maxReferralCount === "number" && context.referralCount > rule.maxReferralCount) {
+    return false;
+  }
+
+  const startsAt = parseDate(rule.startsAt);
+  if (startsAt && context.occurredAt < startsAt) {
+    return false;
+  }
+
+  const endsAt = parseDate(rule.endsAt);
+  if (endsAt && context.occurredAt > endsAt) {
+    return false;
+  }
+
+  return true;
+}
+
+export function getRuleMilestone(rule: RewardRuleRecord): number | null {
+  const milestone = rule.conditionJson?.milestone;
+  return typeof milestone === "number" && milestone > 0 ? milestone : null;
+}
+
+/**
+ * First matching regular rule. Milestone rules are evaluated separately by
+ * `findReachedMilestoneRules` and never take part in first-match ordering.
+ */
+export function findMatchingRule(
+  rules: RewardRuleRecord[],
+  context: RuleEvaluationContext
+): RewardRuleRecord | null {
+  return (
+    rules.find(
+      (rule) => getRuleMilestone(rule) === null && matchesCondition(rule.conditionJson, context)
+    ) ?? null
+  );
+}
+
+/**
+ * Every milestone rule whose other conditions match and whose milestone the
+ * referrer's completed referral count has reached. Callers rely on the
+ * ledger's eventId to pay each milestone only once.
+ */
+export function findReachedMilestoneRules(
+  rules: RewardRuleRecord[],
+  context: RuleEvaluationContext
+): Array<{ rule: RewardRuleRecord; milestone: number }> {
+  const reached: Array<{ rule: RewardRuleRecord; milestone: number }> = [];
+
+  for (const rule of rules) {
+    const milestone = getRuleMilestone(rule);
+    if (milestone === null || context.referralCount < milestone) continue;
+    if (!matchesCondition(rule.conditionJson, context)) continue;
+    reached.push({ rule, milestone });
+  }
+
+  return reached;
+}
+
+/**
+ * The lowest milestone above `completedReferrals` that is still open to a
+ * referrer on `referrerPlan`, used to show progress in the embed.
+ */
+export function findNextMilestoneRule(
+  rules: RewardRuleRecord[],
+  referrerPlan: string,
+  completedReferrals: number,
+  now: Date
+): { rule: RewardRuleRecord; milestone: number } | null {
+  let next: { rule: RewardRuleRecord; milestone: number } | null = null;
+
+  for (const rule of rules) {
+    const milestone = getRuleMilestone(rule);
+    if (milestone === null || milestone <= completedReferrals) continue;
+
+    const condition = rule.conditionJson ?? {};
+    if (!hasOnlyKnownConditionKeys(condition)) continue;
+    if (!matchesList(condition.referrerPlan, referrerPlan)) continue;
+
+    const endsAt = parseDate(condition.endsAt);
+    if (endsAt && now > endsAt) continue;
+
+    if (!next || milestone < next.milestone) {
+      next = { rule, milestone };
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Same order as `loadEnabledRewardRules`: campaign rules first, then by
+ * priority and key.
+ */
+export function orderRewardRules<
+  T extends RewardRuleRecord & { priority: number; campaignId?: string | null },
+>(rules: T[]): T[] {
+  return [...rules].sort(
+    (a, b) =>
+      Number(!a.campaignId) - Number(!b.campaignId) ||
+      a.priority - b.priority ||
+      a.ruleKey.localeCompare(b.ruleKey)
+  );
+}
+
+/**
+ * Tenant-wide rules plus, when `campaignId` is given, that campaign's rules.
+ * Campaign rules come first so they win first-match evaluation over the
+ * tenant's regular rules. Other campaigns' rules are never loaded.
+ */
+export async function loadEnabledRewardRules(
+  executor: DbExecutor,
+  tenantId: string,
+  campaignId: string | null = null
+): Promise<RewardRuleRecord[]> {
+  return executor
+    .select({
+      ruleKey: rewardRules.ruleKey,
+      conditionJson: rewardRules.conditionJson,
+      rewardReferrerJson: rewardRules.rewardReferrerJson,
+      rewardReferredJson: rewardRules.rewardReferredJson,
+      validityDays: rewardRules.validityDays,
+    })
+    .from(rewardRules)
+    .where(
+      and(
+        eq(rewardRules.tenantId, tenantId),
+        eq(rewardRules.enabled, true),
+        campaignId
+          ? or(isNull(rewardRules.campaignId), eq(rewardRules.campaignId, campaignId))
+          : isNull(rewardRules.campaignId)
+      )
+    )
+    .orderBy(
+      asc(sql`${rewardRules.campaignId} is null`),
+      asc(rewardRules.priority),
+      asc(rewardRules.ruleKey)
+    );
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { RewardPayloadSchema } from "./types";
+
+export const RULE_EVENT_TYPES = ["referral.claimed", "referral.converted"] as const;
+
+const stringOrList = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+const isoDate = z.string().datetime({ offset: true, message: "Must be an ISO 8601 date" });
+
+export const RuleConditionSchema = z
+  .object({
+    eventType: z
+      .union([z.enum(RULE_EVENT_TYPES), z.array(z.enum(RULE_EVENT_TYPES)).min(1)])
+      .optional(),
+    referrerPlan: stringOrList.optional(),
+    referredPlan: stringOrList.optional(),
+    minReferralCount: z.number().int().min(0).optional(),
+    maxReferralCount: z.number().int().min(0).optional(),
+    milestone: z.number().int().min(1, "milestone must be at least 1").optional(),
+    startsAt: isoDate.optional(),
+    endsAt: isoDate.optional(),
+  })
+  .strict()
+  .refine(
+    (condition) =>
+      condition.minReferralCount === undefined ||
+      condition.maxReferralCount === undefined ||
+      condition.minReferralCount <= condition.maxReferralCount,
+    { message: "minReferralCount must not exceed maxReferralCount" }
+  )
+  .refine(
+    (condition) =>
+      condition.milestone === undefined ||
+      (condition.minReferralCount === undefined && condition.maxReferralCount === undefined),
+    { message: "milestone cannot be combined with minReferralCount or maxReferralCount" }
+  )
+  .refine(
+    (condition) =>
+      !condition.startsAt ||
+      !condition.endsAt ||
+      new Date(condition.startsAt) <= new Date(condition.endsAt),
+    { message: "startsAt must be before endsAt" }
+  );
+
+export const RuleRewardSchema = RewardPayloadSchema;
+
+export const RuleKeySchema = z
+  .string()
+  .min(1, "ruleKey is required")
+  .max(100, "ruleKey must be at most 100 characters")
+  .regex(
+    /^[a-z0-9][a-z0-9_]*$/,
+    "ruleKey may only contain lowercase letters, numbers and underscores"
+  );
+
+export const RulePrioritySchema = z.number().int().min(0).max(10_000);
+
+/**
+ * Days a rule's rewards stay valid after they are granted. Null means they
+ * never expire.
+ */
+export const RuleValidityDaysSchema = z
+  .number()
+  .int("validityDays must be a whole number of days")
+  .min(1, "validityDays must be at least 1")
+  .max(3650, "validityDays must be at most 3650");
+
+/**
+ * Scopes a rule to one campaign. Null rules apply tenant-wide.
+ */
+export const RuleCampaignIdSchema = z.string().uuid("campaignId must be a UUID");
+
+export const RuleDefinitionSchema = z.object({
+  ruleKey: RuleKeySchema,
+  campaignId: RuleCampaignIdSchema.nullable().optional().default(null),
+  enabled: z.boolean().optional().default(true),
+  priority: RulePrioritySchema.optional().default(0),
+  conditionJson: RuleConditionSchema.optional().default({}),
+  rewardReferrerJson: RuleRewardSchema.nullable().optional().default(null),
+  rewardReferredJson: RuleRewardSchema.nullable().optional().default(null),
+  validityDays: RuleValidityDaysSchema.nullable().optional().default(null),
+});
+
+export type RuleCondition = z.infer<typeof RuleConditionSchema>;
+export type RuleReward = z.infer<typeof RuleRewardSchema>;
+export type RuleDefinition = z.infer<typeof RuleDefinitionSchema>;
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { formatMinorUnits, isSupportedCurrency } from "./currency";
+
+export const REWARD_TYPES = [
+  "credit",
+  "subscription_extension",
+  "plan_upgrade",
+  "points",
+  "coupon",
+  "feature_unlock",
+] as const;
+
+export type RewardType = (typeof REWARD_TYPES)[number];
+
+export const DURATION_UNITS = ["day", "month"] as const;
+
+export type DurationUnit = (typeof DURATION_UNITS)[number];
+
+export const CurrencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter uppercase code")
+  .refine(isSupportedCurrency, (code) => ({ message: `Unknown ISO 4217 currency code "${code}"` }));
+
+const description = z.string().max(255).optional();
+
+const duration = z.number().int().positive("duration must be positive").max(3650);
+
+export const CreditRewardSchema = z
+  .object({
+    type: z.literal("credit"),
+    amount: z
+      .number()
+      .int("Reward amount must be a whole number of minor units")
+      .positive("Reward amount must be positive"),
+    currency: CurrencyCodeSchema.optional(),
+    description,
+  })
+  .strict();
+
+export const SubscriptionExtensionRewardSchema = z
+  .object({
+    type: z.literal("subscription_extension"),
+    duration,
+    durationUnit: z.enum(DURATION_UNITS).optional().default("month"),
+    plan: z.string().min(1).max(50).optional(),
+    description,
+  })
+  .strict();
+
+export const PlanUpgradeRewardSchema = z
+  .object({
+    type: z.literal("plan_upgrade"),
+    targetTier: z.string().min(1, "targetTier is required").max(50),
+    duration: duration.optional(),
+    durationUnit: z.enum(DURATION_UNITS).optional().default("month"),
+    description,
+  })
+  .strict();
+
+export const PointsRewardSchema = z
+  .object({
+    type: z.literal("points"),
+    points: z.number().int().positive("points must be positive"),
+    description,
+  })
+  .strict();
+
+export const CouponRewardSchema = z
+  .object({
+    type: z.literal("coupon"),
+    code: z.string().min(1, "code is required").max(100),
+    percentOff: z.number().positive().max(100).optional(),
+    amountOff: z.number().int().positive().optional(),
+    currency: CurrencyCodeSchema.optional(),
+    description,
+  })
+  .strict();
+
+export const FeatureUnlockRewardSchema = z
+  .object({
+    type: z.literal("feature_unlock"),
+    feature: z.string().min(1, "feature is required").max(100),
+    duration: duration.optional(),
+    durationUnit: z.enum(DURATION_UNITS).optional().default("month"),
+    description,
+  })
+  .strict();
+
+/**
+ * Rewards without a `type` predate typed payloads and are treated as credits.
+ */
+export const RewardPayloadSchema = z.preprocess(
+  (value) =>
+    value && typeof value === "object" && !Array.isArray(value) && !("type" in value)
+      ? { ...value, type: "credit" }
+      : value,
+  z
+    .discriminatedUnion("type", [
+      CreditRewardSchema,
+      SubscriptionExtensionRewardSchema,
+      PlanUpgradeRewardSchema,
+      PointsRewardSchema,
+      CouponRewardSchema,
+      FeatureUnlockRewardSchema,
+    ])
+    .superRefine((reward, ctx) => {
+      if (reward.type === "coupon" && reward.percentOff && reward.amountOff) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "A coupon takes either percentOff or amountOff, not both",
+        });
+      }
+    })
+);
+
+export type CreditReward = z.infer<typeof CreditRewardSchema>;
+export type RewardPayload = z.output<typeof RewardPayloadSchema>;
+
+/**
+ * Amount written to the ledger's signed `amount` column. Only credits and
+ * points are balances; the other types are entitlements the host applies.
+ */
+export function getLedgerQuantity(reward: RewardPayload): number {
+  switch (reward.type) {
+    case "credit":
+      return reward.amount;
+    case "points":
+      return reward.points;
+    default:
+      return 0;
+  }
+}
+
+export function getLedgerCurrency(reward: RewardPayload): string | null {
+  return reward.type === "credit" ? reward.currency ?? null : null;
+}
+
+function formatDuration(value: number, unit: DurationUnit): string {
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+/**
+ * Human readable summary of a reward payload, e.g. "1 month of pro".
+ */
+export function describeReward(reward: RewardPayload): string {
+  switch (reward.type) {
+    case "credit":
+      return reward.currency
+        ? `${formatMinorUnits(reward.amount, reward.currency)} credit`
+        : `${reward.amount} credit`;
+    case "subscription_extension":
+      return `${formatDuration(reward.duration, reward.durationUnit)}${
+        reward.plan ? ` of ${reward.plan}` : " subscription"
+      }`;
+    case "plan_upgrade":
+      return `Upgrade to ${reward.targetTier}${
+        reward.duration ? ` for ${formatDuration(reward.duration, reward.durationUnit)}` : ""
+      }`;
+    case "points":
+      return `${reward.points} point${reward.points === 1 ? "" : "s"}`;
+    case "coupon":
+      if (reward.percentOff) {
+        return `Coupon ${reward.code} (${reward.percentOff}% off)`;
+      }
+      if (reward.amountOff && reward.currency) {
+        return `Coupon ${reward.code} (${formatMinorUnits(reward.amountOff, reward.currency)} off)`;
+      }
+      return `Coupon ${reward.code}`;
+    case "feature_unlock":
+      return `Unlock ${reward.feature}${
+        reward.duration ? ` for ${formatDuration(reward.duration, reward.durationUnit)}` : ""
+      }`;
+  }
+}
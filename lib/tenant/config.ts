@@ -126,3 +126,29 @@ export async function getTenantConfigById(id: string): Promise<TenantConfig | nu
     referralSettings: parseReferralSettings(tenant.referralSettingsJson, tenant.name),
   };
 }
+
+/**
+ * Layers a campaign's branding overrides and share message over the tenant
+ * config. Branding keys the campaign does not set keep the tenant's value.
+ */
+export function applyCampaignOverrides(
+  config: TenantConfig,
+  campaign: { brandingJson: Record<string, unknown> | null; shareMessage: string | null }
+): TenantConfig {
+  const overrides = campaign.brandingJson ?? {};
+  const branding = parseBranding({ ...config.branding, ...overrides });
+
+  return {
+    ...config,
+    branding,
+    referralSettings: {
+      ...config.referralSettings,
+      title: typeof overrides.title === "string" ? overrides.title : config.referralSettings.title,
+      description:
+        typeof overrides.description === "string"
+          ? overrides.description
+          : config.referralSettings.description,
+      shareMessage: campaign.shareMessage ?? config.referralSettings.shareMessage,
+    },
+  };
+}
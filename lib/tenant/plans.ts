@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { eq, asc } from "drizzle-orm";
+import { tenantPlans, tenants } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { normalizeRewardRules } from "@/lib/rewards/normalize";
+import type { RewardRulesConfig } from "@/lib/rewards/normalize";
+
+export interface TenantPlan {
+  key: string;
+  displayName: string;
+  rank: number;
+  referralRewardAmount: number;
+}
+
+export const PlanKeySchema = z
+  .string()
+  .min(1, "Plan key is required")
+  .max(50, "Plan key must be at most 50 characters")
+  .regex(/^[a-z0-9][a-z0-9_]*$/, "Plan key may only contain lowercase letters, numbers and underscores");
+
+export const TenantPlanSchema = z
+  .object({
+    key: PlanKeySchema,
+    displayName: z.string().trim().min(1, "displayName is required").max(100),
+    rank: z.number().int().min(0).max(1000),
+    referralRewardAmount: z
+      .number()
+      .int("referralRewardAmount must be a whole number of minor units")
+      .min(0)
+      .optional()
+      .default(0),
+  })
+  .strict();
+
+export const PlanCatalogSchema = z
+  .array(TenantPlanSchema)
+  .min(1, "At least one plan is required")
+  .max(50, "At most 50 plans are allowed")
+  .refine((plans) => new Set(plans.map((plan) => plan.key)).size === plans.length, {
+    message: "Plan keys must be unique",
+  });
+
+/**
+ * The catalog every tenant had before plans were configurable. Used for
+ * tenants that have not defined their own.
+ */
+export function buildDefaultPlanCatalog(settings: RewardRulesConfig): TenantPlan[] {
+  return [
+    { key: "free", displayName: "Free", rank: 0, referralRewardAmount: settings.referral_reward_free },
+    { key: "pro", displayName: "Pro", rank: 1, referralRewardAmount: settings.referral_reward_pro },
+    {
+      key: "power_pro",
+      displayName: "Power Pro",
+      rank: 2,
+      referralRewardAmount: settings.referral_reward_power_pro,
+    },
+  ];
+}
+
+export async function getTenantPlanCatalog(
+  executor: DbExecutor,
+  tenantId: string
+): Promise<TenantPlan[]> {
+  const plans = await executor
+    .select({
+      key: tenantPlans.key,
+      displayName: tenantPlans.displayName,
+      rank: tenantPlans.rank,
+      referralRewardAmount: tenantPlans.referralRewardAmount,
+    })
+    .from(tenantPlans)
+    .where(eq(tenantPlans.tenantId, tenantId))
+    .orderBy(asc(tenantPlans.rank), asc(tenantPlans.key));
+
+  if (plans.length > 0) {
+    return plans;
+  }
+
+  const [tenant] = await executor
+    .select({ referralSettingsJson: tenants.referralSettingsJson })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId));
+
+  return buildDefaultPlanCatalog(normalizeRewardRules(tenant?.referralSettingsJson));
+}
+
+export function findPlan(catalog: TenantPlan[], key: string | null | undefined): TenantPlan | null {
+  if (!key) return null;
+  const normalized = key.toLowerCase().trim();
+  return catalog.find((plan) => plan.key === normalized) ?? null;
+}
+
+/**
+ * Lowest-ranked plan, assigned when a user is created without a plan.
+ */
+export function getDefaultPlan(catalog: TenantPlan[]): TenantPlan {
+  return catalog.reduce((lowest, plan) => (plan.rank < lowest.rank ? plan : lowest));
+}
@@ -0,0 +1,231 @@
+import { eq, and, lte, inArray, asc } from "drizzle-orm";
+import { webhookDeliveries, webhookEndpoints } from "@/db/schema";
+import type { DbExecutor, DbTransaction } from "@/lib/db";
+import { deliveryEventCreatedAt } from "./deliveries";
+import type { WebhookEndpointRecord } from "./endpoints";
+
+/**
+ * `closed`: deliveries flow. `open`: the endpoint kept failing, so its
+ * deliveries are held and only a single probe is sent once the probe time
+ * comes round. `half_open`: a probe is in flight.
+ */
+export const CIRCUIT_STATES = ["closed", "open", "half_open"] as const;
+export type CircuitState = (typeof CIRCUIT_STATES)[number];
+
+export const CIRCUIT_DISABLED_REASON = "circuit_open";
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failed attempts that open the circuit. */
+  failureThreshold: number;
+  /** Time between probes while the circuit is open. */
+  probeIntervalMs: number;
+  /** How long a circuit may stay open before the endpoint is disabled. */
+  disableAfterMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  probeIntervalMs: 60_000,
+  disableAfterMs: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * The field values that put an endpoint back into the `closed` state, used
+ * when it recovers or is re-enabled.
+ */
+export const CLOSED_CIRCUIT = {
+  circuitState: "closed",
+  consecutiveFailures: 0,
+  circuitOpenedAt: null,
+  circuitNextProbeAt: null,
+  disabledReason: null,
+} as const;
+
+export interface ProbeDelivery {
+  endpointId: string;
+  deliveryId: string;
+}
+
+/**
+ * Picks the probe for every endpoint whose circuit is due one: the pending
+ * delivery with the oldest event, so held deliveries keep their order. The
+ * endpoint moves to `half_open` and its next probe time is pushed back, so a
+ * probe lost to a crashed worker is retried later. Endpoints with nothing
+ * pending stay open.
+ */
+export async function claimCircuitProbes(
+  tx: DbTransaction,
+  config: CircuitBreakerConfig,
+  now: Date = new Date()
+): Promise<ProbeDelivery[]> {
+  const endpoints = await tx
+    .select({ id: webhookEndpoints.id })
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.enabled, true),
+        inArray(webhookEndpoints.circuitState, ["open", "half_open"]),
+        lte(webhookEndpoints.circuitNextProbeAt, now)
+      )
+    )
+    .for("update", { skipLocked: true });
+
+  const probes: ProbeDelivery[] = [];
+  const nextProbeAt = new Date(now.getTime() + config.probeIntervalMs);
+
+  for (const endpoint of endpoints) {
+    const [delivery] = await tx
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.endpointId, endpoint.id),
+          eq(webhookDeliveries.status, "pending")
+        )
+      )
+      .orderBy(asc(deliveryEventCreatedAt), asc(webhookDeliveries.createdAt))
+      .limit(1);
+
+    await tx
+      .update(webhookEndpoints)
+      .set({
+        circuitState: delivery ? "half_open" : "open",
+        circuitNextProbeAt: nextProbeAt,
+      })
+      .where(eq(webhookEndpoints.id, endpoint.id));
+
+    if (delivery) {
+      probes.push({ endpointId: endpoint.id, deliveryId: delivery.id });
+    }
+  }
+
+  return probes;
+}
+
+/**
+ * Makes the deliveries held for an endpoint due now. Held deliveries keep the
+ * backoff of their last failed attempt, so without this newer deliveries
+ * would overtake them once the circuit closes.
+ */
+export async function releaseHeldDeliveries(
+  executor: DbExecutor,
+  endpointId: string,
+  now: Date = new Date()
+): Promise<void> {
+  await executor
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: now, updatedAt: now })
+    .where(
+      and(eq(webhookDeliveries.endpointId, endpointId), eq(webhookDeliveries.status, "pending"))
+    );
+}
+
+/**
+ * Closes the circuit after a successful attempt. Returns true when the
+ * endpoint was recovering from an open circuit, in which case its held
+ * deliveries are released in event order.
+ */
+export async function recordEndpointSuccess(
+  executor: DbExecutor,
+  endpoint: Pick<WebhookEndpointRecord, "id" | "circuitState" | "consecutiveFailures">
+): Promise<boolean> {
+  if (endpoint.circuitState === "closed" && endpoint.consecutiveFailures === 0) {
+    return false;
+  }
+
+  const now = new Date();
+
+  await executor
+    .update(webhookEndpoints)
+    .set({ ...CLOSED_CIRCUIT, updatedAt: now })
+    .where(eq(webhookEndpoints.id, endpoint.id));
+
+  if (endpoint.circuitState === "closed") {
+    return false;
+  }
+
+  await releaseHeldDeliveries(executor, endpoint.id, now);
+  return true;
+}
+
+export type EndpointFailureOutcome =
+  | { circuit: "closed"; consecutiveFailures: number }
+  | { circuit: "opened"; consecutiveFailures: number }
+  | { circuit: "still_open"; consecutiveFailures: number }
+  | { circuit: "disabled"; consecutiveFailures: number; endpoint: WebhookEndpointRecord };
+
+/**
+ * Counts a failed attempt against an endpoint. The circuit opens when the
+ * count reaches `failureThreshold`; a failed probe keeps it open, and once it
+ * has been open for `disableAfterMs` the endpoint is disabled instead.
+ */
+export async function recordEndpointFailure(
+  tx: DbTransaction,
+  endpointId: string,
+  config: CircuitBreakerConfig,
+  now: Date = new Date()
+): Promise<EndpointFailureOutcome | null> {
+  const [endpoint] = await tx
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.id, endpointId))
+    .for("update");
+
+  if (!endpoint) {
+    return null;
+  }
+
+  const consecutiveFailures = endpoint.consecutiveFailures + 1;
+  const nextProbeAt = new Date(now.getTime() + config.probeIntervalMs);
+
+  if (endpoint.circuitState === "closed") {
+    const opens = consecutiveFailures >= config.failureThreshold;
+
+    await tx
+      .update(webhookEndpoints)
+      .set({
+        consecutiveFailures,
+        ...(opens && {
+          circuitState: "open",
+          circuitOpenedAt: now,
+          circuitNextProbeAt: nextProbeAt,
+        }),
+        updatedAt: now,
+      })
+      .where(eq(webhookEndpoints.id, endpoint.id));
+
+    return { circuit: opens ? "opened" : "closed", consecutiveFailures };
+  }
+
+  const openedAt = endpoint.circuitOpenedAt ?? now;
+
+  if (now.getTime() - openedAt.getTime() >= config.disableAfterMs) {
+    const [disabled] = await tx
+      .update(webhookEndpoints)
+      .set({
+        enabled: false,
+        consecutiveFailures,
+        circuitState: "open",
+        circuitNextProbeAt: null,
+        disabledReason: CIRCUIT_DISABLED_REASON,
+        updatedAt: now,
+      })
+      .where(eq(webhookEndpoints.id, endpoint.id))
+      .returning();
+
+    return { circuit: "disabled", consecutiveFailures, endpoint: disabled };
+  }
+
+  await tx
+    .update(webhookEndpoints)
+    .set({
+      consecutiveFailures,
+      circuitState: "open",
+      circuitOpenedAt: openedAt,
+      circuitNextProbeAt: nextProbeAt,
+      updatedAt: now,
+    })
+    .where(eq(webhookEndpoints.id, endpoint.id));
+
+  return { circuit: "still_open", consecutiveFailures };
+}
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { eq, and, or, lte, asc, inArray, isNull, sql } from "drizzle-orm";
+import {
+  events,
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhookEndpoints,
+} from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+
+export type WebhookDeliveryRecord = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeliveryAttemptRecord = typeof webhookDeliveryAttempts.$inferSelect;
+
+export const DELIVERY_STATUSES = ["pending", "success", "failed"] as const;
+
+/**
+ * Response bodies are stored up to this many characters per attempt.
+ */
+export const MAX_ATTEMPT_RESPONSE_BODY_LENGTH = 2000;
+
+/**
+ * When a delivery's event happened. Held, retried and replayed deliveries
+ * are written after their event, so draining by this keeps an endpoint's
+ * deliveries in event order where the delivery's own `createdAt` would not.
+ */
+export const deliveryEventCreatedAt = sql<Date | null>`(
+  select ${events.createdAt} from ${events}
+  where ${events.tenantId} = ${webhookDeliveries.tenantId}
+    and ${events.id}::text = ${webhookDeliveries.eventId}
+)`;
+
+/**
+ * Due deliveries, oldest event first, locked for the caller. Deliveries to an
+ * endpoint whose circuit is not closed are held back until it recovers.
+ */
+export async function selectDueDeliveries(
+  executor: DbExecutor,
+  options: { limit: number; now?: Date; endpointId?: string }
+): Promise<WebhookDeliveryRecord[]> {
+  const now = options.now ?? new Date();
+
+  return executor
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        options.endpointId ? eq(webhookDeliveries.endpointId, options.endpointId) : undefined,
+        or(
+          isNull(webhookDeliveries.endpointId),
+          inArray(
+            webhookDeliveries.endpointId,
+            executor
+              .select({ id: webhookEndpoints.id })
+              .from(webhookEndpoints)
+              .where(eq(webhookEndpoints.circuitState, "closed"))
+          )
+        )
+      )
+    )
+    .orderBy(asc(deliveryEventCreatedAt), asc(webhookDeliveries.createdAt))
+    .limit(options.limit)
+    .for("update", { skipLocked: true });
+}
+
+export function hashWebhookPayload(payload: string): string {
+  return crypto.createHash("sha256").update(payload).digest("hex");
+}
+
+export function truncateResponseBody(body: string): string {
+  return body.length > MAX_ATTEMPT_RESPONSE_BODY_LENGTH
+    ? body.slice(0, MAX_ATTEMPT_RESPONSE_BODY_LENGTH)
+    : body;
+}
+
+export interface WebhookDeliverySummary {
+  id: string;
+  eventId: string;
+  endpointId: string | null;
+  url: string;
+  status: string;
+  attemptCount: number;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function serializeWebhookDelivery(delivery: WebhookDeliveryRecord): WebhookDeliverySummary {
+  return {
+    id: delivery.id,
+    eventId: delivery.eventId,
+    endpointId: delivery.endpointId,
+    url: delivery.url,
+    status: delivery.status,
+    attemptCount: delivery.attemptCount,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    lastError: delivery.lastError,
+    createdAt: delivery.createdAt.toISOString(),
+    updatedAt: delivery.updatedAt.toISOString(),
+  };
+}
+
+export interface WebhookDeliveryAttemptSummary {
+  id: string;
+  attemptNumber: number;
+  url: string;
+  requestHeaders: Record<string, string>;
+  payloadHash: string;
+  success: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+export function serializeWebhookDeliveryAttempt(
+  attempt: WebhookDeliveryAttemptRecord
+): WebhookDeliveryAttemptSummary {
+  return {
+    id: attempt.id,
+    attemptNumber: attempt.attemptNumber,
+    url: attempt.url,
+    requestHeaders: attempt.requestHeaders,
+    payloadHash: attempt.payloadHash,
+    success: attempt.success,
+    responseStatus: attempt.responseStatus,
+    responseBody: attempt.responseBody,
+    error: attempt.error,
+    durationMs: attempt.durationMs,
+    attemptedAt: attempt.attemptedAt.toISOString(),
+  };
+}
@@ -0,0 +1,213 @@
+import { z } from "zod";
+import { eq, and, asc } from "drizzle-orm";
+import { webhookEndpoints } from "@/db/schema";
+import type { DbExecutor } from "@/lib/db";
+import { isPreviousSecretActive } from "./secrets";
+
+export type WebhookEndpointRecord = typeof webhookEndpoints.$inferSelect;
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+/**
+ * Bookkeeping events that are never delivered through a wildcard. An
+ * endpoint only receives them when it lists the type itself.
+ */
+export const INTERNAL_EVENT_TYPES = new Set([
+  "embed.viewed",
+  "webhook.sent",
+  "webhook.failed",
+  "webhook.exhausted",
+  "webhook.replay_started",
+  "webhook.endpoint_disabled",
+]);
+
+/**
+ * An event type (`referral.converted`), every type under a prefix
+ * (`referral.*`), or every event (`*`).
+ */
+export const EventTypePatternSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^(\*|[a-z0-9_]+(\.[a-z0-9_]+)*(\.\*)?)$/,
+    "eventTypes must be event types such as 'referral.converted', prefixes such as 'referral.*', or '*'"
+  );
+
+const endpointFields = {
+  url: z.string().url("Webhook URL must be a valid URL"),
+  description: z.string().trim().max(200, "description must be at most 200 characters").nullable(),
+  enabled: z.boolean(),
+  eventTypes: z
+    .array(EventTypePatternSchema)
+    .min(1, "eventTypes must list at least one event type")
+    .max(50, "eventTypes may list at most 50 event types"),
+};
+
+export const WebhookEndpointCreateSchema = z
+  .object({
+    url: endpointFields.url,
+    description: endpointFields.description.optional(),
+    enabled: endpointFields.enabled.optional(),
+    eventTypes: endpointFields.eventTypes,
+  })
+  .strict();
+
+export const WebhookEndpointUpdateSchema = z
+  .object({
+    url: endpointFields.url.optional(),
+    description: endpointFields.description.optional(),
+    enabled: endpointFields.enabled.optional(),
+    eventTypes: endpointFields.eventTypes.optional(),
+  })
+  .strict();
+
+export type WebhookEndpointCreateInput = z.infer<typeof WebhookEndpointCreateSchema>;
+export type WebhookEndpointUpdateInput = z.infer<typeof WebhookEndpointUpdateSchema>;
+
+function isLocalhostUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.toLowerCase();
+    return (
+      hostname === "localhost" ||
+      hostname === "127.0.0.1" ||
+      hostname === "0.0.0.0" ||
+      hostname.endsWith(".localhost")
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function validateWebhookUrl(url: string): { valid: boolean; error?: string } {
+  try {
+    const parsed = new URL(url);
+
+    if (parsed.protocol !== "https:") {
+      return { valid: false, error: "Webhook URL must use HTTPS" };
+    }
+
+    const isProduction = process.env.NODE_ENV === "production";
+    const allowLocalWebhooks = process.env.ALLOW_LOCAL_WEBHOOKS === "true";
+
+    if (isProduction && isLocalhostUrl(url) && !allowLocalWebhooks) {
+      return { valid: false, error: "Localhost URLs are not allowed in production" };
+    }
+
+    return { valid: true };
+  } catch {
+    return { valid: false, error: "Invalid URL format" };
+  }
+}
+
+export function matchesEventType(patterns: string[], eventType: string): boolean {
+  return patterns.some((pattern) => {
+    if (pattern === eventType) {
+      return true;
+    }
+    if (INTERNAL_EVENT_TYPES.has(eventType)) {
+      return false;
+    }
+    if (pattern === "*") {
+      return true;
+    }
+    return pattern.endsWith(".*") && eventType.startsWith(pattern.slice(0, -1));
+  });
+}
+
+export async function listWebhookEndpoints(
+  executor: DbExecutor,
+  tenantId: string
+): Promise<WebhookEndpointRecord[]> {
+  return executor
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.tenantId, tenantId))
+    .orderBy(asc(webhookEndpoints.createdAt));
+}
+
+export async function getWebhookEndpoint(
+  executor: DbExecutor,
+  tenantId: string,
+  endpointId: string
+): Promise<WebhookEndpointRecord | null> {
+  const [endpoint] = await executor
+    .select()
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.tenantId, tenantId), eq(webhookEndpoints.id, endpointId)))
+    .limit(1);
+
+  return endpoint ?? null;
+}
+
+/**
+ * The enabled endpoints of a tenant that subscribe to an event type.
+ */
+export async function getSubscribedWebhookEndpoints(
+  executor: DbExecutor,
+  tenantId: string,
+  eventType: string
+): Promise<WebhookEndpointRecord[]> {
+  const endpoints = await executor
+    .select()
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.tenantId, tenantId), eq(webhookEndpoints.enabled, true)))
+    .orderBy(asc(webhookEndpoints.createdAt));
+
+  return endpoints.filter((endpoint) => matchesEventType(endpoint.eventTypes, eventType));
+}
+
+/**
+ * Every endpoint on the shared secret is signed with the same key, so any
+ * tenant that knows it can forge deliveries to the others.
+ */
+export const SHARED_SECRET_WARNING =
+  "This endpoint is signed with the secret shared by every endpoint created before " +
+  "per-endpoint secrets, so other tenants can forge its webhooks. Rotate its secret.";
+
+export interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  description: string | null;
+  enabled: boolean;
+  eventTypes: string[];
+  usesSharedSecret: boolean;
+  warnings: string[];
+  secretRotatedAt: string | null;
+  previousSecretExpiresAt: string | null;
+  circuitState: string;
+  consecutiveFailures: number;
+  circuitOpenedAt: string | null;
+  disabledReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Secrets are never part of the summary; they are shown once when created
+ * or rotated.
+ */
+export function serializeWebhookEndpoint(
+  endpoint: WebhookEndpointRecord,
+  now: Date = new Date()
+): WebhookEndpointSummary {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    enabled: endpoint.enabled,
+    eventTypes: endpoint.eventTypes,
+    usesSharedSecret: endpoint.secretEncrypted === null,
+    warnings: endpoint.secretEncrypted === null ? [SHARED_SECRET_WARNING] : [],
+    secretRotatedAt: endpoint.secretRotatedAt?.toISOString() ?? null,
+    previousSecretExpiresAt: isPreviousSecretActive(endpoint, now)
+      ? endpoint.previousSecretExpiresAt!.toISOString()
+      : null,
+    circuitState: endpoint.circuitState,
+    consecutiveFailures: endpoint.consecutiveFailures,
+    circuitOpenedAt: endpoint.circuitOpenedAt?.toISOString() ?? null,
+    disabledReason: endpoint.disabledReason,
+    createdAt: endpoint.createdAt.toISOString(),
+    updatedAt: endpoint.updatedAt.toISOString(),
+  };
+}
@@ -1,29 +1,33 @@
 import { db } from "@/lib/db";
-import { events, webhookDeliveries, tenants } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { events, webhookDeliveries } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getSubscribedWebhookEndpoints } from "./endpoints";
+import type { WebhookEndpointRecord } from "./endpoints";
 
 export interface EnqueueWebhookOptions {
   tenantId: string;
   eventId: string;
-  webhookUrl: string;
+  endpoint: Pick<WebhookEndpointRecord, "id" | "url">;
 }
 
 export interface EnqueueResult {
   deliveryId: string;
   eventId: string;
+  endpointId: string;
 }
 
 export async function enqueueWebhookDelivery(
   options: EnqueueWebhookOptions
 ): Promise<EnqueueResult> {
-  const { tenantId, eventId, webhookUrl } = options;
+  const { tenantId, eventId, endpoint } = options;
 
   const [delivery] = await db
     .insert(webhookDeliveries)
     .values({
       tenantId,
       eventId,
-      url: webhookUrl,
+      endpointId: endpoint.id,
+      url: endpoint.url,
       status: "pending",
       attemptCount: 0,
       nextAttemptAt: new Date(),
@@ -33,20 +37,26 @@ export async function enqueueWebhookDelivery(
   return {
     deliveryId: delivery.id,
     eventId,
+    endpointId: endpoint.id,
   };
 }
 
-export async function getTenantWebhookUrl(
-  tenantId: string
-): Promise<string | null> {
-  const tenant = await db.query.tenants.findFirst({
-    where: eq(tenants.id, tenantId),
-    columns: {
-      webhookUrl: true,
-    },
-  });
+/**
+ * Queues one delivery per enabled endpoint subscribed to the event's type.
+ */
+async function fanOutEvent(
+  tenantId: string,
+  eventId: string,
+  eventType: string
+): Promise<EnqueueResult[]> {
+  const endpoints = await getSubscribedWebhookEndpoints(db, tenantId, eventType);
+  const results: EnqueueResult[] = [];
+
+  for (const endpoint of endpoints) {
+    results.push(await enqueueWebhookDelivery({ tenantId, eventId, endpoint }));
+  }
 
-  return tenant?.webhookUrl ?? null;
+  return results;
 }
 
 export interface CreateEventAndEnqueueOptions {
@@ -57,7 +67,7 @@ export interface CreateEventAndEnqueueOptions {
 
 export interface CreateEventResult {
   eventId: string;
-  deliveryId: string | null;
+  deliveryIds: string[];
   webhookEnqueued: boolean;
 }
 
@@ -75,42 +85,29 @@ export async function createEventAndEnqueueWebhook(
     })
     .returning();
 
-  const webhookUrl = await getTenantWebhookUrl(tenantId);
-
-  if (!webhookUrl) {
-    return {
-      eventId: event.id,
-      deliveryId: null,
-      webhookEnqueued: false,
-    };
-  }
-
-  const result = await enqueueWebhookDelivery({
-    tenantId,
-    eventId: event.id,
-    webhookUrl,
-  });
+  const deliveries = await fanOutEvent(tenantId, event.id, eventType);
 
   return {
     eventId: event.id,
-    deliveryId: result.deliveryId,
-    webhookEnqueued: true,
+    deliveryIds: deliveries.map((delivery) => delivery.deliveryId),
+    webhookEnqueued: deliveries.length > 0,
   };
 }
 
 export async function enqueueWebhookForExistingEvent(
   tenantId: string,
   eventId: string
-): Promise<EnqueueResult | null> {
-  const webhookUrl = await getTenantWebhookUrl(tenantId);
+): Promise<EnqueueResult[]> {
+  const event = await db.query.events.findFirst({
+    where: and(eq(events.tenantId, tenantId), eq(events.id, eventId)),
+    columns: {
+      type: true,
+    },
+  });
 
-  if (!webhookUrl) {
-    return null;
+  if (!event) {
+    return [];
   }
 
-  return enqueueWebhookDelivery({
-    tenantId,
-    eventId,
-    webhookUrl,
-  });
+  return fanOutEvent(tenantId, eventId, event.type);
 }
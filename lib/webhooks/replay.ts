@@ -0,0 +1,424 @@
+import { z } from "zod";
+import { eq, and, or, gt, gte, lte, asc, inArray, notExists, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@/lib/db";
+import { events, webhookDeliveries, webhookEndpoints, webhookReplayJobs } from "@/db/schema";
+import type { DbExecutor, DbTransaction } from "@/lib/db";
+import { getWebhookEndpoint } from "./endpoints";
+
+export type WebhookReplayJobRecord = typeof webhookReplayJobs.$inferSelect;
+
+export const REPLAY_JOB_CHUNK_SIZE = 100;
+
+const ACTIVE_REPLAY_JOB_STATUSES = ["pending", "running"];
+
+const DateTimeSchema = z
+  .string()
+  .datetime({ offset: true, message: "from and to must be ISO 8601 date-times" });
+
+/**
+ * Which past deliveries to send again. `from`/`to` bound the creation time of
+ * the event, `eventTypes` lists exact event types, and `status: "failed"`
+ * keeps only deliveries that failed or exhausted their retries and were not
+ * delivered since. At least one of them is required; `endpointId` narrows
+ * any of them to one endpoint.
+ */
+export const BulkReplaySchema = z
+  .object({
+    from: DateTimeSchema.optional(),
+    to: DateTimeSchema.optional(),
+    eventTypes: z
+      .array(z.string().trim().min(1, "eventTypes must not contain empty strings"))
+      .min(1, "eventTypes must list at least one event type")
+      .max(50, "eventTypes may list at most 50 event types")
+      .optional(),
+    status: z.literal("failed").optional(),
+    endpointId: z.string().uuid("Endpoint ID must be a valid UUID").optional(),
+  })
+  .strict()
+  .refine(
+    (filters) =>
+      filters.from !== undefined ||
+      filters.to !== undefined ||
+      filters.eventTypes !== undefined ||
+      filters.status !== undefined,
+    { message: "Give at least one of from, to, eventTypes or status" }
+  )
+  .refine(
+    (filters) => !filters.from || !filters.to || new Date(filters.from) <= new Date(filters.to),
+    { message: "from must not be after to", path: ["from"] }
+  );
+
+export type BulkReplayFilters = z.infer<typeof BulkReplaySchema>;
+
+/**
+ * The deliveries a job replays. Each event is sent again once to each
+ * endpoint it went to, at the endpoint's current URL. Deliveries queued after the job was created are
+ * never included, so a job does not pick up its own deliveries.
+ */
+function replaySourceConditions(
+  tenantId: string,
+  filters: BulkReplayFilters,
+  createdBefore: Date
+) {
+  const conditions = [
+    eq(webhookDeliveries.tenantId, tenantId),
+    lte(webhookDeliveries.createdAt, createdBefore),
+  ];
+
+  if (filters.from) {
+    conditions.push(gte(events.createdAt, new Date(filters.from)));
+  }
+
+  if (filters.to) {
+    conditions.push(lte(events.createdAt, new Date(filters.to)));
+  }
+
+  if (filters.eventTypes) {
+    conditions.push(inArray(events.type, filters.eventTypes));
+  }
+
+  if (filters.endpointId) {
+    conditions.push(eq(webhookDeliveries.endpointId, filters.endpointId));
+  }
+
+  if (filters.status === "failed") {
+    const later = alias(webhookDeliveries, "later_deliveries");
+    conditions.push(eq(webhookDeliveries.status, "failed"));
+    conditions.push(
+      notExists(
+        db
+          .select({ id: later.id })
+          .from(later)
+          .where(
+            and(
+              eq(later.eventId, webhookDeliveries.eventId),
+              eq(later.endpointId, webhookDeliveries.endpointId),
+              eq(later.status, "success")
+            )
+          )
+      )
+    );
+  }
+
+  return conditions;
+}
+
+const eventJoin = and(
+  eq(events.tenantId, webhookDeliveries.tenantId),
+  sql`${events.id}::text = ${webhookDeliveries.eventId}`
+);
+
+export async function countReplayDeliveries(
+  executor: DbExecutor,
+  tenantId: string,
+  filters: BulkReplayFilters,
+  createdBefore: Date
+): Promise<number> {
+  const [result] = await executor
+    .select({
+      count: sql<number>`count(distinct (${webhookDeliveries.eventId}, ${webhookDeliveries.endpointId}))::int`,
+    })
+    .from(webhookDeliveries)
+    .innerJoin(events, eventJoin)
+    .innerJoin(webhookEndpoints, eq(webhookEndpoints.id, webhookDeliveries.endpointId))
+    .where(and(...replaySourceConditions(tenantId, filters, createdBefore)));
+
+  return result?.count ?? 0;
+}
+
+export interface CreateReplayJobResult {
+  success: true;
+  job: WebhookReplayJobRecord;
+}
+
+export interface CreateReplayJobError {
+  success: false;
+  code: string;
+  message: string;
+  status: number;
+}
+
+export type CreateReplayJobOutcome = CreateReplayJobResult | CreateReplayJobError;
+
+/**
+ * Records a replay job for the webhook worker to work through and emits
+ * `webhook.replay_started`. A tenant runs one replay job at a time.
+ */
+export async function createReplayJob(
+  tenantId: string,
+  apiKeyId: string,
+  filters: BulkReplayFilters
+): Promise<CreateReplayJobOutcome> {
+  if (filters.endpointId) {
+    const endpoint = await getWebhookEndpoint(db, tenantId, filters.endpointId);
+    if (!endpoint) {
+      return {
+        success: false,
+        code: "WEBHOOK_ENDPOINT_NOT_FOUND",
+        message: "Webhook endpoint not found",
+        status: 404,
+      };
+    }
+  }
+
+  return db.transaction(async (tx) => {
+    const [activeJob] = await tx
+      .select({ id: webhookReplayJobs.id })
+      .from(webhookReplayJobs)
+      .where(
+        and(
+          eq(webhookReplayJobs.tenantId, tenantId),
+          inArray(webhookReplayJobs.status, ACTIVE_REPLAY_JOB_STATUSES)
+        )
+      )
+      .limit(1);
+
+    if (activeJob) {
+      return {
+        success: false as const,
+        code: "REPLAY_JOB_IN_PROGRESS",
+        message: `Replay job ${activeJob.id} is still running`,
+        status: 409,
+      };
+    }
+
+    const createdAt = new Date();
+    const totalDeliveries = await countReplayDeliveries(tx, tenantId, filters, createdAt);
+
+    const [job] = await tx
+      .insert(webhookReplayJobs)
+      .values({
+        tenantId,
+        status: totalDeliveries === 0 ? "completed" : "pending",
+        filtersJson: filters,
+        totalDeliveries,
+        requestedByApiKeyId: apiKeyId,
+        createdAt,
+        completedAt: totalDeliveries === 0 ? createdAt : null,
+        updatedAt: createdAt,
+      })
+      .returning();
+
+    await tx.insert(events).values({
+      tenantId,
+      type: "webhook.replay_started",
+      payloadJson: {
+        jobId: job.id,
+        filters,
+        totalDeliveries,
+        startedAt: createdAt.toISOString(),
+      },
+    });
+
+    return { success: true as const, job };
+  }, {
+    isolationLevel: "serializable",
+  });
+}
+
+/**
+ * The oldest replay job that still has deliveries to queue.
+ */
+export async function findActiveReplayJob(
+  executor: DbExecutor
+): Promise<WebhookReplayJobRecord | null> {
+  const [job] = await executor
+    .select()
+    .from(webhookReplayJobs)
+    .where(inArray(webhookReplayJobs.status, ACTIVE_REPLAY_JOB_STATUSES))
+    .orderBy(asc(webhookReplayJobs.createdAt))
+    .limit(1);
+
+  return job ?? null;
+}
+
+/**
+ * Queues the next chunk of a job's deliveries, one per event and endpoint, in
+ * event creation order, resuming after the job's cursor. A pair is skipped
+ * when its endpoint is disabled, the event is already pending for the
+ * endpoint, or the pair was delivered to again after the job was created,
+ * whatever the outcome. Returns null when another worker holds the job or it
+ * is no longer active.
+ */
+export async function processReplayJobChunk(
+  tx: DbTransaction,
+  jobId: string,
+  chunkSize: number = REPLAY_JOB_CHUNK_SIZE
+): Promise<WebhookReplayJobRecord | null> {
+  const [job] = await tx
+    .select()
+    .from(webhookReplayJobs)
+    .where(
+      and(
+        eq(webhookReplayJobs.id, jobId),
+        inArray(webhookReplayJobs.status, ACTIVE_REPLAY_JOB_STATUSES)
+      )
+    )
+    .for("update", { skipLocked: true });
+
+  if (!job) {
+    return null;
+  }
+
+  const filters = BulkReplaySchema.parse(job.filtersJson);
+  const conditions = replaySourceConditions(job.tenantId, filters, job.createdAt);
+
+  if (job.cursorEventId && job.cursorEndpointId) {
+    // The cursor event's creation time is read in SQL so it keeps its full precision.
+    const cursorEvent = alias(events, "cursor_events");
+    const cursorCreatedAt = tx
+      .select({ createdAt: cursorEvent.createdAt })
+      .from(cursorEvent)
+      .where(eq(cursorEvent.id, job.cursorEventId));
+    conditions.push(
+      sql`(${events.createdAt}, ${webhookDeliveries.eventId}, ${webhookDeliveries.endpointId}) > (${cursorCreatedAt}, ${job.cursorEventId}::text, ${job.cursorEndpointId}::uuid)`
+    );
+  }
+
+  const other = alias(webhookDeliveries, "other_deliveries");
+  const alreadyQueued = tx
+    .select({ id: other.id })
+    .from(other)
+    .where(
+      and(
+        eq(other.tenantId, job.tenantId),
+        eq(other.eventId, webhookDeliveries.eventId),
+        eq(other.endpointId, webhookDeliveries.endpointId),
+        or(eq(other.status, "pending"), gt(other.createdAt, job.createdAt))
+      )
+    );
+
+  const rows = await tx
+    .selectDistinctOn(
+      [events.createdAt, webhookDeliveries.eventId, webhookDeliveries.endpointId],
+      {
+        eventId: webhookDeliveries.eventId,
+        endpointId: webhookEndpoints.id,
+        endpointUrl: webhookEndpoints.url,
+        endpointEnabled: webhookEndpoints.enabled,
+        alreadyQueued: sql<boolean>`exists ${alreadyQueued}`,
+      }
+    )
+    .from(webhookDeliveries)
+    .innerJoin(events, eventJoin)
+    .innerJoin(webhookEndpoints, eq(webhookEndpoints.id, webhookDeliveries.endpointId))
+    .where(and(...conditions))
+    .orderBy(
+      asc(events.createdAt),
+      asc(webhookDeliveries.eventId),
+      asc(webhookDeliveries.endpointId)
+    )
+    .limit(chunkSize);
+
+  const now = new Date();
+  const toEnqueue = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    if (!row.endpointEnabled || row.alreadyQueued) {
+      skipped++;
+      continue;
+    }
+    toEnqueue.push({
+      tenantId: job.tenantId,
+      eventId: row.eventId,
+      endpointId: row.endpointId,
+      url: row.endpointUrl,
+      status: "pending",
+      attemptCount: 0,
+      nextAttemptAt: now,
+    });
+  }
+
+  if (toEnqueue.length > 0) {
+    await tx.insert(webhookDeliveries).values(toEnqueue);
+  }
+
+  const lastRow = rows[rows.length - 1];
+  const finished = rows.length < chunkSize;
+
+  const [updated] = await tx
+    .update(webhookReplayJobs)
+    .set({
+      status: finished ? "completed" : "running",
+      processedDeliveries: job.processedDeliveries + rows.length,
+      enqueuedDeliveries: job.enqueuedDeliveries + toEnqueue.length,
+      skippedDeliveries: job.skippedDeliveries + skipped,
+      cursorEventId: lastRow?.eventId ?? job.cursorEventId,
+      cursorEndpointId: lastRow?.endpointId ?? job.cursorEndpointId,
+      startedAt: job.startedAt ?? now,
+      completedAt: finished ? now : null,
+      updatedAt: now,
+    })
+    .where(eq(webhookReplayJobs.id, job.id))
+    .returning();
+
+  return updated;
+}
+
+export async function failReplayJob(
+  executor: DbExecutor,
+  jobId: string,
+  error: string
+): Promise<void> {
+  const now = new Date();
+  await executor
+    .update(webhookReplayJobs)
+    .set({
+      status: "failed",
+      lastError: error.slice(0, 500),
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(webhookReplayJobs.id, jobId));
+}
+
+export async function getReplayJob(
+  executor: DbExecutor,
+  tenantId: string,
+  jobId: string
+): Promise<WebhookReplayJobRecord | null> {
+  const [job] = await executor
+    .select()
+    .from(webhookReplayJobs)
+    .where(and(eq(webhookReplayJobs.tenantId, tenantId), eq(webhookReplayJobs.id, jobId)))
+    .limit(1);
+
+  return job ?? null;
+}
+
+export interface WebhookReplayJobSummary {
+  id: string;
+  status: string;
+  filters: Record<string, unknown>;
+  totalDeliveries: number;
+  processedDeliveries: number;
+  enqueuedDeliveries: number;
+  skippedDeliveries: number;
+  progress: number;
+  lastError: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export function serializeReplayJob(job: WebhookReplayJobRecord): WebhookReplayJobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    filters: job.filtersJson,
+    totalDeliveries: job.totalDeliveries,
+    processedDeliveries: job.processedDeliveries,
+    enqueuedDeliveries: job.enqueuedDeliveries,
+    skippedDeliveries: job.skippedDeliveries,
+    progress:
+      job.status === "completed" || job.totalDeliveries === 0
+        ? 100
+        : Math.min(100, Math.floor((job.processedDeliveries / job.totalDeliveries) * 100)),
+    lastError: job.lastError,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
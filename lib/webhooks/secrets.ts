@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { decryptSecret, encryptSecret, generateWebhookSecret } from "@/lib/crypto";
+import type { WebhookEndpointRecord } from "./endpoints";
+
+export const DEFAULT_SECRET_GRACE_PERIOD_HOURS = 24;
+export const MAX_SECRET_GRACE_PERIOD_HOURS = 168;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const WebhookSecretRotateSchema = z
+  .object({
+    gracePeriodHours: z
+      .number()
+      .int("gracePeriodHours must be a whole number of hours")
+      .min(0, "gracePeriodHours must be at least 0")
+      .max(
+        MAX_SECRET_GRACE_PERIOD_HOURS,
+        `gracePeriodHours must be at most ${MAX_SECRET_GRACE_PERIOD_HOURS}`
+      )
+      .optional(),
+  })
+  .strict();
+
+function getSecretEncryptionKey(): string {
+  const key = process.env.WEBHOOK_SECRET_ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error("WEBHOOK_SECRET_ENCRYPTION_KEY environment variable is not set");
+  }
+  return key;
+}
+
+/**
+ * The secret endpoints created before per-endpoint secrets are signed with
+ * until their secret is rotated.
+ */
+function getSharedSigningSecret(): string | null {
+  return process.env.WEBHOOK_SIGNING_SECRET || null;
+}
+
+export interface GeneratedWebhookSecret {
+  secret: string;
+  encrypted: string;
+}
+
+/**
+ * A new endpoint secret. The plain secret is returned to the caller once;
+ * only the encrypted form is stored.
+ */
+export function createWebhookSecret(): GeneratedWebhookSecret {
+  const secret = generateWebhookSecret();
+  return { secret, encrypted: encryptSecret(secret, getSecretEncryptionKey()) };
+}
+
+export type EndpointSecretFields = Pick<
+  WebhookEndpointRecord,
+  "secretEncrypted" | "previousSecretEncrypted" | "previousSecretExpiresAt"
+>;
+
+export function isPreviousSecretActive(endpoint: EndpointSecretFields, now: Date): boolean {
+  return (
+    endpoint.previousSecretEncrypted !== null &&
+    endpoint.previousSecretExpiresAt !== null &&
+    endpoint.previousSecretExpiresAt > now
+  );
+}
+
+/**
+ * The secrets a delivery to an endpoint is signed with: its current secret
+ * and, during a rotation's grace period, the previous one. Deliveries with
+ * no endpoint secret fall back to the shared `WEBHOOK_SIGNING_SECRET`.
+ */
+export function getEndpointSigningSecrets(
+  endpoint: EndpointSecretFields | null,
+  now: Date = new Date()
+): string[] {
+  if (!endpoint?.secretEncrypted) {
+    const shared = getSharedSigningSecret();
+    if (!shared) {
+      throw new Error("Endpoint has no signing secret and WEBHOOK_SIGNING_SECRET is not set");
+    }
+    return [shared];
+  }
+
+  const key = getSecretEncryptionKey();
+  const secrets = [decryptSecret(endpoint.secretEncrypted, key)];
+
+  if (isPreviousSecretActive(endpoint, now)) {
+    secrets.push(decryptSecret(endpoint.previousSecretEncrypted!, key));
+  }
+
+  return secrets;
+}
+
+export interface RotatedWebhookSecret extends GeneratedWebhookSecret {
+  previousSecretEncrypted: string | null;
+  previousSecretExpiresAt: Date | null;
+}
+
+/**
+ * The encrypted secret an endpoint is signed with today. For an endpoint
+ * still on the shared secret, that is `WEBHOOK_SIGNING_SECRET` encrypted
+ * so it can be kept as the previous secret on first rotation.
+ */
+function getCurrentSecretEncrypted(endpoint: EndpointSecretFields): string | null {
+  if (endpoint.secretEncrypted) {
+    return endpoint.secretEncrypted;
+  }
+  const shared = getSharedSigningSecret();
+  return shared ? encryptSecret(shared, getSecretEncryptionKey()) : null;
+}
+
+/**
+ * Replaces an endpoint's secret. The old one keeps signing deliveries
+ * alongside the new one for `gracePeriodHours`, so receivers can switch
+ * over without dropping webhooks. A grace period of 0 retires it at once.
+ */
+export function rotateWebhookSecret(
+  endpoint: EndpointSecretFields,
+  gracePeriodHours: number,
+  now: Date = new Date()
+): RotatedWebhookSecret {
+  const next = createWebhookSecret();
+  const previous = gracePeriodHours > 0 ? getCurrentSecretEncrypted(endpoint) : null;
+  const keepPrevious = previous !== null;
+
+  return {
+    ...next,
+    previousSecretEncrypted: previous,
+    previousSecretExpiresAt: keepPrevious
+      ? new Date(now.getTime() + gracePeriodHours * HOUR_MS)
+      : null,
+  };
+}
@@ -1,26 +1,33 @@
 import crypto from "crypto";
 
-function getWebhookSigningSecret(): string {
-  const secret = process.env.WEBHOOK_SIGNING_SECRET;
-  if (!secret) {
-    throw new Error("WEBHOOK_SIGNING_SECRET environment variable is not set");
-  }
-  return secret;
-}
+export const SIGNATURE_VERSION = "v1";
 
 export interface WebhookSignature {
   timestamp: string;
   signature: string;
 }
 
-export function signWebhook(payload: string, ts?: string): WebhookSignature {
-  const secret = getWebhookSigningSecret();
-  const timestamp = ts ?? String(Math.floor(Date.now() / 1000));
-  const message = `${timestamp}.${payload}`;
-  const signature = crypto
+export function computeWebhookSignature(
+  payload: string,
+  timestamp: string,
+  secret: string
+): string {
+  return crypto
     .createHmac("sha256", secret)
-    .update(message)
+    .update(`${timestamp}.${payload}`)
     .digest("hex");
+}
+
+/**
+ * Signs a payload with every given secret. The signature header lists one
+ * `v1=<hex>` entry per secret, comma separated, so a receiver holding either
+ * secret during a rotation can verify it.
+ */
+export function signWebhook(payload: string, secrets: string[], ts?: string): WebhookSignature {
+  const timestamp = ts ?? String(Math.floor(Date.now() / 1000));
+  const signature = secrets
+    .map((secret) => `${SIGNATURE_VERSION}=${computeWebhookSignature(payload, timestamp, secret)}`)
+    .join(",");
 
   return {
     timestamp,
@@ -28,8 +35,8 @@ export function signWebhook(payload: string, ts?: string): WebhookSignature {
   };
 }
 
-export function getWebhookHeaders(payload: string): Record<string, string> {
-  const { timestamp, signature } = signWebhook(payload);
+export function getWebhookHeaders(payload: string, secrets: string[]): Record<string, string> {
+  const { timestamp, signature } = signWebhook(payload, secrets);
   return {
     "content-type": "application/json",
     "x-referralos-ts": timestamp,
@@ -37,20 +44,27 @@ export function getWebhookHeaders(payload: string): Record<string, string> {
   };
 }
 
+/**
+ * Checks a signature header against one secret. Any `v1=` entry matching is
+ * enough.
+ */
 export function verifyWebhookSignature(
   payload: string,
   timestamp: string,
-  signature: string
+  signatureHeader: string,
+  secret: string
 ): boolean {
-  const secret = getWebhookSigningSecret();
-  const message = `${timestamp}.${payload}`;
-  const expectedSignature = crypto
-    .createHmac("sha256", secret)
-    .update(message)
-    .digest("hex");
+  const expectedSignature = Buffer.from(computeWebhookSignature(payload, timestamp, secret));
 
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
+  return signatureHeader.split(",").some((entry) => {
+    const [version, signature] = entry.trim().split("=");
+    if (version !== SIGNATURE_VERSION || !signature) {
+      return false;
+    }
+    const candidate = Buffer.from(signature);
+    return (
+      candidate.length === expectedSignature.length &&
+      crypto.timingSafeEqual(candidate, expectedSignature)
+    );
+  });
 }